@@ -1,17 +1,27 @@
 import { Mail, Settings as SettingsIcon, Share2, Sparkles } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import toast, { Toaster } from 'react-hot-toast';
 import AuthStatus from './components/AuthStatus';
+import CertificateForm from './components/CertificateForm';
 import CertificateList from './components/CertificateList';
+import DuplicateReview from './components/DuplicateReview';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import PostGenerator from './components/PostGenerator';
 import Settings from './components/Settings';
 import { SocialPoster } from './components/SocialPoster';
-import type { AppSettings, AuthState, Certificate, GeneratedPost } from './types';
+import type { AppSettings, AuthState, Certificate, CertificateDraft, GeneratedPost, ScanProgress } from './types';
+import { enhanceCertificatesWithAI } from './utils/aiExtraction';
+import { convertToCertificates } from './utils/certificateConverter';
+import { confirmMerge, splitCertificate } from './utils/certificateDedup';
+import { applyUserEdits, createManualCertificate } from './utils/certificateEdits';
+import { POSTED_LABEL, PROCESSED_LABEL, getScanRules } from './utils/gmailQuery';
+import { importMailFile } from './utils/emlParser';
+import { createGmailService } from './utils/gmailService';
+import { importBadgeFile } from './utils/openBadges';
 import { createSocialMediaService } from './utils/socialService';
 import { storage } from './utils/storage';
 
-type AppView = 'certificates' | 'generator' | 'poster' | 'settings';
+type AppView = 'certificates' | 'duplicates' | 'editor' | 'generator' | 'poster' | 'settings';
 
 function App() {
   const [currentView, setCurrentView] = useState<AppView>('certificates');
@@ -23,10 +33,16 @@ function App() {
     twitterToken: null,
   });
   const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [editingCertificate, setEditingCertificate] = useState<Certificate | null>(null);
   const [selectedCertificate, setSelectedCertificate] = useState<Certificate | null>(null);
   const [generatedPost, setGeneratedPost] = useState<GeneratedPost | null>(null);
   const [settings, setSettings] = useState<AppSettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [backfillProgress, setBackfillProgress] = useState<ScanProgress | null>(null);
+  const [hasPendingBackfill, setHasPendingBackfill] = useState(false);
+  const [highlightedCertificateId, setHighlightedCertificateId] = useState<string | null>(null);
+  const [failedMessageIds, setFailedMessageIds] = useState<string[]>([]);
+  const backfillAbortRef = useRef<AbortController | null>(null);
 
   // Initialize app data
   useEffect(() => {
@@ -43,14 +59,31 @@ function App() {
         setAuthState(authResponse.data);
       }
 
-      // Load certificates and settings
-      const [certificatesData, settingsData] = await Promise.all([
+      // Load certificates, settings and any interrupted backfill
+      const [certificatesData, settingsData, backfillState, pendingIntent, failedIds] = await Promise.all([
         storage.getCertificates(),
-        storage.getSettings()
+        storage.getSettings(),
+        storage.getBackfillState(),
+        storage.getPendingIntent(),
+        storage.getFailedMessageIds()
       ]);
 
       setCertificates(certificatesData);
       setSettings(settingsData);
+      setHasPendingBackfill(!!backfillState?.pageToken);
+      setFailedMessageIds(failedIds);
+
+      // Opened from an expiry or renewal notification
+      if (pendingIntent) {
+        await storage.clearPendingIntent();
+        const certificate = certificatesData.find(c => c.id === pendingIntent.certificateId);
+        if (certificate && pendingIntent.action === 'recertified') {
+          setSelectedCertificate(certificate);
+          setCurrentView('generator');
+        } else if (certificate) {
+          setHighlightedCertificateId(certificate.id);
+        }
+      }
     } catch (error) {
       console.error('Error initializing app:', error);
     } finally {
@@ -96,15 +129,271 @@ function App() {
 
   const handleScanGmail = async () => {
     try {
-      const response = await chrome.runtime.sendMessage({ action: 'scanGmail' });
-      if (response.success && response.data.certificates) {
-        setCertificates(response.data.certificates);
+      const response = await chrome.runtime.sendMessage({ action: 'scanMail' });
+      if (response.success) {
+        // The background scan only adds new certificates, so reload the merged list
+        setCertificates(await storage.getCertificates());
+        setFailedMessageIds(await storage.getFailedMessageIds());
+        if (response.data?.outlookError) {
+          toast.error(response.data.outlookError);
+        }
+      } else {
+        toast.error(response.error || 'Scan failed');
       }
     } catch (error) {
       console.error('Gmail scan error:', error);
     }
   };
 
+  const handleBackfill = async () => {
+    if (!authState.googleToken) {
+      toast.error('Please sign in again to scan Gmail');
+      return;
+    }
+
+    const abortController = new AbortController();
+    backfillAbortRef.current = abortController;
+    let added = 0;
+    let merged = 0;
+
+    try {
+      const gmailService = createGmailService(authState.googleToken, getScanRules(settings));
+      const storedState = await storage.getBackfillState();
+      const savedState = storedState?.query === gmailService.getQuery() ? storedState : null;
+      const startedAt = savedState?.startedAt || new Date().toISOString();
+
+      const result = await gmailService.backfillCertificates({
+        startPageToken: savedState?.pageToken || undefined,
+        startPage: savedState?.page,
+        startProcessed: savedState?.processed,
+        startFound: savedState?.found,
+        signal: abortController.signal,
+        onPage: async (messages, nextPageToken, progress, failedIds) => {
+          const pageCertificates = gmailService.convertToCertificates(messages, settings?.classifierThreshold, settings?.customSkills);
+          const saved = await storage.saveScannedCertificates(settings
+            ? await enhanceCertificatesWithAI(pageCertificates, messages, settings)
+            : pageCertificates);
+          added += saved.added.length;
+          merged += saved.merged;
+          await labelEmails(pageCertificates.map(cert => cert.emailId), PROCESSED_LABEL);
+
+          // Save the next page token so a closed popup can pick up where it left off
+          if (nextPageToken) {
+            await storage.setBackfillState({
+              query: gmailService.getQuery(),
+              pageToken: nextPageToken,
+              page: progress.page,
+              processed: progress.processed,
+              found: progress.found,
+              startedAt,
+              updatedAt: new Date().toISOString(),
+            });
+          } else {
+            await storage.clearBackfillState();
+          }
+
+          await storage.addFailedMessageIds(failedIds);
+          setCertificates(await storage.getCertificates());
+          setFailedMessageIds(await storage.getFailedMessageIds());
+        },
+        onProgress: setBackfillProgress,
+      });
+
+      const summary = `${added} certificate${added !== 1 ? 's' : ''} added${merged > 0 ? `, ${merged} merged` : ''}`;
+      if (result.success && abortController.signal.aborted) {
+        setHasPendingBackfill(!!(await storage.getBackfillState())?.pageToken);
+        toast(`Full scan stopped: ${summary}. You can resume it later.`);
+      } else if (result.success) {
+        setHasPendingBackfill(false);
+        toast.success(`Backfill complete: ${summary}`);
+      } else {
+        setHasPendingBackfill(true);
+        toast.error(result.error || 'Backfill failed. You can resume it later.');
+      }
+    } catch (error) {
+      console.error('Gmail backfill error:', error);
+      toast.error('Backfill failed. You can resume it later.');
+    } finally {
+      backfillAbortRef.current = null;
+      setBackfillProgress(null);
+    }
+  };
+
+  const handleStopBackfill = () => {
+    backfillAbortRef.current?.abort();
+  };
+
+  // Read the token from storage: enabling labels in Settings swaps it for one with gmail.modify
+  const labelEmails = async (emailIds: string[], label: string) => {
+    if (!settings?.gmailLabels || emailIds.length === 0) {
+      return;
+    }
+
+    const { googleToken } = await storage.getAuthState();
+    if (!googleToken) {
+      return;
+    }
+    const result = await createGmailService(googleToken).addLabel(emailIds, label);
+    if (!result.success) {
+      console.warn(`Failed to apply ${label} label:`, result.error);
+    }
+  };
+
+  const handleImportBadges = async (files: File[]) => {
+    const badges: Certificate[] = [];
+
+    for (const file of files) {
+      try {
+        const certificate = await importBadgeFile(file);
+        if (!certificate) {
+          toast.error(`No Open Badges assertion found in ${file.name}`);
+          continue;
+        }
+        badges.push(certificate);
+      } catch (error) {
+        console.error('Badge import error:', error);
+        toast.error(`Failed to import ${file.name}`);
+      }
+    }
+
+    if (badges.length === 0) {
+      return;
+    }
+
+    try {
+      // Saved like scan results, so importing a badge again keeps the user's edits
+      const { added, merged } = await storage.saveScannedCertificates(badges);
+      setCertificates(await storage.getCertificates());
+      if (added.length > 0 || merged > 0) {
+        toast.success(`Imported ${added.length} badge${added.length !== 1 ? 's' : ''}${merged > 0 ? `, merged ${merged}` : ''}`);
+      } else {
+        toast.success('These badges were already imported');
+      }
+    } catch (error) {
+      console.error('Badge import error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save badges');
+    }
+  };
+
+  const handleImportEmails = async (files: File[]) => {
+    let imported = 0;
+    let merged = 0;
+
+    for (const file of files) {
+      try {
+        const messages = await importMailFile(file);
+        const converted = convertToCertificates(messages, {
+          minScore: settings?.classifierThreshold,
+          customSkills: settings?.customSkills,
+          source: 'file',
+        });
+        const result = await storage.saveScannedCertificates(settings
+          ? await enhanceCertificatesWithAI(converted, messages, settings)
+          : converted);
+        imported += result.added.length;
+        merged += result.merged;
+
+        if (converted.length === 0) {
+          toast.error(`No certificate emails found in ${file.name}`);
+        }
+      } catch (error) {
+        console.error('Email import error:', error);
+        toast.error(error instanceof Error ? error.message : `Failed to import ${file.name}`);
+      }
+    }
+
+    if (imported > 0 || merged > 0) {
+      setCertificates(await storage.getCertificates());
+      toast.success(`Imported ${imported} certificate${imported !== 1 ? 's' : ''}${merged > 0 ? `, merged ${merged}` : ''}`);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    if (!authState.googleToken) {
+      toast.error('Please sign in again to scan Gmail');
+      return;
+    }
+
+    try {
+      const gmailService = createGmailService(authState.googleToken, getScanRules(settings));
+      const result = await gmailService.getMessages(failedMessageIds);
+      const messages = result.data || [];
+      const retried = gmailService.convertToCertificates(messages, settings?.classifierThreshold, settings?.customSkills);
+      await storage.saveScannedCertificates(settings
+        ? await enhanceCertificatesWithAI(retried, messages, settings)
+        : retried);
+      await labelEmails(retried.map(cert => cert.emailId), PROCESSED_LABEL);
+
+      const stillFailing = result.failedIds || [];
+      await storage.setFailedMessageIds(stillFailing);
+      setFailedMessageIds(stillFailing);
+      setCertificates(await storage.getCertificates());
+
+      if (stillFailing.length > 0) {
+        toast.error(`${stillFailing.length} emails still could not be loaded`);
+      } else {
+        toast.success(`Loaded ${messages.length} emails`);
+      }
+    } catch (error) {
+      console.error('Retry failed messages error:', error);
+      toast.error(error instanceof Error ? error.message : 'Retry failed');
+    }
+  };
+
+  const handleDismissFailed = async () => {
+    await storage.setFailedMessageIds([]);
+    setFailedMessageIds([]);
+  };
+
+  const handleConfirmMerge = async (certificate: Certificate) => {
+    const updated = certificates.map(c => c.id === certificate.id ? confirmMerge(c) : c);
+    if (!await storage.setCertificates(updated)) {
+      toast.error('Could not save certificates. Browser storage may be full.');
+      return;
+    }
+    setCertificates(updated);
+  };
+
+  const handleSplitMerge = async (certificate: Certificate) => {
+    const updated = certificates.flatMap(c => c.id === certificate.id ? splitCertificate(c) : [c]);
+    if (!await storage.setCertificates(updated)) {
+      toast.error('Could not save certificates. Browser storage may be full.');
+      return;
+    }
+    setCertificates(updated);
+    toast.success('Certificates split');
+  };
+
+  const handleAddCertificate = () => {
+    setEditingCertificate(null);
+    setCurrentView('editor');
+  };
+
+  const handleEditCertificate = (certificate: Certificate) => {
+    setEditingCertificate(certificate);
+    setCurrentView('editor');
+  };
+
+  const handleSaveCertificate = async (draft: CertificateDraft) => {
+    try {
+      const certificate = editingCertificate
+        ? applyUserEdits(editingCertificate, draft)
+        : createManualCertificate(draft);
+      if (!await storage.addCertificate(certificate)) {
+        toast.error('Could not save the certificate. Browser storage may be full.');
+        return;
+      }
+      setCertificates(await storage.getCertificates());
+      setHighlightedCertificateId(certificate.id);
+      setEditingCertificate(null);
+      setCurrentView('certificates');
+      toast.success(editingCertificate ? 'Certificate updated' : 'Certificate added');
+    } catch (error) {
+      console.error('Save certificate error:', error);
+      toast.error('Failed to save certificate');
+    }
+  };
+
   const handleGeneratePost = (certificate: Certificate) => {
     setSelectedCertificate(certificate);
     setCurrentView('generator');
@@ -143,6 +432,10 @@ function App() {
           // Open the posted content in a new tab
           chrome.tabs.create({ url: result.data.url });
         }
+        // Only Gmail certificates have Gmail messages to label; older ones predate `source`
+        if (selectedCertificate && (selectedCertificate.source || 'gmail') === 'gmail') {
+          await labelEmails(selectedCertificate.sourceEmailIds || [selectedCertificate.emailId], POSTED_LABEL);
+        }
         handlePostComplete();
       } else {
         toast.error(result.error || `Failed to post to ${platform}`);
@@ -272,7 +565,20 @@ function App() {
                 <CertificateList
                   certificates={certificates}
                   onScanGmail={handleScanGmail}
+                  onBackfill={handleBackfill}
+                  onStopBackfill={handleStopBackfill}
+                  onImportBadges={handleImportBadges}
+                  onImportEmails={handleImportEmails}
+                  backfillProgress={backfillProgress}
+                  hasPendingBackfill={hasPendingBackfill}
                   onGeneratePost={handleGeneratePost}
+                  onAddCertificate={handleAddCertificate}
+                  onEditCertificate={handleEditCertificate}
+                  highlightedCertificateId={highlightedCertificateId}
+                  onReviewDuplicates={() => setCurrentView('duplicates')}
+                  failedCount={failedMessageIds.length}
+                  onRetryFailed={handleRetryFailed}
+                  onDismissFailed={handleDismissFailed}
                   onDeleteCertificate={async (certificateId: string) => {
                     await storage.removeCertificate(certificateId);
                     setCertificates(prev => prev.filter(c => c.id !== certificateId));
@@ -280,6 +586,26 @@ function App() {
                 />
               )}
 
+              {currentView === 'editor' && (
+                <CertificateForm
+                  certificate={editingCertificate}
+                  onSave={handleSaveCertificate}
+                  onClose={() => {
+                    setEditingCertificate(null);
+                    setCurrentView('certificates');
+                  }}
+                />
+              )}
+
+              {currentView === 'duplicates' && (
+                <DuplicateReview
+                  certificates={certificates}
+                  onConfirm={handleConfirmMerge}
+                  onSplit={handleSplitMerge}
+                  onClose={() => setCurrentView('certificates')}
+                />
+              )}
+
               {currentView === 'generator' && selectedCertificate && (
                 <PostGenerator
                   certificate={selectedCertificate}
@@ -0,0 +1,657 @@
+import type { AppSettings, AuthState, BackgroundResponse, Certificate, ChromeMessage, EmailMessage, PendingIntent } from './types';
+import { enhanceCertificatesWithAI } from './utils/aiExtraction';
+import { convertToCertificates } from './utils/certificateConverter';
+import { collectEmailIds } from './utils/certificateDedup';
+import { formatDisplayDate } from './utils/dates';
+import { daysUntilExpiry, findRenewedCertificate, getReminderAlarmName, parseReminderAlarm, scheduleExpiryReminders } from './utils/expiryReminders';
+import { PROCESSED_LABEL, getScanRules } from './utils/gmailQuery';
+import { AUTH_EXPIRED, GMAIL_MODIFY_SCOPE, createGmailService } from './utils/gmailService';
+import { syncMailSource } from './utils/mailSource';
+import { OUTLOOK_AUTH_EXPIRED, createOutlookService, requestOutlookToken } from './utils/outlookService';
+import { storage } from './utils/storage';
+
+console.log('Postify background script loaded');
+
+const GOOGLE_SCOPES = [
+    'https://www.googleapis.com/auth/gmail.readonly',
+    'https://www.googleapis.com/auth/userinfo.email',
+    'https://www.googleapis.com/auth/userinfo.profile'
+];
+
+const DEFAULT_AUTH_STATE: AuthState = {
+    isAuthenticated: false,
+    user: null,
+    googleToken: null,
+    linkedinToken: null,
+    twitterToken: null,
+};
+
+// Install event
+chrome.runtime.onInstalled.addListener(() => {
+    console.log('Postify extension installed');
+    initializeStorage().then(() => Promise.all([rescheduleExpiryReminders(), scheduleMailScan()]));
+});
+
+chrome.runtime.onStartup.addListener(() => {
+    rescheduleExpiryReminders();
+    scheduleMailScan();
+});
+
+chrome.runtime.onMessage.addListener((request: ChromeMessage, _sender, sendResponse) => {
+    console.log('Background received message:', request);
+    switch (request.action) {
+        case 'authenticate':
+            handleAuthentication()
+                .then(sendResponse)
+                .catch(error => sendResponse({ success: false, error: error.message }));
+            return true;
+        case 'scanMail':
+            handleMailScan()
+                .then(sendResponse)
+                .catch(error => sendResponse({ success: false, error: error.message }));
+            return true;
+        case 'getAuthState':
+            getAuthState()
+                .then(sendResponse)
+                .catch(error => sendResponse({ success: false, error: error.message }));
+            return true;
+        case 'enableGmailLabels':
+            enableGmailLabels()
+                .then(sendResponse)
+                .catch(error => sendResponse({ success: false, error: error.message }));
+            return true;
+        case 'connectOutlook':
+            connectOutlook()
+                .then(sendResponse)
+                .catch(error => sendResponse({ success: false, error: error.message }));
+            return true;
+        case 'disconnectOutlook':
+            disconnectOutlook()
+                .then(sendResponse)
+                .catch(error => sendResponse({ success: false, error: error.message }));
+            return true;
+        case 'logout':
+            handleLogout()
+                .then(sendResponse)
+                .catch(error => sendResponse({ success: false, error: error.message }));
+            return true;
+        default:
+            sendResponse({ success: false, error: 'Unknown action' });
+    }
+});
+
+async function initializeStorage() {
+    try {
+        const [authState, settings] = await Promise.all([
+            storage.get<AuthState>('authState'),
+            storage.get<AppSettings>('settings'),
+        ]);
+        if (!authState) {
+            await storage.setAuthState(DEFAULT_AUTH_STATE);
+        }
+        if (!settings) {
+            await storage.setSettings(await storage.getSettings());
+        }
+    } catch (error) {
+        console.error('Error initializing storage:', error);
+    }
+}
+
+interface GoogleUserInfo {
+    id?: string;
+    sub?: string;
+    email?: string;
+    name?: string;
+    picture?: string;
+}
+
+async function handleAuthentication(): Promise<BackgroundResponse & { details?: string }> {
+    try {
+        console.log('🔐 Starting authentication...');
+        console.log('Extension ID:', chrome.runtime.id);
+
+        // Clear any existing cached tokens first
+        await clearCachedTokens();
+
+        // Step 1: Get the auth token
+        console.log('📝 Requesting auth token...');
+        const settings = await storage.getSettings();
+        const token = await requestGoogleToken(settings.gmailLabels ? [...GOOGLE_SCOPES, GMAIL_MODIFY_SCOPE] : GOOGLE_SCOPES);
+        console.log('✅ Token received (length:', token.length, ')');
+        console.log('Token starts with:', token.substring(0, 20) + '...');
+
+        // Step 2: Test the token with a simple API call first
+        console.log('🔍 Testing token validity...');
+
+        const testResponse = await fetch('https://www.googleapis.com/oauth2/v1/tokeninfo', {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`
+            }
+        });
+
+        console.log('Token test response status:', testResponse.status);
+
+        if (!testResponse.ok) {
+            const errorText = await testResponse.text();
+            console.error('❌ Token validation failed:', testResponse.status, errorText);
+            throw new Error(`Token validation failed: ${testResponse.status} ${errorText}`);
+        }
+
+        const tokenInfo = await testResponse.json();
+        console.log('✅ Token info:', tokenInfo);
+
+        // Step 3: Get user information
+        console.log('👤 Fetching user info...');
+
+        const userInfoResponse = await fetch('https://www.googleapis.com/oauth2/v3/userinfo', {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Accept': 'application/json'
+            }
+        });
+
+        console.log('User info response status:', userInfoResponse.status);
+        console.log('User info response headers:', Object.fromEntries(userInfoResponse.headers.entries()));
+
+        if (!userInfoResponse.ok) {
+            const errorText = await userInfoResponse.text();
+            console.error('❌ User info fetch failed:', userInfoResponse.status, errorText);
+
+            // Try alternative endpoint
+            console.log('🔄 Trying alternative userinfo endpoint...');
+            const altResponse = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
+                method: 'GET',
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Accept': 'application/json'
+                }
+            });
+
+            console.log('Alternative endpoint status:', altResponse.status);
+
+            if (!altResponse.ok) {
+                const altErrorText = await altResponse.text();
+                console.error('❌ Alternative endpoint also failed:', altResponse.status, altErrorText);
+                throw new Error(`Both userinfo endpoints failed. Primary: ${userInfoResponse.status}, Alt: ${altResponse.status}`);
+            }
+
+            const altUserInfo: GoogleUserInfo = await altResponse.json();
+            console.log('✅ Alternative endpoint succeeded:', altUserInfo);
+
+            // Use alternative response
+            const authState = buildAuthState(altUserInfo, token);
+
+            await storage.setAuthState(authState);
+            console.log('✅ Authentication successful via alternative endpoint');
+
+            return { success: true, data: { user: authState.user, token } };
+        }
+
+        const userInfo: GoogleUserInfo = await userInfoResponse.json();
+        console.log('✅ User info received:', userInfo);
+
+        // Validate user info structure
+        if (!userInfo.sub && !userInfo.id) {
+            console.error('❌ Invalid user info - missing ID:', userInfo);
+            throw new Error('Invalid user information received - missing user ID');
+        }
+
+        if (!userInfo.email) {
+            console.error('❌ Invalid user info - missing email:', userInfo);
+            throw new Error('Invalid user information received - missing email');
+        }
+
+        const authState = buildAuthState(userInfo, token);
+
+        await storage.setAuthState(authState);
+        console.log('✅ Authentication successful - user stored');
+
+        return { success: true, data: { user: authState.user, token } };
+
+    } catch (error) {
+        console.error('❌ Authentication error:', error);
+        const stack = error instanceof Error ? error.stack : undefined;
+        console.error('Error stack:', stack);
+
+        // Clear any potentially corrupted auth state
+        await handleLogout();
+
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Authentication failed',
+            details: stack
+        };
+    }
+}
+
+async function requestGoogleToken(scopes: string[]): Promise<string> {
+    const tokenObj: unknown = await chrome.identity.getAuthToken({ interactive: true, scopes });
+    console.log('Token received:', tokenObj, typeof tokenObj);
+    if (typeof tokenObj === 'string') {
+        return tokenObj;
+    }
+    if (tokenObj && typeof tokenObj === 'object' && 'token' in tokenObj && typeof tokenObj.token === 'string') {
+        return tokenObj.token;
+    }
+    throw new Error('Failed to get authentication token');
+}
+
+/**
+ * Ask for the gmail.modify scope on top of the sign-in scopes so scans can
+ * label emails. The new token replaces the stored one.
+ */
+async function enableGmailLabels(): Promise<BackgroundResponse> {
+    try {
+        const authState = await storage.getAuthState();
+        if (!authState.isAuthenticated) {
+            throw new Error('User not authenticated');
+        }
+
+        const token = await requestGoogleToken([...GOOGLE_SCOPES, GMAIL_MODIFY_SCOPE]);
+        await storage.setAuthState({ ...authState, googleToken: token });
+        return { success: true };
+    } catch (error) {
+        console.error('Enable Gmail labels error:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Gmail permission was not granted' };
+    }
+}
+
+function buildAuthState(userInfo: GoogleUserInfo, token: string): AuthState {
+    return {
+        isAuthenticated: true,
+        user: {
+            id: (userInfo.sub || userInfo.id) as string,
+            email: userInfo.email as string,
+            name: userInfo.name || userInfo.email as string,
+            picture: userInfo.picture,
+        },
+        googleToken: token,
+        linkedinToken: null,
+        twitterToken: null,
+    };
+}
+
+async function clearCachedTokens() {
+    try {
+        console.log('🧹 Clearing cached tokens...');
+
+        // Get all cached tokens
+        const tokens = await new Promise<string | undefined>((resolve) => {
+            chrome.identity.getAuthToken({ interactive: false }, (token) => {
+                resolve(typeof token === 'string' ? token : token?.token);
+            });
+        });
+
+        if (tokens) {
+            console.log('Found cached token, removing...');
+            await chrome.identity.removeCachedAuthToken({ token: tokens });
+        }
+
+        // Also clear from storage
+        const authState = await storage.getAuthState();
+
+        if (authState.googleToken) {
+            console.log('Removing token from storage...');
+            await chrome.identity.removeCachedAuthToken({ token: authState.googleToken });
+        }
+
+        console.log('✅ Tokens cleared');
+    } catch (error) {
+        console.warn('⚠️ Error clearing cached tokens:', error);
+    }
+}
+
+/**
+ * Sign in to Microsoft and keep the Graph token so scans include Outlook
+ */
+async function connectOutlook(): Promise<BackgroundResponse> {
+    try {
+        const [authState, settings] = await Promise.all([storage.getAuthState(), storage.getSettings()]);
+        if (!settings.outlookClientId) {
+            throw new Error('Add your Microsoft application (client) ID first');
+        }
+
+        const token = await requestOutlookToken(settings.outlookClientId, true);
+        await storage.setAuthState({ ...authState, outlookToken: token });
+        return { success: true };
+    } catch (error) {
+        console.error('Outlook connect error:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Failed to connect Outlook' };
+    }
+}
+
+async function disconnectOutlook(): Promise<BackgroundResponse> {
+    const authState = await storage.getAuthState();
+    await storage.setAuthState({ ...authState, outlookToken: null });
+    await storage.setMailSyncTime('outlook', '');
+    return { success: true };
+}
+
+/**
+ * Fetch Outlook messages received since the last Outlook sync. Graph tokens
+ * last an hour, so an expired one is renewed silently once before giving up.
+ */
+async function scanOutlook(authState: AuthState, settings: AppSettings): Promise<EmailMessage[]> {
+    const { outlook: lastSyncedAt } = await storage.getMailSyncTimes();
+    let result = await syncMailSource(createOutlookService(authState.outlookToken as string, settings.searchRules), lastSyncedAt);
+
+    if (result.error === OUTLOOK_AUTH_EXPIRED && settings.outlookClientId) {
+        try {
+            const token = await requestOutlookToken(settings.outlookClientId, false);
+            await storage.setAuthState({ ...(await storage.getAuthState()), outlookToken: token });
+            result = await syncMailSource(createOutlookService(token, settings.searchRules), lastSyncedAt);
+        } catch (error) {
+            console.warn('Silent Outlook token renewal failed:', error);
+        }
+    }
+
+    if (!result.success || !result.data) {
+        if (result.error === OUTLOOK_AUTH_EXPIRED) {
+            await storage.setAuthState({ ...(await storage.getAuthState()), outlookToken: null });
+        }
+        throw new Error(result.error || 'Outlook scan failed');
+    }
+
+    if (result.failedIds?.length) {
+        console.warn(`${result.failedIds.length} Outlook messages could not be fetched`);
+    }
+    await storage.setMailSyncTime('outlook', new Date().toISOString());
+    return result.data;
+}
+
+/**
+ * Pull certificate emails added since the last sync from every connected mail
+ * source and merge them into storage. Gmail syncs through its history API;
+ * Outlook searches for messages received since its last sync.
+ * Certificates that are already stored are left untouched so user edits survive.
+ */
+async function handleMailScan(): Promise<BackgroundResponse> {
+    try {
+        console.log('Starting mail scan...');
+        const authState = await storage.getAuthState();
+
+        if (!authState.isAuthenticated || !authState.googleToken) {
+            throw new Error('User not authenticated');
+        }
+
+        const [syncState, settings] = await Promise.all([
+            storage.getSyncState(),
+            storage.getSettings()
+        ]);
+        const gmailService = createGmailService(authState.googleToken, getScanRules(settings));
+        const result = await gmailService.syncCertificates(syncState);
+
+        if (!result.success || !result.data) {
+            if (result.error === AUTH_EXPIRED) {
+                await handleLogout();
+            }
+            throw new Error(result.error || 'Gmail scan failed');
+        }
+
+        const { messages: gmailMessages, historyId, fullSync } = result.data;
+        console.log(`Gmail ${fullSync ? 'full' : 'incremental'} sync found ${gmailMessages.length} messages`);
+
+        // A failing secondary source shouldn't stop the Gmail results from being saved
+        let outlookMessages: EmailMessage[] = [];
+        let outlookError: string | undefined;
+        if (authState.outlookToken) {
+            try {
+                outlookMessages = await scanOutlook(authState, settings);
+                console.log(`Outlook sync found ${outlookMessages.length} messages`);
+            } catch (error) {
+                outlookError = error instanceof Error ? error.message : 'Outlook scan failed';
+                console.warn('Outlook scan error:', outlookError);
+            }
+        }
+
+        const messages = [...gmailMessages, ...outlookMessages];
+        const convertOptions = { minScore: settings.classifierThreshold, customSkills: settings.customSkills };
+        const existingCertificates = await storage.getCertificates();
+        const knownEmailIds = collectEmailIds(existingCertificates);
+        const newCertificates: Certificate[] = await enhanceCertificatesWithAI(
+            [
+                ...gmailService.convertToCertificates(gmailMessages, settings.classifierThreshold, settings.customSkills),
+                ...convertToCertificates(outlookMessages, { ...convertOptions, source: 'outlook' }),
+            ].filter(cert => !knownEmailIds.has(cert.emailId)),
+            messages,
+            settings
+        );
+
+        for (const certificate of newCertificates) {
+            certificate.renewalOf = findRenewedCertificate(certificate, existingCertificates)?.id;
+        }
+
+        // Reminder and resend emails for the same course are merged rather than added
+        const { added, merged } = await storage.saveScannedCertificates(newCertificates);
+        if (merged > 0) {
+            console.log(`Merged ${merged} duplicate certificate emails`);
+        }
+
+        if (settings.gmailLabels) {
+            const gmailIds = newCertificates.filter(cert => cert.source === 'gmail').map(cert => cert.emailId);
+            const labelResult = await gmailService.addLabel(gmailIds, PROCESSED_LABEL);
+            if (!labelResult.success) {
+                console.warn('Failed to label processed emails:', labelResult.error);
+            }
+        }
+
+        if (settings.notifications) {
+            added.filter(certificate => certificate.renewalOf).forEach(notifyRenewal);
+        }
+
+        // The history id moves on regardless, so keep failed Gmail ids around for a manual retry
+        if (result.failedIds?.length) {
+            console.warn(`${result.failedIds.length} messages could not be fetched`);
+            await storage.addFailedMessageIds(result.failedIds);
+        }
+
+        await storage.setSyncState({
+            historyId,
+            lastSyncedAt: new Date().toISOString(),
+        });
+
+        return {
+            success: true,
+            data: {
+                messages,
+                certificates: added,
+                count: added.length,
+                merged,
+                failedIds: result.failedIds || [],
+                outlookError,
+                fullSync
+            }
+        };
+
+    } catch (error) {
+        console.error('Mail scan error:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Mail scan failed' };
+    }
+}
+
+async function getAuthState(): Promise<BackgroundResponse> {
+    try {
+        return {
+            success: true,
+            data: await storage.getAuthState()
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get auth state'
+        };
+    }
+}
+
+async function handleLogout(): Promise<BackgroundResponse> {
+    try {
+        console.log('🚪 Logging out...');
+        const authState = await storage.getAuthState();
+
+        if (authState.googleToken) {
+            try {
+                await chrome.identity.removeCachedAuthToken({ token: authState.googleToken });
+                console.log('✅ Token removed from cache');
+            } catch (error) {
+                console.warn('⚠️ Error removing cached token:', error);
+            }
+        }
+
+        await storage.clearAuthState();
+        // Sync and backfill positions belong to the mailbox that just signed out
+        await storage.clearSyncState();
+        await storage.clearMailSyncTimes();
+        await storage.clearBackfillState();
+        await storage.setFailedMessageIds([]);
+        console.log('✅ Auth state cleared');
+        return { success: true, data: null };
+
+    } catch (error) {
+        console.error('❌ Logout error:', error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Logout failed'
+        };
+    }
+}
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+    const reminder = parseReminderAlarm(alarm.name);
+    if (reminder) {
+        await notifyExpiry(reminder.certificateId, reminder.days);
+        return;
+    }
+
+    if (alarm.name === 'gmailScan') {
+        console.log('Periodic mail scan triggered');
+        const [settings, authState] = await Promise.all([
+            storage.getSettings(),
+            storage.getAuthState()
+        ]);
+
+        if (settings.autoScan && authState.isAuthenticated) {
+            await handleMailScan();
+        }
+    }
+});
+
+chrome.storage.onChanged.addListener((changes) => {
+    if (changes.certificates) {
+        rescheduleExpiryReminders();
+    }
+    if (changes.settings) {
+        scheduleMailScan();
+    }
+});
+
+/**
+ * Create or clear the periodic scan alarm to match the settings. An alarm
+ * with the right period is kept, so a browser restart doesn't delay the next scan.
+ */
+async function scheduleMailScan() {
+    try {
+        const settings = await storage.getSettings();
+        if (!settings.autoScan) {
+            await chrome.alarms.clear('gmailScan');
+            return;
+        }
+
+        const interval = settings.scanInterval || 60;
+        const alarm = await chrome.alarms.get('gmailScan');
+        if (alarm?.periodInMinutes !== interval) {
+            await chrome.alarms.create('gmailScan', { delayInMinutes: interval, periodInMinutes: interval });
+        }
+    } catch (error) {
+        console.error('Error scheduling mail scan:', error);
+    }
+}
+
+// Expiry reminders and renewal notifications
+
+async function rescheduleExpiryReminders() {
+    try {
+        const [certificates, sentReminders] = await Promise.all([
+            storage.getCertificates(),
+            storage.getSentReminders()
+        ]);
+        const count = await scheduleExpiryReminders(certificates, sentReminders);
+        console.log(`Scheduled ${count} expiry reminders`);
+    } catch (error) {
+        console.error('Error scheduling expiry reminders:', error);
+    }
+}
+
+async function notifyExpiry(certificateId: string, days: number) {
+    await storage.addSentReminder(getReminderAlarmName(certificateId, days));
+    const [certificate, settings] = await Promise.all([
+        storage.getCertificate(certificateId),
+        storage.getSettings()
+    ]);
+    if (!certificate || !settings.notifications) {
+        return;
+    }
+
+    // A missed threshold fires late, so count the days that are actually left
+    const daysLeft = daysUntilExpiry(certificate) ?? days;
+    chrome.notifications.create(getReminderAlarmName(certificate.id, days), {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('assets/icon128.png'),
+        title: `${certificate.title} expires in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`,
+        message: `Your ${certificate.issuer} certification expires on ${formatDisplayDate(certificate.expiresAt)}. Plan your renewal.`,
+        priority: daysLeft <= 7 ? 2 : 1,
+    });
+}
+
+function notifyRenewal(certificate: Certificate) {
+    chrome.notifications.create(`renewal:${certificate.id}`, {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('assets/icon128.png'),
+        title: 'Recertified!',
+        message: `${certificate.title} has been renewed. Want to draft a post about it?`,
+        buttons: [{ title: 'Draft post' }],
+    });
+}
+
+/**
+ * Map a notification id back to the certificate and view it should open
+ */
+function intentFromNotification(notificationId: string): PendingIntent | null {
+    const reminder = parseReminderAlarm(notificationId);
+    if (reminder) {
+        return { action: 'view', certificateId: reminder.certificateId, createdAt: new Date().toISOString() };
+    }
+
+    const renewal = notificationId.match(/^renewal:(.+)$/);
+    if (renewal) {
+        return { action: 'recertified', certificateId: renewal[1], createdAt: new Date().toISOString() };
+    }
+
+    return null;
+}
+
+async function openIntent(notificationId: string) {
+    const intent = intentFromNotification(notificationId);
+    if (!intent) {
+        return;
+    }
+
+    await storage.setPendingIntent(intent);
+    chrome.notifications.clear(notificationId);
+
+    // openPopup needs a focused browser window; fall back to a tab
+    try {
+        await chrome.action.openPopup();
+    } catch {
+        await chrome.tabs.create({ url: chrome.runtime.getURL('popup.html') });
+    }
+}
+
+chrome.notifications.onClicked.addListener(notificationId => {
+    openIntent(notificationId);
+});
+
+chrome.notifications.onButtonClicked.addListener(notificationId => {
+    openIntent(notificationId);
+});
@@ -0,0 +1,203 @@
+import { ArrowLeft, Save } from 'lucide-react';
+import React, { useState } from 'react';
+import type { Certificate, CertificateDraft } from '../types';
+import { toIsoDate } from '../utils/dates';
+import { parseRuleList } from '../utils/gmailQuery';
+
+interface CertificateFormProps {
+    certificate: Certificate | null; // null to create a new certificate
+    onSave: (draft: CertificateDraft) => Promise<void>;
+    onClose: () => void;
+}
+
+// Date inputs want YYYY-MM-DD; stored dates may be full timestamps
+function toInputDate(iso: string | undefined): string {
+    return iso ? toIsoDate(iso)?.slice(0, 10) || '' : '';
+}
+
+const CertificateForm: React.FC<CertificateFormProps> = ({ certificate, onSave, onClose }) => {
+    const [draft, setDraft] = useState({
+        title: certificate?.title || '',
+        issuer: certificate?.issuer || '',
+        issuedAt: toInputDate(certificate?.issuedAt) || toInputDate(new Date().toISOString()),
+        expiresAt: toInputDate(certificate?.expiresAt),
+        credentialId: certificate?.credentialId || '',
+        verificationUrl: certificate?.verificationUrl || '',
+        skills: certificate?.skills.join(', ') || '',
+        description: certificate?.description || '',
+    });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleChange = (key: keyof typeof draft, value: string) => {
+        setDraft(prev => ({ ...prev, [key]: value }));
+    };
+
+    const urlValid = !draft.verificationUrl.trim() || /^https?:\/\/\S+$/i.test(draft.verificationUrl.trim());
+    const datesValid = !draft.expiresAt || draft.expiresAt >= draft.issuedAt;
+    const isValid = draft.title.trim() && draft.issuer.trim() && draft.issuedAt && urlValid && datesValid;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) {
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            // Keep the stored timestamp when the user didn't change the day
+            const issuedAt = certificate && toInputDate(certificate.issuedAt) === draft.issuedAt
+                ? certificate.issuedAt
+                : draft.issuedAt;
+
+            await onSave({
+                title: draft.title,
+                issuer: draft.issuer,
+                issuedAt,
+                expiresAt: draft.expiresAt || undefined,
+                credentialId: draft.credentialId,
+                verificationUrl: draft.verificationUrl,
+                skills: parseRuleList(draft.skills),
+                description: draft.description,
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full">
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200 flex items-center space-x-2">
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-gray-100 rounded"
+                    title="Back to certificates"
+                >
+                    <ArrowLeft className="h-4 w-4 text-gray-600" />
+                </button>
+                <h2 className="text-lg font-semibold text-gray-900">
+                    {certificate ? 'Edit Certificate' : 'Add Certificate'}
+                </h2>
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-4 space-y-3">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                    <input
+                        type="text"
+                        value={draft.title}
+                        onChange={(e) => handleChange('title', e.target.value)}
+                        placeholder="Speaker at React Summit 2025"
+                        className="input-field text-sm"
+                        required
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Issuer</label>
+                    <input
+                        type="text"
+                        value={draft.issuer}
+                        onChange={(e) => handleChange('issuer', e.target.value)}
+                        placeholder="GitNation"
+                        className="input-field text-sm"
+                        required
+                    />
+                </div>
+
+                <div className="flex space-x-2">
+                    <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Issued</label>
+                        <input
+                            type="date"
+                            value={draft.issuedAt}
+                            onChange={(e) => handleChange('issuedAt', e.target.value)}
+                            className="input-field text-sm"
+                            required
+                        />
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+                        <input
+                            type="date"
+                            value={draft.expiresAt}
+                            onChange={(e) => handleChange('expiresAt', e.target.value)}
+                            className="input-field text-sm"
+                        />
+                    </div>
+                </div>
+                {!datesValid && (
+                    <p className="text-xs text-red-600">The expiry date is before the issue date.</p>
+                )}
+
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Credential ID</label>
+                    <input
+                        type="text"
+                        value={draft.credentialId}
+                        onChange={(e) => handleChange('credentialId', e.target.value)}
+                        className="input-field text-sm"
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Verification URL</label>
+                    <input
+                        type="url"
+                        value={draft.verificationUrl}
+                        onChange={(e) => handleChange('verificationUrl', e.target.value)}
+                        placeholder="https://"
+                        className="input-field text-sm"
+                    />
+                    {!urlValid && (
+                        <p className="text-xs text-red-600 mt-1">Enter a full http(s) URL.</p>
+                    )}
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Skills</label>
+                    <input
+                        type="text"
+                        value={draft.skills}
+                        onChange={(e) => handleChange('skills', e.target.value)}
+                        placeholder="React, Public Speaking"
+                        className="input-field text-sm"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Separate skills with commas.</p>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                    <textarea
+                        value={draft.description}
+                        onChange={(e) => handleChange('description', e.target.value)}
+                        rows={3}
+                        className="input-field text-sm"
+                    />
+                </div>
+
+                {certificate?.emailId && (
+                    <p className="text-xs text-gray-500">
+                        Fields you change here are kept when the email is scanned again.
+                    </p>
+                )}
+
+                <div className="flex justify-end space-x-2 pt-2">
+                    <button type="button" onClick={onClose} className="btn-secondary text-sm">
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!isValid || isSaving}
+                        className="btn-primary flex items-center space-x-1 text-sm"
+                    >
+                        <Save className="h-4 w-4" />
+                        <span>{isSaving ? 'Saving...' : 'Save'}</span>
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default CertificateForm;
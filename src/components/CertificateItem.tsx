@@ -1,20 +1,32 @@
-import { Building, Calendar, MoreVertical, Sparkles, Tag, Trash2 } from 'lucide-react';
-import React, { useState } from 'react';
+import { Building, Calendar, MoreVertical, Pencil, ShieldCheck, Sparkles, Tag, Trash2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { Certificate } from '../types';
+import { formatDisplayDate } from '../utils/dates';
 
 interface CertificateItemProps {
     certificate: Certificate;
     onGeneratePost: (certificate: Certificate) => void;
+    onEdit: (certificate: Certificate) => void;
     onDelete: (certificateId: string) => Promise<void>;
+    highlighted?: boolean;
 }
 
 const CertificateItem: React.FC<CertificateItemProps> = ({
     certificate,
     onGeneratePost,
-    onDelete
+    onEdit,
+    onDelete,
+    highlighted = false
 }) => {
     const [showMenu, setShowMenu] = useState(false);
     const [isDeleting, setIsDeleting] = useState(false);
+    const itemRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (highlighted) {
+            itemRef.current?.scrollIntoView({ block: 'center' });
+        }
+    }, [highlighted]);
 
     const handleDelete = async () => {
         if (window.confirm('Are you sure you want to delete this certificate?')) {
@@ -28,12 +40,19 @@ const CertificateItem: React.FC<CertificateItemProps> = ({
         setShowMenu(false);
     };
 
+    const aiFields = Object.entries(certificate.fieldSources || {})
+        .filter(([, source]) => source === 'ai')
+        .map(([field]) => field);
+
     const handleGeneratePost = () => {
         onGeneratePost(certificate);
     };
 
     return (
-        <div className="p-4 hover:bg-gray-50 transition-colors relative">
+        <div
+            ref={itemRef}
+            className={`p-4 hover:bg-gray-50 transition-colors relative ${highlighted ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''}`}
+        >
             <div className="flex items-start justify-between">
                 <div className="flex-1 min-w-0">
                     {/* Title and Issuer */}
@@ -50,7 +69,28 @@ const CertificateItem: React.FC<CertificateItemProps> = ({
                     {/* Date */}
                     <div className="flex items-center space-x-1 mb-2">
                         <Calendar className="h-3 w-3 text-gray-400" />
-                        <span className="text-xs text-gray-500">{certificate.date}</span>
+                        <span className="text-xs text-gray-500">{formatDisplayDate(certificate.issuedAt)}</span>
+                        {certificate.expiresAt && (
+                            <span className="text-xs text-gray-400">· expires {formatDisplayDate(certificate.expiresAt)}</span>
+                        )}
+                        {certificate.classification && (
+                            <span
+                                className="flex items-center space-x-1 pl-2 text-xs text-gray-500 cursor-help"
+                                title={certificate.classification.reasons.join('\n')}
+                            >
+                                <ShieldCheck className="h-3 w-3 text-gray-400" />
+                                <span>Score {certificate.classification.score}</span>
+                            </span>
+                        )}
+                        {aiFields.length > 0 && (
+                            <span
+                                className="flex items-center space-x-1 pl-2 text-xs text-purple-600 cursor-help"
+                                title={`Extracted by AI: ${aiFields.join(', ')}`}
+                            >
+                                <Sparkles className="h-3 w-3" />
+                                <span>AI</span>
+                            </span>
+                        )}
                     </div>
 
                     {/* Description */}
@@ -110,6 +150,16 @@ const CertificateItem: React.FC<CertificateItemProps> = ({
                                 onClick={() => setShowMenu(false)}
                             />
                             <div className="absolute right-0 top-6 z-20 w-32 bg-white rounded-md shadow-lg border border-gray-200 py-1">
+                                <button
+                                    onClick={() => {
+                                        setShowMenu(false);
+                                        onEdit(certificate);
+                                    }}
+                                    className="flex items-center space-x-2 w-full px-3 py-2 text-xs text-gray-700 hover:bg-gray-50 transition-colors"
+                                >
+                                    <Pencil className="h-3 w-3" />
+                                    <span>Edit</span>
+                                </button>
                                 <button
                                     onClick={handleDelete}
                                     disabled={isDeleting}
@@ -1,23 +1,63 @@
-import { Mail, Plus, RefreshCw, Search } from 'lucide-react';
-import React, { useState } from 'react';
-import type { Certificate } from '../types';
+import { AlertTriangle, Award, History, Layers, Mail, Plus, RefreshCw, Search, X } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import type { Certificate, ScanProgress } from '../types';
+import { isMailFile } from '../utils/emlParser';
 import CertificateItem from './CertificateItem';
 
 interface CertificateListProps {
     certificates: Certificate[];
     onScanGmail: () => Promise<void>;
+    onBackfill: () => Promise<void>;
+    onStopBackfill: () => void;
+    onImportBadges: (files: File[]) => Promise<void>;
+    onImportEmails: (files: File[]) => Promise<void>;
+    backfillProgress: ScanProgress | null;
+    hasPendingBackfill: boolean;
     onGeneratePost: (certificate: Certificate) => void;
+    onAddCertificate: () => void;
+    onEditCertificate: (certificate: Certificate) => void;
     onDeleteCertificate: (certificateId: string) => Promise<void>;
+    highlightedCertificateId?: string | null;
+    onReviewDuplicates: () => void;
+    failedCount: number;
+    onRetryFailed: () => Promise<void>;
+    onDismissFailed: () => Promise<void>;
 }
 
 const CertificateList: React.FC<CertificateListProps> = ({
     certificates,
     onScanGmail,
+    onBackfill,
+    onStopBackfill,
+    onImportBadges,
+    onImportEmails,
+    backfillProgress,
+    hasPendingBackfill,
     onGeneratePost,
-    onDeleteCertificate
+    onAddCertificate,
+    onEditCertificate,
+    onDeleteCertificate,
+    highlightedCertificateId,
+    onReviewDuplicates,
+    failedCount,
+    onRetryFailed,
+    onDismissFailed
 }) => {
     const [isScanning, setIsScanning] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
+    const [isDragging, setIsDragging] = useState(false);
+    const badgeInputRef = useRef<HTMLInputElement>(null);
+
+    const [isRetrying, setIsRetrying] = useState(false);
+
+    const handleRetryFailed = async () => {
+        setIsRetrying(true);
+        try {
+            await onRetryFailed();
+        } finally {
+            setIsRetrying(false);
+        }
+    };
 
     const handleScanGmail = async () => {
         setIsScanning(true);
@@ -28,15 +68,108 @@ const CertificateList: React.FC<CertificateListProps> = ({
         }
     };
 
+    // Raw emails and mbox exports go through the email pipeline, anything else is read as a badge
+    const handleFiles = async (fileList: FileList | null) => {
+        const files = Array.from(fileList || []);
+        const emailFiles = files.filter(isMailFile);
+        const badgeFiles = files.filter(file => !isMailFile(file));
+        if (emailFiles.length > 0) {
+            await onImportEmails(emailFiles);
+        }
+        if (badgeFiles.length > 0) {
+            await onImportBadges(badgeFiles);
+        }
+    };
+
+    const handleDrop = async (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        await handleFiles(e.dataTransfer.files);
+    };
+
+    const dropHandlers = {
+        onDragOver: (e: React.DragEvent) => {
+            e.preventDefault();
+            setIsDragging(true);
+        },
+        onDragLeave: () => setIsDragging(false),
+        onDrop: handleDrop,
+    };
+
+    const badgeInput = (
+        <input
+            ref={badgeInputRef}
+            type="file"
+            accept=".png,.svg,.json,.jsonld,.eml,.mbox,image/png,image/svg+xml,application/json,application/ld+json,message/rfc822"
+            multiple
+            className="hidden"
+            onChange={async (e) => {
+                await handleFiles(e.target.files);
+                e.target.value = '';
+            }}
+        />
+    );
+
+    const isBackfilling = backfillProgress !== null;
+    const pendingMerges = certificates.filter(cert => cert.mergeStatus === 'pending').length;
+    const backfillLabel = hasPendingBackfill ? 'Resume full scan' : 'Full mailbox scan';
+
+    const failedNotice = failedCount > 0 && (
+        <div className="my-3 px-3 py-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-800 flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span className="flex-1 text-left">
+                {failedCount} email{failedCount !== 1 ? 's' : ''} could not be loaded.
+            </span>
+            <button
+                onClick={handleRetryFailed}
+                disabled={isRetrying || isScanning || isBackfilling}
+                className="font-medium underline disabled:opacity-50"
+            >
+                {isRetrying ? 'Retrying...' : 'Retry'}
+            </button>
+            <button onClick={onDismissFailed} title="Dismiss">
+                <X className="h-3 w-3" />
+            </button>
+        </div>
+    );
+
+    const backfillStatus = backfillProgress && (
+        <div className="my-3">
+            <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span>
+                    Page {backfillProgress.page} · {backfillProgress.found} found
+                    {backfillProgress.failed > 0 && ` · ${backfillProgress.failed} failed`}
+                </span>
+                <span className="flex items-center space-x-2">
+                    <span>{backfillProgress.processed} / ~{backfillProgress.estimatedTotal} emails</span>
+                    <button onClick={onStopBackfill} className="font-medium text-red-600 hover:text-red-700">
+                        Stop
+                    </button>
+                </span>
+            </div>
+            <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{
+                        width: `${backfillProgress.estimatedTotal > 0
+                            ? Math.min(100, Math.round((backfillProgress.processed / backfillProgress.estimatedTotal) * 100))
+                            : 0}%`
+                    }}
+                />
+            </div>
+        </div>
+    );
+
     const filteredCertificates = certificates.filter(cert =>
         cert.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
         cert.issuer.toLowerCase().includes(searchTerm.toLowerCase()) ||
         cert.skills.some(skill => skill.toLowerCase().includes(searchTerm.toLowerCase()))
-    );
+    ).sort((a, b) => b.issuedAt.localeCompare(a.issuedAt)); // ISO dates sort as strings, newest first
 
     if (certificates.length === 0) {
         return (
-            <div className="p-6 text-center">
+            <div className={`p-6 text-center ${isDragging ? 'bg-blue-50' : ''}`} {...dropHandlers}>
+                {badgeInput}
                 <Mail className="h-16 w-16 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">
                     No certificates found
@@ -46,34 +179,103 @@ const CertificateList: React.FC<CertificateListProps> = ({
                 </p>
                 <button
                     onClick={handleScanGmail}
-                    disabled={isScanning}
+                    disabled={isScanning || isBackfilling}
                     className="btn-primary flex items-center space-x-2 mx-auto"
                 >
                     <RefreshCw className={`h-4 w-4 ${isScanning ? 'animate-spin' : ''}`} />
                     <span>{isScanning ? 'Scanning...' : 'Scan Gmail'}</span>
                 </button>
+                <button
+                    onClick={onBackfill}
+                    disabled={isScanning || isBackfilling}
+                    className="mt-3 text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1 mx-auto disabled:opacity-50"
+                >
+                    <History className="h-4 w-4" />
+                    <span>{isBackfilling ? 'Scanning mailbox...' : backfillLabel}</span>
+                </button>
+                {backfillStatus}
+                {failedNotice}
+                <button
+                    onClick={() => badgeInputRef.current?.click()}
+                    className="mt-3 text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1 mx-auto"
+                >
+                    <Award className="h-4 w-4" />
+                    <span>Import badge or email file</span>
+                </button>
+                <p className="mt-1 text-xs text-gray-500">
+                    or drop a badge (PNG, SVG, JSON-LD), .eml file or mbox export here
+                </p>
+                <button
+                    onClick={onAddCertificate}
+                    className="mt-3 text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1 mx-auto"
+                >
+                    <Plus className="h-4 w-4" />
+                    <span>Add a certificate by hand</span>
+                </button>
             </div>
         );
     }
 
     return (
-        <div className="flex flex-col h-full">
+        <div className={`flex flex-col h-full ${isDragging ? 'bg-blue-50' : ''}`} {...dropHandlers}>
+            {badgeInput}
+
             {/* Header */}
             <div className="p-4 border-b border-gray-200">
                 <div className="flex items-center justify-between mb-3">
                     <h2 className="text-lg font-semibold text-gray-900">
                         Your Certificates
                     </h2>
+                    <div className="flex items-center space-x-1">
+                        <button
+                            onClick={onAddCertificate}
+                            className="btn-secondary flex items-center text-sm"
+                            title="Add a certificate by hand"
+                        >
+                            <Plus className="h-4 w-4" />
+                        </button>
+                        <button
+                            onClick={() => badgeInputRef.current?.click()}
+                            className="btn-secondary flex items-center text-sm"
+                            title="Import an Open Badge, .eml file or mbox export"
+                        >
+                            <Award className="h-4 w-4" />
+                        </button>
+                        <button
+                            onClick={onBackfill}
+                            disabled={isScanning || isBackfilling}
+                            className="btn-secondary flex items-center space-x-1 text-sm"
+                            title={backfillLabel}
+                        >
+                            <History className={`h-4 w-4 ${isBackfilling ? 'animate-pulse' : ''}`} />
+                            <span>{hasPendingBackfill ? 'Resume' : 'All'}</span>
+                        </button>
+                        <button
+                            onClick={handleScanGmail}
+                            disabled={isScanning || isBackfilling}
+                            className="btn-secondary flex items-center space-x-1 text-sm"
+                            title="Scan Gmail for new certificates"
+                        >
+                            <RefreshCw className={`h-4 w-4 ${isScanning ? 'animate-spin' : ''}`} />
+                            <span>Scan</span>
+                        </button>
+                    </div>
+                </div>
+
+                {backfillStatus}
+                {failedNotice}
+
+                {pendingMerges > 0 && (
                     <button
-                        onClick={handleScanGmail}
-                        disabled={isScanning}
-                        className="btn-secondary flex items-center space-x-1 text-sm"
-                        title="Scan Gmail for new certificates"
+                        onClick={onReviewDuplicates}
+                        className="w-full mb-3 px-3 py-2 bg-amber-50 border border-amber-200 rounded-md text-xs text-amber-800 flex items-center space-x-2 hover:bg-amber-100"
                     >
-                        <RefreshCw className={`h-4 w-4 ${isScanning ? 'animate-spin' : ''}`} />
-                        <span>Scan</span>
+                        <Layers className="h-4 w-4" />
+                        <span>
+                            {pendingMerges} certificate{pendingMerges !== 1 ? 's were' : ' was'} merged from duplicate emails. Review
+                        </span>
                     </button>
-                </div>
+                )}
 
                 {/* Search */}
                 <div className="relative">
@@ -101,7 +303,9 @@ const CertificateList: React.FC<CertificateListProps> = ({
                                 key={certificate.id}
                                 certificate={certificate}
                                 onGeneratePost={onGeneratePost}
+                                onEdit={onEditCertificate}
                                 onDelete={onDeleteCertificate}
+                                highlighted={certificate.id === highlightedCertificateId}
                             />
                         ))}
                     </div>
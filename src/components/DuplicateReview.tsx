@@ -0,0 +1,87 @@
+import { ArrowLeft, Check, Mail, Split } from 'lucide-react';
+import React from 'react';
+import type { Certificate } from '../types';
+import { formatDisplayDate } from '../utils/dates';
+
+interface DuplicateReviewProps {
+    certificates: Certificate[];
+    onConfirm: (certificate: Certificate) => Promise<void>;
+    onSplit: (certificate: Certificate) => Promise<void>;
+    onClose: () => void;
+}
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({
+    certificates,
+    onConfirm,
+    onSplit,
+    onClose
+}) => {
+    const pending = certificates.filter(certificate => certificate.mergeStatus === 'pending');
+
+    return (
+        <div className="flex flex-col h-full">
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200 flex items-center space-x-2">
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-gray-100 rounded"
+                    title="Back to certificates"
+                >
+                    <ArrowLeft className="h-4 w-4 text-gray-600" />
+                </button>
+                <h2 className="text-lg font-semibold text-gray-900">Review Merges</h2>
+            </div>
+
+            {pending.length === 0 ? (
+                <div className="p-6 text-center text-gray-500">
+                    <p>No merged certificates waiting for review.</p>
+                </div>
+            ) : (
+                <div className="flex-1 overflow-y-auto divide-y divide-gray-200">
+                    {pending.map(certificate => (
+                        <div key={certificate.id} className="p-4">
+                            <h3 className="text-sm font-medium text-gray-900">{certificate.title}</h3>
+                            <p className="text-xs text-gray-600 mb-2">
+                                {certificate.issuer} · {formatDisplayDate(certificate.issuedAt)}
+                            </p>
+
+                            <p className="text-xs text-gray-500 mb-1">
+                                Merged from {certificate.mergedCertificates?.length || 0} emails:
+                            </p>
+                            <ul className="space-y-1 mb-3">
+                                {certificate.mergedCertificates?.map(source => (
+                                    <li key={source.id} className="flex items-start space-x-1 text-xs text-gray-600">
+                                        <Mail className="h-3 w-3 mt-0.5 text-gray-400 flex-shrink-0" />
+                                        <span>
+                                            {source.title}
+                                            <span className="text-gray-400"> · {formatDisplayDate(source.emailReceivedAt || source.issuedAt)}</span>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+
+                            <div className="flex space-x-2">
+                                <button
+                                    onClick={() => onConfirm(certificate)}
+                                    className="btn-primary flex items-center space-x-1 text-sm"
+                                >
+                                    <Check className="h-4 w-4" />
+                                    <span>Keep merged</span>
+                                </button>
+                                <button
+                                    onClick={() => onSplit(certificate)}
+                                    className="btn-secondary flex items-center space-x-1 text-sm"
+                                >
+                                    <Split className="h-4 w-4" />
+                                    <span>Split</span>
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DuplicateReview;
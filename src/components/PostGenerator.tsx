@@ -1,8 +1,11 @@
-import { ArrowLeft, Check, Copy, Linkedin, RefreshCw, Sparkles, Twitter } from 'lucide-react';
-import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Check, Copy, Linkedin, RefreshCw, Sparkles, Square, Twitter } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
 import toast from 'react-hot-toast';
-import type { AppSettings, Certificate, GeneratedPost, SocialPlatform } from '../types';
+import type { AppSettings, Certificate, CertificateLanguage, GeneratedPost, SocialPlatform } from '../types';
+import { formatDisplayDate } from '../utils/dates';
+import { getAIProvider, getProviderChain } from '../utils/aiProviders';
 import { generatePostWithAnyProvider } from '../utils/gptService';
+import { CERTIFICATE_LANGUAGES, LOCALE_PACKS } from '../utils/localePacks';
 import { storage } from '../utils/storage';
 
 interface PostGeneratorProps {
@@ -18,15 +21,22 @@ const PostGenerator: React.FC<PostGeneratorProps> = ({
 }) => {
     const [platform, setPlatform] = useState<SocialPlatform>('linkedin');
     const [tone, setTone] = useState<'professional' | 'casual' | 'excited'>('professional');
+    const [language, setLanguage] = useState<CertificateLanguage>(certificate.language || 'en');
     const [includeHashtags, setIncludeHashtags] = useState(true);
+    const [includeLink, setIncludeLink] = useState(false);
     const [customMessage, setCustomMessage] = useState('');
     const [generatedPost, setGeneratedPost] = useState<GeneratedPost | null>(null);
     const [isGenerating, setIsGenerating] = useState(false);
+    const [streamingText, setStreamingText] = useState('');
+    const [isDraft, setIsDraft] = useState(false);
     const [settings, setSettings] = useState<AppSettings | null>(null);
     const [copied, setCopied] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         loadSettings();
+        // Closing the generator stops a request still streaming
+        return () => abortControllerRef.current?.abort();
     }, []);
 
     const loadSettings = async () => {
@@ -35,42 +45,62 @@ const PostGenerator: React.FC<PostGeneratorProps> = ({
         if (appSettings.defaultTone) {
             setTone(appSettings.defaultTone);
         }
+        if (appSettings.postLanguage && appSettings.postLanguage !== 'certificate') {
+            setLanguage(appSettings.postLanguage);
+        }
         if (appSettings.defaultPlatforms.length > 0) {
             setPlatform(appSettings.defaultPlatforms[0]);
         }
     };
 
     const handleGenerate = async () => {
-        if (!settings?.openaiApiKey && !settings?.geminiApiKey && !settings?.grokApiKey) {
-            toast.error('Please configure at least one AI provider API key in settings');
+        if (!settings || providerChain.length === 0) {
+            toast.error('Please configure an AI provider API key in settings');
             return;
         }
 
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        let partialText = '';
+        setStreamingText('');
         setIsGenerating(true);
         try {
             const certificateContent = `
 Certificate: ${certificate.title}
 Issuer: ${certificate.issuer}
-Date: ${certificate.date}
+Date: ${formatDisplayDate(certificate.issuedAt)}
 Description: ${certificate.description}
 Skills: ${certificate.skills.join(', ')}
-      `.trim();
+${certificate.renewalOf ? 'Renewal: recertified, this renews an earlier certification\n' : ''}      `.trim();
 
             const result = await generatePostWithAnyProvider({
                 certificateContent,
                 platform,
                 tone,
                 includeHashtags,
-                customMessage: customMessage || undefined
-            }, {
-                openaiApiKey: settings.openaiApiKey,
-                geminiApiKey: settings.geminiApiKey,
-                grokApiKey: settings.grokApiKey
+                customMessage: customMessage || undefined,
+                language,
+                link: includeLink ? certificate.verificationUrl : undefined
+            }, settings, {
+                onText: text => {
+                    partialText = text;
+                    setStreamingText(text);
+                },
+                signal: abortController.signal
             });
 
             if (result.success && result.data) {
                 setGeneratedPost(result.data);
+                setIsDraft(false);
                 toast.success('Post generated successfully!');
+            } else if (abortController.signal.aborted) {
+                if (partialText) {
+                    setGeneratedPost({ content: partialText, hashtags: [], platform, characterCount: partialText.length });
+                    setIsDraft(true);
+                    toast('Stopped. The text so far is kept as a draft.');
+                } else {
+                    toast('Generation stopped');
+                }
             } else {
                 toast.error(result.error || 'Failed to generate post');
             }
@@ -78,10 +108,23 @@ Skills: ${certificate.skills.join(', ')}
             toast.error('Failed to generate post');
             console.error('Post generation error:', error);
         } finally {
+            abortControllerRef.current = null;
+            setStreamingText('');
             setIsGenerating(false);
         }
     };
 
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleDraftChange = (content: string) => {
+        if (!generatedPost) return;
+
+        const hashtagLength = generatedPost.hashtags.length > 0 ? generatedPost.hashtags.join(' ').length + 1 : 0;
+        setGeneratedPost({ ...generatedPost, content, characterCount: content.length + hashtagLength });
+    };
+
     const handleCopy = async () => {
         if (!generatedPost) return;
 
@@ -112,13 +155,8 @@ Skills: ${certificate.skills.join(', ')}
 
     const PlatformIcon = platformIcons[platform];
 
-    const hasAnyAIKey = (settings: AppSettings | null) => {
-        return !!(
-            settings?.openaiApiKey ||
-            (settings?.geminiApiKey && settings.geminiApiKey.length > 10) ||
-            (settings?.grokApiKey && settings.grokApiKey.length > 10)
-        );
-    };
+    const providerChain = settings ? getProviderChain(settings) : [];
+    const selectedProvider = settings?.aiProvider ? getAIProvider(settings.aiProvider) : null;
 
     return (
         <div className="flex flex-col h-full">
@@ -185,6 +223,24 @@ Skills: ${certificate.skills.join(', ')}
                     </select>
                 </div>
 
+                {/* Language Selection */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Language
+                    </label>
+                    <select
+                        value={language}
+                        onChange={(e) => setLanguage(e.target.value as CertificateLanguage)}
+                        className="input-field text-sm"
+                    >
+                        {CERTIFICATE_LANGUAGES.map(code => (
+                            <option key={code} value={code}>
+                                {LOCALE_PACKS[code].name}{code === certificate.language ? ' (certificate)' : ''}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
                 {/* Options */}
                 <div>
                     <label className="flex items-center space-x-2">
@@ -196,6 +252,17 @@ Skills: ${certificate.skills.join(', ')}
                         />
                         <span className="text-sm text-gray-700">Include hashtags</span>
                     </label>
+                    {certificate.verificationUrl && (
+                        <label className="flex items-center space-x-2 mt-2">
+                            <input
+                                type="checkbox"
+                                checked={includeLink}
+                                onChange={(e) => setIncludeLink(e.target.checked)}
+                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span className="text-sm text-gray-700">Include verification link</span>
+                        </label>
+                    )}
                 </div>
 
                 {/* Custom Message */}
@@ -213,34 +280,55 @@ Skills: ${certificate.skills.join(', ')}
                 </div>
 
                 {/* Generate Button */}
-                <button
-                    onClick={handleGenerate}
-                    disabled={isGenerating || !settings?.openaiApiKey}
-                    className="btn-primary w-full flex items-center justify-center space-x-2"
-                >
-                    {isGenerating ? (
-                        <RefreshCw className="h-4 w-4 animate-spin" />
-                    ) : (
+                {isGenerating ? (
+                    <button
+                        onClick={handleStop}
+                        className="btn-secondary w-full flex items-center justify-center space-x-2"
+                    >
+                        <Square className="h-4 w-4" />
+                        <span>Stop</span>
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleGenerate}
+                        disabled={providerChain.length === 0}
+                        className="btn-primary w-full flex items-center justify-center space-x-2"
+                    >
                         <Sparkles className="h-4 w-4" />
-                    )}
-                    <span>{isGenerating ? 'Generating...' : 'Generate Post'}</span>
-                </button>
+                        <span>Generate Post</span>
+                    </button>
+                )}
 
                 {/* Error message for missing AI key */}
-                {!hasAnyAIKey(settings) && (
+                {settings && providerChain.length === 0 && (
                     <p className="text-xs text-red-600 text-center mt-2">
-                        Please configure at least one AI provider API key (OpenAI, Gemini, or Grok) in settings to generate posts.
+                        {selectedProvider
+                            ? `Add your ${selectedProvider.name} API key in settings to generate posts.`
+                            : 'Please configure at least one AI provider API key (OpenAI, Gemini, or Grok) in settings to generate posts.'}
                     </p>
                 )}
 
+                {/* Streaming Post */}
+                {isGenerating && (
+                    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+                        <div className="flex items-center space-x-2 mb-3">
+                            <RefreshCw className="h-4 w-4 text-gray-600 animate-spin" />
+                            <span className="text-sm font-medium text-gray-900">Writing...</span>
+                        </div>
+                        <p className="text-sm text-gray-900 whitespace-pre-wrap">
+                            {streamingText}
+                        </p>
+                    </div>
+                )}
+
                 {/* Generated Post */}
-                {generatedPost && (
+                {generatedPost && !isGenerating && (
                     <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
                         <div className="flex items-center justify-between mb-3">
                             <div className="flex items-center space-x-2">
                                 <PlatformIcon className="h-4 w-4 text-gray-600" />
                                 <span className="text-sm font-medium text-gray-900">
-                                    Generated Post
+                                    {isDraft ? 'Draft' : 'Generated Post'}
                                 </span>
                             </div>
                             <div className="flex items-center space-x-2">
@@ -262,9 +350,18 @@ Skills: ${certificate.skills.join(', ')}
                         </div>
 
                         <div className="space-y-3">
-                            <p className="text-sm text-gray-900 whitespace-pre-wrap">
-                                {generatedPost.content}
-                            </p>
+                            {isDraft ? (
+                                <textarea
+                                    value={generatedPost.content}
+                                    onChange={(e) => handleDraftChange(e.target.value)}
+                                    className="input-field text-sm"
+                                    rows={8}
+                                />
+                            ) : (
+                                <p className="text-sm text-gray-900 whitespace-pre-wrap">
+                                    {generatedPost.content}
+                                </p>
+                            )}
 
                             {generatedPost.hashtags.length > 0 && (
                                 <div className="flex flex-wrap gap-1">
@@ -278,6 +375,19 @@ Skills: ${certificate.skills.join(', ')}
                                     ))}
                                 </div>
                             )}
+
+                            {generatedPost.mentions && generatedPost.mentions.length > 0 && (
+                                <p className="text-xs text-gray-600">
+                                    Consider tagging: {generatedPost.mentions.join(', ')}
+                                </p>
+                            )}
+
+                            {generatedPost.provider && (
+                                <p className="text-xs text-gray-500">
+                                    Generated by {getAIProvider(generatedPost.provider)?.name || generatedPost.provider}
+                                    {generatedPost.model && ` · ${generatedPost.model}`}
+                                </p>
+                            )}
                         </div>
 
                         <div className="mt-4 flex space-x-2">
@@ -1,11 +1,35 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import { CheckCircle, Eye, EyeOff, Save, X } from 'lucide-react';
+import { ArrowUp, CheckCircle, Eye, EyeOff, Plus, RefreshCw, Save, Search, X } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import toast from 'react-hot-toast';
-import type { AppSettings } from '../types';
+import type { AIProviderId, AppSettings, CertificateLanguage, GmailSearchRules, SkillCategory } from '../types';
+import { getAIProvider, listAIProviders } from '../utils/aiProviders';
+import { MIN_CLASSIFIER_THRESHOLD } from '../utils/certificateClassifier';
+import { createGmailService } from '../utils/gmailService';
+import { getScanRules, parseRuleList } from '../utils/gmailQuery';
+import {
+    DEFAULT_LOCAL_BASE_URL,
+    DEFAULT_LOCAL_TIMEOUT_SECONDS,
+    isLoopbackUrl,
+    listLocalModels,
+    LOOPBACK_ONLY_MESSAGE,
+    requestHostPermission
+} from '../utils/localAi';
+import { CERTIFICATE_LANGUAGES, LOCALE_PACKS } from '../utils/localePacks';
+import { SKILL_CATEGORIES } from '../utils/skillTaxonomy';
 import { SocialMediaService } from '../utils/socialService';
 import { storage } from '../utils/storage';
 
+type RuleListKey = 'trustedSenders' | 'blockedSenders' | 'includeLabels' | 'excludeLabels' | 'keywords';
+
+const RULE_LIST_FIELDS: Array<{ key: RuleListKey; label: string; placeholder: string }> = [
+    { key: 'trustedSenders', label: 'Trusted Senders', placeholder: 'coursera.org, no-reply@udemy.com' },
+    { key: 'blockedSenders', label: 'Blocked Senders', placeholder: 'newsletter@example.com' },
+    { key: 'includeLabels', label: 'Only These Labels', placeholder: 'Learning, Certificates' },
+    { key: 'excludeLabels', label: 'Exclude Labels', placeholder: 'Promotions' },
+    { key: 'keywords', label: 'Extra Keywords', placeholder: 'badge, credential' },
+];
+
 interface SettingsProps {
     settings: AppSettings;
     onClose: () => void;
@@ -21,6 +45,24 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
     const [twitterConnected, setTwitterConnected] = useState(false);
     const [twitterUsername, setTwitterUsername] = useState<string | null>(null);
     const [linkedinConnected, setLinkedinConnected] = useState(false);
+    const [outlookConnected, setOutlookConnected] = useState(false);
+    const [isConnectingOutlook, setIsConnectingOutlook] = useState(false);
+    const [localModels, setLocalModels] = useState<string[]>([]);
+    const [isLoadingModels, setIsLoadingModels] = useState(false);
+    const [ruleInputs, setRuleInputs] = useState<Record<RuleListKey, string>>(() => ({
+        trustedSenders: settings.searchRules.trustedSenders.join(', '),
+        blockedSenders: settings.searchRules.blockedSenders.join(', '),
+        includeLabels: settings.searchRules.includeLabels.join(', '),
+        excludeLabels: settings.searchRules.excludeLabels.join(', '),
+        keywords: settings.searchRules.keywords.join(', '),
+    }));
+    const [queryPreview, setQueryPreview] = useState<{ query: string; count: number; capped: boolean } | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [newSkill, setNewSkill] = useState<{ name: string; aliases: string; category: SkillCategory }>({
+        name: '',
+        aliases: '',
+        category: 'other',
+    });
 
     useEffect(() => {
         // On mount, check connection status and username from storage
@@ -28,6 +70,7 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
             const authState = await storage.getAuthState();
             setTwitterConnected(!!authState.twitterToken);
             setLinkedinConnected(!!authState.linkedinToken);
+            setOutlookConnected(!!authState.outlookToken);
             if (authState.twitterUser && authState.twitterUser.username) {
                 setTwitterUsername(authState.twitterUser.username);
             }
@@ -39,11 +82,177 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
         setFormData(prev => ({ ...prev, [key]: value }));
     };
 
+    const buildSearchRules = (): GmailSearchRules => ({
+        ...formData.searchRules,
+        trustedSenders: parseRuleList(ruleInputs.trustedSenders),
+        blockedSenders: parseRuleList(ruleInputs.blockedSenders),
+        includeLabels: parseRuleList(ruleInputs.includeLabels),
+        excludeLabels: parseRuleList(ruleInputs.excludeLabels),
+        keywords: parseRuleList(ruleInputs.keywords),
+    });
+
+    const handleLanguageToggle = (language: CertificateLanguage, enabled: boolean) => {
+        setFormData(prev => ({
+            ...prev,
+            searchRules: {
+                ...prev.searchRules,
+                languages: enabled
+                    ? [...prev.searchRules.languages, language]
+                    : prev.searchRules.languages.filter(code => code !== language),
+            },
+        }));
+        setQueryPreview(null);
+    };
+
+    const handleRuleDateChange = (key: 'after' | 'before', value: string) => {
+        setFormData(prev => ({ ...prev, searchRules: { ...prev.searchRules, [key]: value } }));
+        setQueryPreview(null);
+    };
+
+    const handlePreviewQuery = async () => {
+        setIsPreviewing(true);
+        try {
+            const authState = await storage.getAuthState();
+            if (!authState.googleToken) {
+                toast.error('Sign in with Google to preview the search');
+                return;
+            }
+            const result = await createGmailService(
+                authState.googleToken,
+                getScanRules({ searchRules: buildSearchRules(), gmailLabels: formData.gmailLabels })
+            ).previewQuery();
+            if (result.success && result.data) {
+                setQueryPreview(result.data);
+            } else {
+                toast.error(result.error || 'Failed to preview search');
+            }
+        } catch (error) {
+            toast.error('Failed to preview search');
+            console.error('Preview query error:', error);
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const handleGmailLabelsChange = async (enabled: boolean) => {
+        if (!enabled) {
+            handleInputChange('gmailLabels', false);
+            return;
+        }
+
+        // Labelling needs an extra Gmail permission, so ask before turning it on
+        const response = await chrome.runtime.sendMessage({ action: 'enableGmailLabels' });
+        if (response?.success) {
+            handleInputChange('gmailLabels', true);
+            setQueryPreview(null);
+        } else {
+            toast.error(response?.error || 'Gmail permission was not granted');
+        }
+    };
+
+    const handleConnectOutlook = async () => {
+        setIsConnectingOutlook(true);
+        try {
+            // The background reads the client id from storage
+            await storage.setSettings({ outlookClientId: formData.outlookClientId?.trim() });
+            const response = await chrome.runtime.sendMessage({ action: 'connectOutlook' });
+            if (response?.success) {
+                setOutlookConnected(true);
+                toast.success('Outlook connected. The next scan includes your Outlook mail.');
+            } else {
+                toast.error(response?.error || 'Failed to connect Outlook');
+            }
+        } finally {
+            setIsConnectingOutlook(false);
+        }
+    };
+
+    const handleDisconnectOutlook = async () => {
+        await chrome.runtime.sendMessage({ action: 'disconnectOutlook' });
+        setOutlookConnected(false);
+        toast.success('Outlook disconnected');
+    };
+
+    const handleAddSkill = () => {
+        const name = newSkill.name.trim();
+        if (!name) {
+            return;
+        }
+        if (formData.customSkills.some(skill => skill.name.toLowerCase() === name.toLowerCase())) {
+            toast.error(`${name} is already in your skills`);
+            return;
+        }
+        handleInputChange('customSkills', [
+            ...formData.customSkills,
+            { name, category: newSkill.category, aliases: parseRuleList(newSkill.aliases.toLowerCase()) },
+        ]);
+        setNewSkill({ name: '', aliases: '', category: 'other' });
+    };
+
+    const handleRemoveSkill = (name: string) => {
+        handleInputChange('customSkills', formData.customSkills.filter(skill => skill.name !== name));
+    };
+
+    const handleAddFallback = (id: AIProviderId) => {
+        handleInputChange('aiFallbacks', [...(formData.aiFallbacks || []), id]);
+    };
+
+    const handleMoveFallback = (index: number) => {
+        const fallbacks = (formData.aiFallbacks || []).filter(id => id !== formData.aiProvider);
+        [fallbacks[index - 1], fallbacks[index]] = [fallbacks[index], fallbacks[index - 1]];
+        handleInputChange('aiFallbacks', fallbacks);
+    };
+
+    const handleRemoveFallback = (id: AIProviderId) => {
+        handleInputChange('aiFallbacks', (formData.aiFallbacks || []).filter(fallback => fallback !== id));
+    };
+
+    const handleLoadLocalModels = async () => {
+        const baseUrl = formData.localAiBaseUrl || DEFAULT_LOCAL_BASE_URL;
+        if (!isLoopbackUrl(baseUrl)) {
+            toast.error(LOOPBACK_ONLY_MESSAGE);
+            return;
+        }
+        setIsLoadingModels(true);
+        try {
+            if (!await requestHostPermission(baseUrl)) {
+                toast.error('Allow access to the server to use a local model');
+                return;
+            }
+            const result = await listLocalModels(baseUrl, formData.localAiApiKey);
+            if (!result.success || !result.data) {
+                toast.error(result.error || 'Failed to list models');
+                return;
+            }
+            setLocalModels(result.data);
+            handleInputChange('localAiBaseUrl', baseUrl);
+            if (result.data.length === 0) {
+                toast.error('The server has no models yet');
+            } else if (!formData.localAiModel) {
+                handleInputChange('localAiModel', result.data[0]);
+            }
+        } finally {
+            setIsLoadingModels(false);
+        }
+    };
+
     const handleSave = async () => {
+        if (formData.localAiBaseUrl && !isLoopbackUrl(formData.localAiBaseUrl)) {
+            toast.error(LOOPBACK_ONLY_MESSAGE);
+            return;
+        }
         setIsSaving(true);
         try {
-            await storage.setSettings(formData);
-            onSettingsUpdate(formData);
+            // Saving is a click, so Chrome can still show the permission prompt here
+            if (formData.aiProvider === 'local' && formData.localAiBaseUrl && !await requestHostPermission(formData.localAiBaseUrl)) {
+                toast.error('Allow access to the server to use a local model');
+                return;
+            }
+            const updatedSettings = { ...formData, searchRules: buildSearchRules() };
+            if (!await storage.setSettings(updatedSettings)) {
+                throw new Error('Settings could not be written to storage');
+            }
+            onSettingsUpdate(updatedSettings);
             toast.success('Settings saved successfully!');
             onClose();
         } catch (error) {
@@ -70,7 +279,8 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
         return (
             (formData.openaiApiKey && validateOpenAIKey(formData.openaiApiKey)) ||
             (formData.geminiApiKey && formData.geminiApiKey.trim().length > 5) ||
-            (formData.grokApiKey && formData.grokApiKey.trim().length > 5)
+            (formData.grokApiKey && formData.grokApiKey.trim().length > 5) ||
+            (formData.localAiBaseUrl && formData.localAiModel)
         );
     };
 
@@ -186,6 +396,13 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
         toast('Disconnected from LinkedIn');
     };
 
+    const selectedProvider = formData.aiProvider ? getAIProvider(formData.aiProvider) : null;
+    const selectedConfig = selectedProvider?.getConfig(formData);
+    const fallbacks = (formData.aiFallbacks || []).filter(id => id !== formData.aiProvider);
+    const fallbackOptions = listAIProviders().filter(provider =>
+        provider.id !== formData.aiProvider && !fallbacks.includes(provider.id)
+    );
+
     return (
         <div className="p-6 bg-white">
             <div className="flex items-center justify-between mb-6">
@@ -199,6 +416,94 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
             </div>
 
             <div className="space-y-6">
+                {/* AI Provider */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        AI Provider
+                    </label>
+                    <select
+                        value={formData.aiProvider || ''}
+                        onChange={(e) => handleInputChange('aiProvider', e.target.value || undefined)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                        <option value="">First provider with a key</option>
+                        {listAIProviders().map(provider => (
+                            <option key={provider.id} value={provider.id}>{provider.name}</option>
+                        ))}
+                    </select>
+                    {selectedProvider && !selectedConfig && (
+                        <p className="text-xs text-red-600 mt-1">Add a {selectedProvider.name} API key below.</p>
+                    )}
+                    {selectedProvider && selectedConfig && !selectedProvider.validateKey(selectedConfig.apiKey) && (
+                        <p className="text-xs text-yellow-700 mt-1">
+                            This doesn't look like a {selectedProvider.name} API key.
+                        </p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                        Used to generate posts and, when enabled, to extract certificate details.
+                    </p>
+                </div>
+
+                {/* Fallback Providers */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Fallback Providers
+                    </label>
+                    {fallbacks.length > 0 && (
+                        <ol className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-2">
+                            {fallbacks.map((id, index) => {
+                                const provider = getAIProvider(id);
+                                return (
+                                    <li key={id} className="flex items-center justify-between px-3 py-2">
+                                        <p className="text-sm text-gray-900">
+                                            {index + 1}. {provider?.name || id}
+                                            {provider && !provider.getConfig(formData) && (
+                                                <span className="text-xs text-red-600"> · no API key</span>
+                                            )}
+                                        </p>
+                                        <div className="flex items-center space-x-2">
+                                            {index > 0 && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleMoveFallback(index)}
+                                                    className="text-gray-400 hover:text-gray-700"
+                                                    title="Try earlier"
+                                                >
+                                                    <ArrowUp className="h-4 w-4" />
+                                                </button>
+                                            )}
+                                            <button
+                                                type="button"
+                                                onClick={() => handleRemoveFallback(id)}
+                                                className="text-gray-400 hover:text-red-600"
+                                                title={`Remove ${provider?.name || id}`}
+                                            >
+                                                <X className="h-4 w-4" />
+                                            </button>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
+                    {fallbackOptions.length > 0 && (
+                        <select
+                            value=""
+                            onChange={(e) => e.target.value && handleAddFallback(e.target.value as AIProviderId)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                            <option value="">Add a fallback...</option>
+                            {fallbackOptions.map(provider => (
+                                <option key={provider.id} value={provider.id}>{provider.name}</option>
+                            ))}
+                        </select>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                        Tried in order when the provider above fails. A provider that keeps failing is skipped for a few minutes.
+                        With a local model, emails are only read locally; fallbacks are used for posts.
+                    </p>
+                </div>
+
                 {/* OpenAI API Key */}
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -283,6 +588,63 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
                     </p>
                 </div>
 
+                {/* Local Model */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Local Model Server
+                    </label>
+                    <input
+                        type="url"
+                        value={formData.localAiBaseUrl || ''}
+                        onChange={(e) => handleInputChange('localAiBaseUrl', e.target.value)}
+                        placeholder={DEFAULT_LOCAL_BASE_URL}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <div className="flex space-x-2 mt-2">
+                        <select
+                            value={formData.localAiModel || ''}
+                            onChange={(e) => handleInputChange('localAiModel', e.target.value || undefined)}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                            <option value="">Select a model</option>
+                            {[...new Set([formData.localAiModel, ...localModels])].filter(Boolean).map(model => (
+                                <option key={model} value={model}>{model}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            onClick={handleLoadLocalModels}
+                            disabled={isLoadingModels}
+                            className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-50 flex items-center space-x-1"
+                        >
+                            <RefreshCw className={`h-4 w-4 ${isLoadingModels ? 'animate-spin' : ''}`} />
+                            <span>Load models</span>
+                        </button>
+                    </div>
+                    <div className="flex space-x-2 mt-2">
+                        <input
+                            type="password"
+                            value={formData.localAiApiKey || ''}
+                            onChange={(e) => handleInputChange('localAiApiKey', e.target.value)}
+                            placeholder="API key (if the server needs one)"
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <input
+                            type="number"
+                            min="10"
+                            max="600"
+                            value={formData.localAiTimeout || DEFAULT_LOCAL_TIMEOUT_SECONDS}
+                            onChange={(e) => handleInputChange('localAiTimeout', parseInt(e.target.value) || DEFAULT_LOCAL_TIMEOUT_SECONDS)}
+                            title="Timeout in seconds"
+                            className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Any server with an OpenAI-compatible API, such as Ollama, LM Studio or llama.cpp, running on this computer so emails never leave it.
+                        The timeout is in seconds. Ollama must allow the extension's origin, e.g. OLLAMA_ORIGINS=chrome-extension://*.
+                    </p>
+                </div>
+
                 {/* Google Configuration */}
                 <div className="border-t pt-6">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">Google Configuration</h3>
@@ -313,6 +675,64 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
                     </div>
                 </div>
 
+                {/* Outlook Configuration */}
+                <div className="border-t pt-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center justify-between">
+                        Outlook / Microsoft 365
+                        {outlookConnected && (
+                            <span className="text-xs text-green-600 flex items-center space-x-1">
+                                <CheckCircle className="h-3 w-3" />
+                                <span>Connected</span>
+                            </span>
+                        )}
+                    </h3>
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Microsoft Application (client) ID
+                            </label>
+                            <input
+                                type="text"
+                                value={formData.outlookClientId || ''}
+                                onChange={(e) => handleInputChange('outlookClientId', e.target.value)}
+                                placeholder="Enter your Azure app registration ID"
+                                disabled={outlookConnected}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">
+                                Optional. Register a single-page app in the{' '}
+                                <a
+                                    href="https://portal.azure.com/#view/Microsoft_AAD_RegisteredApps"
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-600 hover:underline"
+                                >
+                                    Azure portal
+                                </a>
+                                {' '}with the Mail.Read permission and {chrome.identity.getRedirectURL('outlook')} as a redirect URI.
+                            </p>
+                        </div>
+                        {outlookConnected ? (
+                            <button
+                                type="button"
+                                onClick={handleDisconnectOutlook}
+                                className="px-3 py-1 bg-gray-200 text-gray-800 rounded"
+                            >
+                                Disconnect Outlook
+                            </button>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={handleConnectOutlook}
+                                disabled={!formData.outlookClientId?.trim() || isConnectingOutlook}
+                                className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-50"
+                            >
+                                {isConnectingOutlook ? 'Connecting...' : 'Connect Outlook'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+
                 {/* Twitter Configuration */}
                 <div className="border-t pt-6">
                     <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center justify-between">
@@ -459,6 +879,169 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
                     </div>
                 </div>
 
+                {/* Gmail Search Rules */}
+                <div className="border-t pt-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Gmail Search Rules</h3>
+                    <div className="space-y-4">
+                        {RULE_LIST_FIELDS.map(({ key, label, placeholder }) => (
+                            <div key={key}>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    {label}
+                                </label>
+                                <input
+                                    type="text"
+                                    value={ruleInputs[key]}
+                                    onChange={(e) => {
+                                        setRuleInputs(prev => ({ ...prev, [key]: e.target.value }));
+                                        setQueryPreview(null);
+                                    }}
+                                    placeholder={placeholder}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                            </div>
+                        ))}
+                        <p className="text-xs text-gray-500">
+                            Separate entries with commas. Trusted senders are scanned even without certificate keywords.
+                        </p>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Email Languages
+                            </label>
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {CERTIFICATE_LANGUAGES.filter(code => code !== 'en').map(code => (
+                                    <label key={code} className="flex items-center space-x-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={formData.searchRules.languages.includes(code)}
+                                            onChange={(e) => handleLanguageToggle(code, e.target.checked)}
+                                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                        />
+                                        <span className="text-sm text-gray-900">{LOCALE_PACKS[code].name}</span>
+                                    </label>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                                English is always searched. Each language adds its certificate keywords to the search.
+                            </p>
+                        </div>
+
+                        <div className="flex space-x-2">
+                            <div className="flex-1">
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    After
+                                </label>
+                                <input
+                                    type="date"
+                                    value={formData.searchRules.after}
+                                    onChange={(e) => handleRuleDateChange('after', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                            </div>
+                            <div className="flex-1">
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    Before
+                                </label>
+                                <input
+                                    type="date"
+                                    value={formData.searchRules.before}
+                                    onChange={(e) => handleRuleDateChange('before', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                            </div>
+                        </div>
+
+                        <button
+                            type="button"
+                            onClick={handlePreviewQuery}
+                            disabled={isPreviewing}
+                            className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-50 flex items-center space-x-1"
+                        >
+                            <Search className="h-4 w-4" />
+                            <span>{isPreviewing ? 'Checking...' : 'Preview query'}</span>
+                        </button>
+
+                        {queryPreview && (
+                            <div className="p-3 bg-gray-50 border border-gray-200 rounded-md">
+                                <p className="text-sm text-gray-900">
+                                    {queryPreview.count}{queryPreview.capped ? '+' : ''} matching message{queryPreview.count !== 1 ? 's' : ''}
+                                </p>
+                                <code className="block mt-1 text-xs text-gray-600 break-all">{queryPreview.query}</code>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Custom Skills */}
+                <div className="border-t pt-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Custom Skills</h3>
+                    <div className="space-y-4">
+                        {formData.customSkills.length > 0 && (
+                            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                                {formData.customSkills.map(skill => (
+                                    <li key={skill.name} className="flex items-center justify-between px-3 py-2">
+                                        <div className="min-w-0">
+                                            <p className="text-sm text-gray-900">{skill.name}</p>
+                                            <p className="text-xs text-gray-500 truncate">
+                                                {SKILL_CATEGORIES.find(c => c.value === skill.category)?.label}
+                                                {skill.aliases.length > 0 && ` · ${skill.aliases.join(', ')}`}
+                                            </p>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemoveSkill(skill.name)}
+                                            className="text-gray-400 hover:text-red-600"
+                                            title={`Remove ${skill.name}`}
+                                        >
+                                            <X className="h-4 w-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <div className="flex space-x-2">
+                            <input
+                                type="text"
+                                value={newSkill.name}
+                                onChange={(e) => setNewSkill(prev => ({ ...prev, name: e.target.value }))}
+                                placeholder="Skill name, e.g. Snowflake"
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <select
+                                value={newSkill.category}
+                                onChange={(e) => setNewSkill(prev => ({ ...prev, category: e.target.value as SkillCategory }))}
+                                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                {SKILL_CATEGORIES.map(({ value, label }) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex space-x-2">
+                            <input
+                                type="text"
+                                value={newSkill.aliases}
+                                onChange={(e) => setNewSkill(prev => ({ ...prev, aliases: e.target.value }))}
+                                placeholder="Aliases, e.g. snowpro, snowflake data cloud"
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <button
+                                type="button"
+                                onClick={handleAddSkill}
+                                disabled={!newSkill.name.trim()}
+                                className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-50 flex items-center space-x-1"
+                            >
+                                <Plus className="h-4 w-4" />
+                                <span>Add</span>
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                            Custom skills are matched as whole words. Adding a built-in skill name, like Kubernetes, adds your aliases to it.
+                        </p>
+                    </div>
+                </div>
+
                 {/* General Settings */}
                 <div className="border-t pt-6">
                     <h3 className="text-lg font-medium text-gray-900 mb-4">General Settings</h3>
@@ -478,6 +1061,22 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
                             </select>
                         </div>
 
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Post Language
+                            </label>
+                            <select
+                                value={formData.postLanguage}
+                                onChange={(e) => handleInputChange('postLanguage', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                <option value="certificate">Same as the certificate</option>
+                                {CERTIFICATE_LANGUAGES.map(code => (
+                                    <option key={code} value={code}>{LOCALE_PACKS[code].name}</option>
+                                ))}
+                            </select>
+                        </div>
+
                         <div className="flex items-center">
                             <input
                                 type="checkbox"
@@ -507,6 +1106,61 @@ const Settings: React.FC<SettingsProps> = ({ settings, onClose, onSettingsUpdate
                             </div>
                         )}
 
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Certificate Detection Threshold
+                            </label>
+                            <input
+                                type="number"
+                                min={MIN_CLASSIFIER_THRESHOLD}
+                                max="10"
+                                step="0.5"
+                                value={formData.classifierThreshold}
+                                onChange={(e) => handleInputChange('classifierThreshold', parseFloat(e.target.value))}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">
+                                Emails scoring below this are treated as marketing and skipped. Raise it if promotions still get through.
+                            </p>
+                        </div>
+
+                        <div>
+                            <div className="flex items-center">
+                                <input
+                                    type="checkbox"
+                                    id="aiExtraction"
+                                    checked={formData.aiExtraction}
+                                    onChange={(e) => handleInputChange('aiExtraction', e.target.checked)}
+                                    disabled={!isAnyAIKeyValid()}
+                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                />
+                                <label htmlFor="aiExtraction" className="ml-2 block text-sm text-gray-900">
+                                    Use AI to extract certificate details
+                                </label>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                                Sends each certificate email to your AI provider during scans. Falls back to the built-in parsers when no key is set or the reply is invalid.
+                            </p>
+                        </div>
+
+                        <div>
+                            <div className="flex items-center">
+                                <input
+                                    type="checkbox"
+                                    id="gmailLabels"
+                                    checked={formData.gmailLabels}
+                                    onChange={(e) => handleGmailLabelsChange(e.target.checked)}
+                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                />
+                                <label htmlFor="gmailLabels" className="ml-2 block text-sm text-gray-900">
+                                    Label processed emails in Gmail
+                                </label>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                                Adds Postify/Processed to certificate emails and Postify/Posted once you share them, and skips processed emails in later scans. Asks for permission to modify Gmail labels.
+                            </p>
+                        </div>
+
                         <div className="flex items-center">
                             <input
                                 type="checkbox"
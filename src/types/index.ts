@@ -10,6 +10,7 @@ export interface AuthState {
     isAuthenticated: boolean;
     user: User | null;
     googleToken: string | null;
+    outlookToken?: string | null; // Microsoft Graph token, set once Outlook is connected
     linkedinToken: string | null;
     twitterToken: string | null;
     twitterUser?: {
@@ -24,21 +25,111 @@ export interface AuthState {
 // Gmail and Email Types
 export interface EmailMessage {
     id: string;
+    threadId?: string;
     subject: string;
     body: string;
     date: string;
     from: string;
     snippet: string;
+    listUnsubscribe?: string;
+    attachments?: EmailAttachment[];
+    attachmentText?: string; // text extracted from PDF attachments
+    badgeAssertion?: string; // raw Open Badges assertion baked into an image attachment
+    links?: EmailLink[]; // links from the email body, without unsubscribe and tracking links
+}
+
+export type LinkKind = 'verification' | 'course' | 'unsubscribe' | 'tracking' | 'other';
+
+export interface EmailLink {
+    url: string; // with click-tracking redirects unwrapped
+    text: string;
+    kind: LinkKind;
+}
+
+export interface EmailAttachment {
+    filename: string;
+    mimeType: string;
+    size: number;
+    attachmentId?: string;
+    partId?: string;
+}
+
+export interface CertificateAttachment {
+    messageId: string;
+    filename: string;
+    mimeType: string;
+    partId?: string; // stable across fetches, unlike Gmail attachment ids
+    attachmentId?: string;
+}
+
+export interface CertificateClassification {
+    score: number;
+    reasons: string[];
 }
 
 export interface Certificate {
     id: string;
     title: string;
     issuer: string;
-    date: string;
+    issuedAt: string; // ISO date, YYYY-MM-DD or a full timestamp
     description: string;
     skills: string[];
     emailId: string;
+    emailReceivedAt?: string; // ISO timestamp of the source email
+    credentialId?: string;
+    verificationUrl?: string;
+    courseUrl?: string; // course or program page linked from the email
+    expiresAt?: string; // ISO date
+    instructor?: string;
+    parsedBy?: string; // id of the issuer parser that produced the fields
+    classification?: CertificateClassification;
+    recipientName?: string;
+    attachment?: CertificateAttachment;
+    openBadge?: {
+        version: '2.0' | '3.0';
+        criteria?: string;
+        issuerUrl?: string;
+    };
+    renewalOf?: string; // id of the expiring certificate this one renews
+    fieldSources?: Partial<Record<EditableField, FieldSource>>; // 'user' fields are never overwritten by scans
+    threadId?: string;
+    sourceEmailIds?: string[]; // every email merged into this certificate, including emailId
+    mergedCertificates?: Certificate[]; // snapshots of the duplicates merged in, kept so a merge can be split
+    mergeStatus?: 'pending' | 'confirmed';
+    notDuplicateOf?: string[]; // ids split apart by the user, never merged again
+    source?: CertificateSource; // unset on certificates scanned before Outlook support, which all came from Gmail
+    language?: CertificateLanguage; // detected language of the source email
+}
+
+export type CertificateLanguage = 'en' | 'es' | 'de' | 'pt' | 'hi';
+
+export type MailSourceId = 'gmail' | 'outlook';
+export type CertificateSource = MailSourceId | 'file' | 'badge' | 'manual';
+
+export type ExtractedField = 'title' | 'issuer' | 'issuedAt' | 'expiresAt' | 'credentialId' | 'verificationUrl' | 'skills';
+export type EditableField = ExtractedField | 'description';
+export type FieldSource = 'heuristic' | 'ai' | 'user';
+
+/** The fields of a certificate the user can create or edit by hand */
+export type CertificateDraft = Pick<Certificate, 'title' | 'issuer' | 'issuedAt' | 'description' | 'skills'>
+    & Partial<Pick<Certificate, 'expiresAt' | 'credentialId' | 'verificationUrl'>>;
+
+export interface DedupeResult {
+    certificates: Certificate[]; // the full list after merging
+    added: Certificate[]; // scanned certificates that were not duplicates
+    merged: number;
+}
+
+/** Certificate fields returned by AI extraction, already normalised */
+export type CertificateExtraction = Partial<Pick<Certificate, ExtractedField>>;
+
+export type SkillCategory = 'language' | 'framework' | 'cloud' | 'database' | 'data' | 'security' | 'practice' | 'soft' | 'other';
+
+export interface SkillDefinition {
+    name: string; // canonical name shown on certificates
+    category: SkillCategory;
+    aliases: string[]; // matched case-insensitively on token boundaries
+    exactAliases?: string[]; // matched case-sensitively, for names like "R" or "ML"
 }
 
 // Social Media Types
@@ -62,21 +153,34 @@ export interface PostGenerationRequest {
     tone: 'professional' | 'casual' | 'excited';
     includeHashtags: boolean;
     customMessage?: string;
+    language?: CertificateLanguage; // language to write the post in
+    link?: string; // appended to the post when the generated text doesn't include it
 }
 
+export type AIProviderId = 'openai' | 'gemini' | 'grok' | 'local';
+
 export interface GeneratedPost {
     content: string;
     hashtags: string[];
     platform: SocialPlatform;
     characterCount: number;
+    hook?: string; // opening line, also the start of content
+    callToAction?: string; // closing line, also the end of content
+    mentions?: string[]; // accounts worth tagging, not added to content
+    provider?: AIProviderId; // provider and model that wrote the post
+    model?: string;
 }
 
+/** Recent failure times of each AI provider, for the circuit breaker */
+export type ProviderFailures = Partial<Record<AIProviderId, string[]>>;
+
 // API Response Types
 export interface ApiResponse<T> {
     success: boolean;
     data?: T;
     error?: string;
     message?: string;
+    failedIds?: string[]; // items that still failed after retries and can be retried later
 }
 
 export interface GmailApiResponse {
@@ -85,6 +189,65 @@ export interface GmailApiResponse {
     resultSizeEstimate?: number;
 }
 
+export interface GmailMessagePart {
+    partId?: string;
+    mimeType?: string;
+    filename?: string;
+    headers?: Array<{ name: string; value: string }>;
+    body?: { data?: string; attachmentId?: string; size?: number };
+    parts?: GmailMessagePart[];
+}
+
+export interface GmailHistoryResponse {
+    history?: Array<{
+        id: string;
+        messagesAdded?: Array<{ message: { id: string; threadId: string; labelIds?: string[] } }>;
+    }>;
+    historyId: string;
+    nextPageToken?: string;
+}
+
+// Gmail Scan Types
+export interface ScanProgress {
+    page: number;
+    processed: number;
+    estimatedTotal: number;
+    found: number;
+    failed: number; // messages that could not be fetched even after retries
+    done: boolean;
+}
+
+export interface GmailSyncState {
+    historyId: string;
+    lastSyncedAt: string;
+}
+
+/** Last sync time of mail sources without a history API, by source */
+export type MailSyncTimes = Partial<Record<MailSourceId, string>>;
+
+export interface GmailSyncResult {
+    messages: EmailMessage[];
+    historyId: string;
+    fullSync: boolean;
+}
+
+export interface BackfillState {
+    query: string; // page tokens are only valid for the query that produced them
+    pageToken: string | null;
+    page: number;
+    processed: number;
+    found: number;
+    startedAt: string;
+    updatedAt: string;
+}
+
+/** What the popup should open to after a notification is clicked */
+export interface PendingIntent {
+    action: 'view' | 'recertified';
+    certificateId: string;
+    createdAt: string;
+}
+
 // Storage Types
 export interface StorageData {
     certificates: Certificate[];
@@ -97,18 +260,42 @@ export interface AppSettings {
     openaiApiKey: string;
     geminiApiKey?: string;
     grokApiKey?: string;
+    aiProvider?: AIProviderId; // provider used for posts and extraction; unset picks the first with a key
+    aiFallbacks?: AIProviderId[]; // tried in order when the provider fails to generate a post
+    localAiBaseUrl?: string; // OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+    localAiModel?: string;
+    localAiApiKey?: string; // only for servers that require one
+    localAiTimeout?: number; // in seconds
     googleClientId?: string;
+    outlookClientId?: string; // Azure app registration used to connect Microsoft 365 mail
     linkedinClientId?: string;
     linkedinClientSecret?: string;
     twitterClientId?: string;
     twitterClientSecret?: string;
     defaultTone: 'professional' | 'casual' | 'excited';
+    postLanguage: CertificateLanguage | 'certificate'; // 'certificate' writes posts in each certificate's language
     autoScan: boolean;
     scanInterval: number; // in minutes
+    classifierThreshold: number; // minimum score for an email to count as a certificate
+    searchRules: GmailSearchRules;
+    customSkills: SkillDefinition[];
+    aiExtraction: boolean; // ask the AI provider for certificate fields during scans
+    gmailLabels: boolean; // label processed and posted emails in Gmail (needs gmail.modify)
     defaultPlatforms: SocialPlatform[];
     notifications: boolean;
 }
 
+export interface GmailSearchRules {
+    trustedSenders: string[];
+    blockedSenders: string[];
+    includeLabels: string[];
+    excludeLabels: string[];
+    after: string; // YYYY-MM-DD, empty for no bound
+    before: string; // YYYY-MM-DD, empty for no bound
+    keywords: string[];
+    languages: CertificateLanguage[]; // locale packs whose search terms are added; English is always searched
+}
+
 // Component Props Types
 export interface CertificateItemProps {
     certificate: Certificate;
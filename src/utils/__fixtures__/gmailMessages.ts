@@ -0,0 +1,97 @@
+import type { GmailMessagePart } from '../../types';
+
+/**
+ * Message payloads as `users.messages.get?format=full` returns them: bodies
+ * are base64url without padding and the transfer encoding is already undone.
+ */
+
+/** Coursera completion: multipart/mixed with text, HTML and a PDF certificate */
+export const courseraCompletion: GmailMessagePart = {
+    partId: '',
+    mimeType: 'multipart/mixed',
+    filename: '',
+    headers: [
+        { name: 'From', value: 'Coursera <no-reply@m.mail.coursera.org>' },
+        { name: 'To', value: 'ada@example.com' },
+        { name: 'Subject', value: '=?UTF-8?Q?Congratulations=2C_you=E2=80=99ve_completed?= Machine Learning Specialization' },
+        { name: 'Date', value: 'Tue, 14 May 2024 16:02:11 +0000' },
+        { name: 'Content-Type', value: 'multipart/mixed; boundary="000000000000b1a2c3061854d7e4"' },
+    ],
+    body: { size: 0 },
+    parts: [
+        {
+            partId: '0',
+            mimeType: 'multipart/alternative',
+            filename: '',
+            headers: [{ name: 'Content-Type', value: 'multipart/alternative; boundary="000000000000b1a2c1061854d7e2"' }],
+            body: { size: 0 },
+            parts: [
+                {
+                    partId: '0.0',
+                    mimeType: 'text/plain',
+                    filename: '',
+                    headers: [
+                        { name: 'Content-Type', value: 'text/plain; charset="UTF-8"' },
+                        { name: 'Content-Transfer-Encoding', value: 'quoted-printable' },
+                    ],
+                    body: {
+                        size: 141,
+                        data: 'SGkgQWRhLA0KDQpDb25ncmF0dWxhdGlvbnMgb24gY29tcGxldGluZyBNYWNoaW5lIExlYXJuaW5nIFNwZWNpYWxpemF0aW9uISDwn46JDQoNClZpZXcgeW91ciBjZXJ0aWZpY2F0ZTogaHR0cHM6Ly9jb3Vyc2VyYS5vcmcvdmVyaWZ5L3NwZWNpYWxpemF0aW9uL0FCQzEyM1hZWg0K',
+                    },
+                },
+                {
+                    partId: '0.1',
+                    mimeType: 'text/html',
+                    filename: '',
+                    headers: [
+                        { name: 'Content-Type', value: 'text/html; charset="UTF-8"' },
+                        { name: 'Content-Transfer-Encoding', value: 'quoted-printable' },
+                    ],
+                    body: {
+                        size: 260,
+                        data: 'PGh0bWw-PGJvZHk-PHA-SGkgQWRhLDwvcD48cD5Db25ncmF0dWxhdGlvbnMgb24gY29tcGxldGluZyA8Yj5NYWNoaW5lIExlYXJuaW5nIFNwZWNpYWxpemF0aW9uPC9iPiE8L3A-PHA-PGEgaHJlZj0iaHR0cHM6Ly9jb3Vyc2VyYS5vcmcvdmVyaWZ5L3NwZWNpYWxpemF0aW9uL0FCQzEyM1hZWiI-VmlldyBjZXJ0aWZpY2F0ZTwvYT4gJmFtcDsgPGEgaHJlZj0ibWFpbHRvOmhlbHBAY291cnNlcmEub3JnIj5jb250YWN0IHVzPC9hPjwvcD48L2JvZHk-PC9odG1sPg',
+                    },
+                },
+            ],
+        },
+        {
+            partId: '1',
+            mimeType: 'application/pdf',
+            filename: 'Coursera ABC123XYZ.pdf',
+            headers: [
+                { name: 'Content-Type', value: 'application/pdf; name="Coursera ABC123XYZ.pdf"' },
+                { name: 'Content-Disposition', value: 'attachment; filename="Coursera ABC123XYZ.pdf"' },
+                { name: 'Content-Transfer-Encoding', value: 'base64' },
+            ],
+            body: { size: 48213, attachmentId: 'ANGjdJ8wV0n1uQkR2x7bBadge' },
+        },
+    ],
+};
+
+/** Credly badge notice in French: HTML only, ISO-8859-1 */
+export const credlyBadgeLatin1: GmailMessagePart = {
+    partId: '',
+    mimeType: 'text/html',
+    filename: '',
+    headers: [
+        { name: 'From', value: 'Credly <admin@credly.com>' },
+        { name: 'Subject', value: '=?ISO-8859-1?B?Ruls?= =?ISO-8859-1?B?aWNpdGF0aW9ucyAh?=' },
+        { name: 'Content-Type', value: 'text/html; charset=ISO-8859-1' },
+        { name: 'Content-Transfer-Encoding', value: 'quoted-printable' },
+    ],
+    body: {
+        size: 124,
+        data: 'PGRpdj5G6WxpY2l0YXRpb25zLCB2b3VzIGF2ZXogcul1c3NpIGwmIzM5O2V4YW1lbiZuYnNwOyE8L2Rpdj48YSBocmVmPSdodHRwczovL3d3dy5jcmVkbHkuY29tL2JhZGdlcy8xZjJlM2QnPkFjY2VwdGVyIGxlIGJhZGdlPC9hPg',
+    },
+};
+
+/** A part read from an .eml file, where the transfer encoding is still applied */
+export const quotedPrintableEmlPart: GmailMessagePart = {
+    partId: '0',
+    mimeType: 'text/plain',
+    headers: [
+        { name: 'Content-Type', value: 'text/plain; charset=utf-8' },
+        { name: 'Content-Transfer-Encoding', value: 'quoted-printable' },
+    ],
+    body: { data: 'WW91ciBjZXJ0aWZpY2F0ZTogY2FmPUMzPUE5ID0NCmNvbXBsZXRlZA' },
+};
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EmailMessage } from '../types';
+import { extractCertificateWithAI, hasExtractionProvider } from './aiExtraction';
+import type { AIProviderSettings } from './aiProviders';
+
+vi.mock('./storage', () => ({
+    storage: {
+        getProviderFailures: vi.fn(async () => ({})),
+        recordProviderFailure: vi.fn(async () => true),
+        clearProviderFailures: vi.fn(async () => true),
+    },
+}));
+
+const MESSAGE: EmailMessage = {
+    id: 'msg-1',
+    subject: 'You earned your certificate',
+    body: 'Congratulations on completing Machine Learning Specialization.',
+    date: 'Mon, 4 Mar 2024 09:12:44 +0000',
+    from: 'Coursera <no-reply@coursera.org>',
+    snippet: 'Congratulations on completing Machine Learning Specialization.',
+};
+
+const EXTRACTION = {
+    title: 'Machine Learning Specialization',
+    issuer: 'DeepLearning.AI',
+    issueDate: '2024-03-04',
+    expiryDate: null,
+    credentialId: null,
+    verificationUrl: null,
+    skills: [],
+};
+
+const LOCAL_SETTINGS: AIProviderSettings = {
+    aiProvider: 'local',
+    aiFallbacks: ['openai'],
+    localAiBaseUrl: 'http://localhost:11434/v1',
+    localAiModel: 'llama3.1',
+    openaiApiKey: 'sk-test-0123456789abcdefghij',
+};
+
+const completion = (content: string) => new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+
+describe('extractCertificateWithAI', () => {
+    const fetchMock = vi.fn<typeof fetch>();
+
+    beforeEach(() => {
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        fetchMock.mockReset();
+    });
+
+    it('reads the email with the local model', async () => {
+        fetchMock.mockResolvedValue(completion(JSON.stringify(EXTRACTION)));
+
+        const result = await extractCertificateWithAI(MESSAGE, LOCAL_SETTINGS);
+
+        expect(result.data?.title).toBe('Machine Learning Specialization');
+        expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.anything());
+    });
+
+    it('never sends the email to a cloud fallback when the local model fails', async () => {
+        fetchMock.mockResolvedValue(new Response('{}', { status: 404, statusText: 'Not Found' }));
+
+        const result = await extractCertificateWithAI(MESSAGE, LOCAL_SETTINGS);
+
+        expect(result.success).toBe(false);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    });
+
+    it('falls back to the next provider for a cloud active provider', async () => {
+        fetchMock
+            .mockResolvedValueOnce(new Response('{}', { status: 401, statusText: 'Unauthorized' }))
+            .mockResolvedValueOnce(completion(JSON.stringify(EXTRACTION)));
+
+        const result = await extractCertificateWithAI(MESSAGE, {
+            aiProvider: 'grok',
+            aiFallbacks: ['openai'],
+            grokApiKey: 'xai-test-key',
+            openaiApiKey: 'sk-test-0123456789abcdefghij',
+        });
+
+        expect(result.success).toBe(true);
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+            'https://api.grok.x.ai/v1/chat/completions',
+            'https://api.openai.com/v1/chat/completions',
+        ]);
+    });
+});
+
+describe('hasExtractionProvider', () => {
+    it('does not count cloud fallbacks behind an unconfigured local model', () => {
+        expect(hasExtractionProvider({ ...LOCAL_SETTINGS, localAiModel: undefined })).toBe(false);
+        expect(hasExtractionProvider(LOCAL_SETTINGS)).toBe(true);
+    });
+});
@@ -0,0 +1,248 @@
+import type {
+    ApiResponse,
+    AppSettings,
+    Certificate,
+    CertificateExtraction,
+    EmailMessage,
+    ExtractedField,
+    SkillDefinition
+} from '../types';
+import { getActiveProvider, getProviderChain, runWithFallback } from './aiProviders';
+import type { AIProviderSettings, JsonPrompt } from './aiProviders';
+import { toIsoDate } from './dates';
+import { parseJsonReply } from './jsonReply';
+import { buildSkillTaxonomy, canonicalSkillName } from './skillTaxonomy';
+
+const MAX_PROMPT_BODY = 6000;
+const MAX_PROMPT_ATTACHMENT = 3000;
+const EXTRACTION_MAX_TOKENS = 800;
+
+export const EXTRACTED_FIELDS: ExtractedField[] = [
+    'title', 'issuer', 'issuedAt', 'expiresAt', 'credentialId', 'verificationUrl', 'skills',
+];
+
+const nullableString = { type: ['string', 'null'] };
+
+/**
+ * JSON schema the provider is asked to follow. OpenAI and local servers
+ * enforce it server-side; for other providers `validateExtraction` checks the same shape.
+ */
+export const EXTRACTION_SCHEMA = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['title', 'issuer', 'issueDate', 'expiryDate', 'credentialId', 'verificationUrl', 'skills'],
+    properties: {
+        title: { ...nullableString, description: 'Name of the course, exam or certification' },
+        issuer: { ...nullableString, description: 'Organisation that awarded it, not the email platform' },
+        issueDate: { ...nullableString, description: 'Date awarded, YYYY-MM-DD' },
+        expiryDate: { ...nullableString, description: 'Date it expires, YYYY-MM-DD' },
+        credentialId: { ...nullableString, description: 'Credential, certificate or validation number' },
+        verificationUrl: { ...nullableString, description: 'URL where the credential can be verified' },
+        skills: { type: 'array', items: { type: 'string' }, description: 'Up to 8 skills it demonstrates' },
+    },
+};
+
+interface RawExtraction {
+    title: string | null;
+    issuer: string | null;
+    issueDate: string | null;
+    expiryDate: string | null;
+    credentialId: string | null;
+    verificationUrl: string | null;
+    skills: string[];
+}
+
+const SYSTEM_PROMPT = `You extract structured data from certificate and course completion emails.
+Reply with a single JSON object and nothing else. Use null for anything the email does not state; never guess.`;
+
+/**
+ * Build the user prompt from the cleaned email text
+ */
+export function buildExtractionPrompt(message: EmailMessage): string {
+    const attachment = message.attachmentText
+        ? `\n\nCertificate attachment text:\n${message.attachmentText.slice(0, MAX_PROMPT_ATTACHMENT)}`
+        : '';
+
+    return `Extract the certificate details from this email.
+
+From: ${message.from}
+Date: ${message.date}
+Subject: ${message.subject}
+
+${message.body.replace(/\n{3,}/g, '\n\n').slice(0, MAX_PROMPT_BODY)}${attachment}
+
+Respond with JSON matching this schema:
+${JSON.stringify(EXTRACTION_SCHEMA.properties)}`;
+}
+
+/**
+ * Check a provider reply against the extraction schema
+ */
+export function validateExtraction(value: unknown): ApiResponse<RawExtraction> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { success: false, error: 'Extraction is not a JSON object' };
+    }
+
+    const record = value as Record<string, unknown>;
+    const errors: string[] = [];
+    for (const key of EXTRACTION_SCHEMA.required) {
+        const field = record[key];
+        if (key === 'skills') {
+            if (!Array.isArray(field) || field.some(skill => typeof skill !== 'string')) {
+                errors.push('skills must be an array of strings');
+            }
+        } else if (field !== null && field !== undefined && typeof field !== 'string') {
+            errors.push(`${key} must be a string or null`);
+        }
+    }
+
+    const url = record.verificationUrl;
+    if (typeof url === 'string' && !/^https?:\/\//i.test(url)) {
+        errors.push('verificationUrl must be an http(s) URL');
+    }
+
+    if (errors.length > 0) {
+        return { success: false, error: `Invalid extraction: ${errors.join('; ')}` };
+    }
+
+    return {
+        success: true,
+        data: {
+            title: asText(record.title),
+            issuer: asText(record.issuer),
+            issueDate: asText(record.issueDate),
+            expiryDate: asText(record.expiryDate),
+            credentialId: asText(record.credentialId),
+            verificationUrl: asText(record.verificationUrl),
+            skills: (record.skills as string[]).map(skill => skill.trim()).filter(Boolean),
+        },
+    };
+}
+
+function asText(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Whether an AI provider is configured for extraction
+ */
+export function hasExtractionProvider(settings: AIProviderSettings): boolean {
+    return getProviderChain(getExtractionSettings(settings)).length > 0;
+}
+
+/**
+ * Someone who picked a local model doesn't want their emails sent to a
+ * cloud provider, so extraction then runs on the local model only
+ */
+function getExtractionSettings(settings: AIProviderSettings): AIProviderSettings {
+    const isLocal = settings.aiProvider === 'local' || getActiveProvider(settings)?.provider.id === 'local';
+    return isLocal ? { ...settings, aiFallbacks: [] } : settings;
+}
+
+/**
+ * Ask the AI providers, in fallback order, for the certificate fields of one email
+ */
+export async function extractCertificateWithAI(
+    message: EmailMessage,
+    settings: AIProviderSettings,
+    customSkills: SkillDefinition[] = []
+): Promise<ApiResponse<CertificateExtraction>> {
+    try {
+        const prompt: JsonPrompt = {
+            system: SYSTEM_PROMPT,
+            user: buildExtractionPrompt(message),
+            maxTokens: EXTRACTION_MAX_TOKENS,
+            schemaName: 'certificate',
+            schema: EXTRACTION_SCHEMA,
+        };
+        const validated = await runWithFallback(getExtractionSettings(settings), async (provider, config) => {
+            const reply = await provider.completeJson(prompt, config);
+            if (!reply.success || !reply.data) {
+                return { success: false, error: reply.error };
+            }
+            try {
+                return validateExtraction(parseJsonReply(reply.data));
+            } catch (error) {
+                return { success: false, error: error instanceof Error ? error.message : 'The reply is not JSON' };
+            }
+        });
+        if (!validated.success || !validated.data) {
+            return { success: false, error: validated.error };
+        }
+
+        const raw = validated.data;
+        const taxonomy = buildSkillTaxonomy(customSkills);
+        return {
+            success: true,
+            data: {
+                title: raw.title || undefined,
+                issuer: raw.issuer || undefined,
+                issuedAt: toIsoDate(raw.issueDate),
+                expiresAt: toIsoDate(raw.expiryDate),
+                credentialId: raw.credentialId || undefined,
+                verificationUrl: raw.verificationUrl || undefined,
+                skills: [...new Set(raw.skills.map(skill => canonicalSkillName(skill, taxonomy)))],
+            },
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'AI extraction failed'
+        };
+    }
+}
+
+/**
+ * Overlay AI-extracted fields onto a heuristic certificate, recording the
+ * source of each field. Fields the AI left empty keep the heuristic value.
+ */
+export function applyExtraction(certificate: Certificate, extraction: CertificateExtraction): Certificate {
+    const updated: Certificate = { ...certificate, fieldSources: { ...certificate.fieldSources } };
+
+    for (const field of EXTRACTED_FIELDS) {
+        const value = extraction[field];
+        if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+            continue;
+        }
+        Object.assign(updated, { [field]: value });
+        updated.fieldSources = { ...updated.fieldSources, [field]: 'ai' };
+    }
+
+    return updated;
+}
+
+/**
+ * Run AI extraction over freshly converted certificates when it is enabled.
+ * Any failure leaves the heuristic certificate as it was.
+ */
+export async function enhanceCertificatesWithAI(
+    certificates: Certificate[],
+    messages: EmailMessage[],
+    settings: AppSettings
+): Promise<Certificate[]> {
+    if (!settings.aiExtraction || !hasExtractionProvider(settings)) {
+        return certificates;
+    }
+
+    const messagesById = new Map(messages.map(message => [message.id, message]));
+    const enhanced: Certificate[] = [];
+
+    // One request at a time keeps us inside the providers' rate limits
+    for (const certificate of certificates) {
+        const message = messagesById.get(certificate.emailId);
+        const result = message
+            ? await extractCertificateWithAI(message, settings, settings.customSkills)
+            : null;
+
+        if (result?.success && result.data) {
+            enhanced.push(applyExtraction(certificate, result.data));
+        } else {
+            if (result?.error) {
+                console.warn(`AI extraction failed for ${certificate.id}, keeping heuristics:`, result.error);
+            }
+            enhanced.push(certificate);
+        }
+    }
+
+    return enhanced;
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AIProviderId, ProviderFailures } from '../types';
+import { getProviderChain, runWithFallback } from './aiProviders';
+import type { AIProvider, AIProviderSettings } from './aiProviders';
+import { storage } from './storage';
+
+let failures: ProviderFailures = {};
+
+vi.mock('./storage', () => ({
+    storage: {
+        getProviderFailures: vi.fn(async () => structuredClone(failures)),
+        recordProviderFailure: vi.fn(async (id: AIProviderId, failedAt: string, keepSince: string) => {
+            failures = { ...failures, [id]: [...(failures[id] || []).filter(at => at >= keepSince), failedAt] };
+            return true;
+        }),
+        clearProviderFailures: vi.fn(async (id: AIProviderId) => {
+            delete failures[id];
+            return true;
+        }),
+    },
+}));
+
+const SETTINGS: AIProviderSettings = {
+    aiProvider: 'openai',
+    aiFallbacks: ['local', 'gemini', 'openai', 'grok'],
+    openaiApiKey: 'sk-test-0123456789abcdefghij',
+    geminiApiKey: 'AIzaTest',
+    grokApiKey: 'xai-test-key',
+};
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000).toISOString();
+
+// Succeeds on the listed providers and fails on the rest, recording the call order
+function taskSucceedingOn(...ids: AIProviderId[]) {
+    const calls: AIProviderId[] = [];
+    const task = async (provider: AIProvider) => {
+        calls.push(provider.id);
+        return ids.includes(provider.id)
+            ? { success: true, data: provider.id }
+            : { success: false, error: 'quota exceeded' };
+    };
+    return { calls, task };
+}
+
+describe('getProviderChain', () => {
+    it('puts the active provider first and skips fallbacks that are not set up or repeated', () => {
+        expect(getProviderChain(SETTINGS).map(({ provider }) => provider.id)).toEqual(['openai', 'gemini', 'grok']);
+    });
+
+    it('has no active provider when the selected one has no key', () => {
+        expect(getProviderChain({ ...SETTINGS, openaiApiKey: '', aiFallbacks: [] })).toEqual([]);
+    });
+});
+
+describe('runWithFallback', () => {
+    beforeEach(() => {
+        failures = {};
+        vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.clearAllMocks();
+    });
+
+    it('tries the fallbacks in order until one succeeds', async () => {
+        const { calls, task } = taskSucceedingOn('grok');
+
+        expect(await runWithFallback(SETTINGS, task)).toEqual({ success: true, data: 'grok' });
+        expect(calls).toEqual(['openai', 'gemini', 'grok']);
+        expect(failures).toEqual({ openai: [NOW.toISOString()], gemini: [NOW.toISOString()] });
+    });
+
+    it('names each provider when every one fails', async () => {
+        const result = await runWithFallback(SETTINGS, taskSucceedingOn().task);
+
+        expect(result.error).toBe('OpenAI: quota exceeded\nGemini: quota exceeded\nGrok: quota exceeded');
+    });
+
+    it('clears the failures of a provider once it succeeds', async () => {
+        failures = { openai: [minutesAgo(1)] };
+
+        await runWithFallback(SETTINGS, taskSucceedingOn('openai').task);
+
+        expect(storage.clearProviderFailures).toHaveBeenCalledWith('openai');
+        expect(failures).toEqual({});
+    });
+
+    it('skips a provider that failed three times within five minutes', async () => {
+        failures = { openai: [minutesAgo(4), minutesAgo(2), minutesAgo(1)] };
+        const { calls, task } = taskSucceedingOn('openai', 'gemini');
+
+        expect(await runWithFallback(SETTINGS, task)).toEqual({ success: true, data: 'gemini' });
+        expect(calls).toEqual(['gemini']);
+    });
+
+    it('lets a provider back in once its failures age out of the window', async () => {
+        failures = { openai: [minutesAgo(9), minutesAgo(6), minutesAgo(1)] };
+        const { calls, task } = taskSucceedingOn('openai');
+
+        await runWithFallback(SETTINGS, task);
+
+        expect(calls).toEqual(['openai']);
+    });
+
+    it('still tries every provider when all of them are skipped', async () => {
+        const recent = [minutesAgo(3), minutesAgo(2), minutesAgo(1)];
+        failures = { openai: recent, gemini: recent, grok: recent };
+        const { calls, task } = taskSucceedingOn('gemini');
+
+        expect(await runWithFallback(SETTINGS, task)).toEqual({ success: true, data: 'gemini' });
+        expect(calls).toEqual(['openai', 'gemini']);
+    });
+
+    it('stops without blaming the provider when the user cancels', async () => {
+        const controller = new AbortController();
+        const { calls, task } = taskSucceedingOn();
+
+        const result = await runWithFallback(SETTINGS, async provider => {
+            controller.abort();
+            return task(provider);
+        }, controller.signal);
+
+        expect(result).toEqual({ success: false, error: 'Request stopped' });
+        expect(calls).toEqual(['openai']);
+        expect(storage.recordProviderFailure).not.toHaveBeenCalled();
+    });
+
+    it('explains a missing key without calling any provider', async () => {
+        const { calls, task } = taskSucceedingOn('openai');
+
+        const result = await runWithFallback({ ...SETTINGS, openaiApiKey: '', aiFallbacks: [] }, task);
+
+        expect(result.error).toBe('The selected AI provider has no API key. Add one in settings.');
+        expect(calls).toEqual([]);
+    });
+});
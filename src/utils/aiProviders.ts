@@ -0,0 +1,559 @@
+import type { AIProviderId, ApiResponse, AppSettings, GeneratedPost, PostGenerationRequest } from '../types';
+import { DEFAULT_LOCAL_TIMEOUT_SECONDS, isLoopbackUrl, normalizeBaseUrl } from './localAi';
+import { buildPostPrompt, buildRepairPrompt, estimateTokens, getMaxTokens, getSystemPrompt, parsePostReply, POST_SCHEMA } from './postPrompt';
+import { storage } from './storage';
+
+export type AIProviderSettings = Pick<AppSettings,
+    'aiProvider' | 'aiFallbacks' | 'openaiApiKey' | 'geminiApiKey' | 'grokApiKey' |
+    'localAiBaseUrl' | 'localAiModel' | 'localAiApiKey' | 'localAiTimeout'>;
+
+export interface AIProviderConfig {
+    apiKey: string; // empty for local servers without authentication
+    model: string;
+    baseUrl?: string; // overrides the provider's own API address
+    timeoutMs?: number;
+}
+
+/** A request for a JSON reply following `schema`, such as certificate extraction */
+export interface JsonPrompt {
+    system: string;
+    user: string;
+    maxTokens: number;
+    schemaName: string;
+    schema: Record<string, unknown>;
+}
+
+export interface AIProvider {
+    id: AIProviderId;
+    name: string;
+    /** The provider's settings, or null when it isn't set up */
+    getConfig(settings: AIProviderSettings): AIProviderConfig | null;
+    validateKey(apiKey: string): boolean;
+    generate(request: PostGenerationRequest, config: AIProviderConfig): Promise<ApiResponse<GeneratedPost>>;
+    /** Like generate, calling `onText` with the reply so far as it arrives */
+    stream(
+        request: PostGenerationRequest,
+        config: AIProviderConfig,
+        onText: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<ApiResponse<GeneratedPost>>;
+    /** The raw JSON reply to a prompt, answered deterministically */
+    completeJson(prompt: JsonPrompt, config: AIProviderConfig): Promise<ApiResponse<string>>;
+    /** Rough cost of one request in USD */
+    estimateCost(request: PostGenerationRequest): number;
+}
+
+export const GEMINI_MODEL = 'gemini-2.0-flash';
+
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 10000;
+const RETRYABLE_STATUS = [429, 500, 502, 503, 504];
+const MAX_REPAIR_ATTEMPTS = 1;
+const CIRCUIT_FAILURE_LIMIT = 3;
+const CIRCUIT_WINDOW_MS = 5 * 60 * 1000;
+
+interface ChatPrompt extends JsonPrompt {
+    temperature: number;
+}
+
+/**
+ * Shared generate and stream for chat models: every provider gets the same
+ * prompt and its JSON reply goes through the same parser.
+ */
+abstract class ChatPostProvider implements AIProvider {
+    abstract id: AIProviderId;
+    abstract name: string;
+    protected abstract pricing: { input: number; output: number }; // USD per 1K tokens
+
+    abstract getConfig(settings: AIProviderSettings): AIProviderConfig | null;
+    abstract validateKey(apiKey: string): boolean;
+    protected abstract complete(prompt: ChatPrompt, config: AIProviderConfig, signal?: AbortSignal): Promise<string>;
+    protected abstract completeStream(
+        prompt: ChatPrompt,
+        config: AIProviderConfig,
+        onDelta: (delta: string) => void,
+        signal?: AbortSignal
+    ): Promise<void>;
+
+    async generate(request: PostGenerationRequest, config: AIProviderConfig): Promise<ApiResponse<GeneratedPost>> {
+        try {
+            const prompt = this.buildPrompt(request);
+            return await this.repair(prompt, await this.complete(prompt, config), request, config);
+        } catch (error) {
+            return { success: false, error: this.describeFailure(error, config) };
+        }
+    }
+
+    async stream(
+        request: PostGenerationRequest,
+        config: AIProviderConfig,
+        onText: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<ApiResponse<GeneratedPost>> {
+        let reply = '';
+        try {
+            const prompt = this.buildPrompt(request);
+            await this.completeStream(prompt, config, delta => {
+                reply += delta;
+                onText(reply);
+            }, signal);
+            return await this.repair(prompt, reply, request, config, signal);
+        } catch (error) {
+            return { success: false, error: this.describeFailure(error, config) };
+        }
+    }
+
+    async completeJson(prompt: JsonPrompt, config: AIProviderConfig): Promise<ApiResponse<string>> {
+        try {
+            const reply = await this.complete({ ...prompt, temperature: 0 }, config);
+            return reply.trim()
+                ? { success: true, data: reply }
+                : { success: false, error: `No response from ${this.name}` };
+        } catch (error) {
+            return { success: false, error: this.describeFailure(error, config) };
+        }
+    }
+
+    estimateCost(request: PostGenerationRequest): number {
+        const tokens = estimateTokens(request);
+        return (tokens.input * this.pricing.input + tokens.output * this.pricing.output) / 1000;
+    }
+
+    /**
+     * POST to the provider, retrying rate limits and server errors with
+     * backoff. Retry-After is honoured when the provider sends it, and
+     * aborting the request's signal also ends the wait.
+     */
+    protected async send(url: string, init: RequestInit): Promise<Response> {
+        for (let attempt = 0; ; attempt++) {
+            const response = await fetch(url, init);
+            if (response.ok || attempt >= MAX_RETRIES || !RETRYABLE_STATUS.includes(response.status)) {
+                return response;
+            }
+
+            const retryAfter = Number(response.headers.get('Retry-After'));
+            const delay = retryAfter > 0
+                ? retryAfter * 1000
+                : RETRY_BASE_DELAY_MS * 2 ** attempt;
+            await sleep(Math.min(delay, RETRY_MAX_DELAY_MS), init.signal);
+        }
+    }
+
+    protected async describeError(response: Response): Promise<Error> {
+        const errorData = await response.json().catch(() => ({}));
+        return new Error(`${this.name} API error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+    }
+
+    private describeFailure(error: unknown, config: AIProviderConfig): string {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+            return `${this.name} did not answer within ${Math.round((config.timeoutMs || 0) / 1000)} seconds`;
+        }
+        return error instanceof Error ? error.message : `${this.name} request failed`;
+    }
+
+    private buildPrompt(request: PostGenerationRequest): ChatPrompt {
+        return {
+            system: getSystemPrompt(request.platform),
+            user: buildPostPrompt(request),
+            maxTokens: getMaxTokens(request.platform, request.language),
+            schemaName: 'post',
+            schema: POST_SCHEMA,
+            temperature: 0.7,
+        };
+    }
+
+    /**
+     * Parse a reply, asking the model to correct it when it doesn't match the schema
+     */
+    private async repair(
+        prompt: ChatPrompt,
+        reply: string,
+        request: PostGenerationRequest,
+        config: AIProviderConfig,
+        signal?: AbortSignal
+    ): Promise<ApiResponse<GeneratedPost>> {
+        if (!reply.trim()) {
+            return { success: false, error: `No response generated from ${this.name}` };
+        }
+
+        let result = parsePostReply(reply, request);
+        for (let attempt = 0; !result.success && attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+            reply = await this.complete({ ...prompt, user: buildRepairPrompt(request, reply, result.error || '') }, config, signal);
+            result = parsePostReply(reply, request);
+        }
+        return result.success ? result : { success: false, error: `${this.name} returned an unusable post. ${result.error}` };
+    }
+}
+
+interface OpenAICompatibleOptions {
+    id: AIProviderId;
+    name: string;
+    baseUrl: string;
+    defaultModel: string;
+    keySetting?: 'openaiApiKey' | 'grokApiKey';
+    keyPattern: RegExp;
+    pricing: { input: number; output: number };
+    jsonSchema: boolean; // strict json_schema output; otherwise plain json_object mode
+}
+
+/**
+ * Providers speaking the OpenAI chat completions API
+ */
+class OpenAICompatibleProvider extends ChatPostProvider {
+    readonly id: AIProviderId;
+    readonly name: string;
+    protected pricing: { input: number; output: number };
+    private options: OpenAICompatibleOptions;
+
+    constructor(options: OpenAICompatibleOptions) {
+        super();
+        this.id = options.id;
+        this.name = options.name;
+        this.pricing = options.pricing;
+        this.options = options;
+    }
+
+    getConfig(settings: AIProviderSettings): AIProviderConfig | null {
+        const apiKey = this.options.keySetting && settings[this.options.keySetting];
+        return apiKey ? { apiKey, model: this.options.defaultModel } : null;
+    }
+
+    validateKey(apiKey: string): boolean {
+        return this.options.keyPattern.test(apiKey.trim());
+    }
+
+    protected async complete(prompt: ChatPrompt, config: AIProviderConfig, signal?: AbortSignal): Promise<string> {
+        const response = await this.request(prompt, config, false, signal);
+        const data = await response.json();
+        return data.choices?.[0]?.message?.content || '';
+    }
+
+    protected async completeStream(
+        prompt: ChatPrompt,
+        config: AIProviderConfig,
+        onDelta: (delta: string) => void,
+        signal?: AbortSignal
+    ): Promise<void> {
+        const response = await this.request(prompt, config, true, signal);
+        await readEventStream(response, data => {
+            const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (delta) {
+                onDelta(delta);
+            }
+        });
+    }
+
+    private async request(prompt: ChatPrompt, config: AIProviderConfig, stream: boolean, signal?: AbortSignal): Promise<Response> {
+        const response = await this.send(`${config.baseUrl || this.options.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                model: config.model,
+                messages: [
+                    { role: 'system', content: prompt.system },
+                    { role: 'user', content: prompt.user }
+                ],
+                max_tokens: prompt.maxTokens,
+                temperature: prompt.temperature,
+                response_format: this.options.jsonSchema
+                    ? { type: 'json_schema', json_schema: { name: prompt.schemaName, strict: true, schema: prompt.schema } }
+                    : { type: 'json_object' },
+                stream
+            }),
+            signal: withTimeout(signal, config.timeoutMs)
+        });
+        if (!response.ok) {
+            throw await this.describeError(response);
+        }
+        return response;
+    }
+}
+
+/**
+ * Ollama, LM Studio, llama.cpp and other servers with an OpenAI-compatible
+ * API, so certificate emails never leave the user's network
+ */
+class LocalProvider extends OpenAICompatibleProvider {
+    constructor() {
+        super({
+            id: 'local',
+            name: 'Local model',
+            baseUrl: '',
+            defaultModel: '',
+            keyPattern: /^/,
+            pricing: { input: 0, output: 0 },
+            jsonSchema: true,
+        });
+    }
+
+    getConfig(settings: AIProviderSettings): AIProviderConfig | null {
+        const baseUrl = normalizeBaseUrl(settings.localAiBaseUrl || '');
+        // Older settings may still name a remote server, which the CSP blocks
+        if (!isLoopbackUrl(baseUrl) || !settings.localAiModel) {
+            return null;
+        }
+        return {
+            apiKey: settings.localAiApiKey || '',
+            model: settings.localAiModel,
+            baseUrl,
+            timeoutMs: (settings.localAiTimeout || DEFAULT_LOCAL_TIMEOUT_SECONDS) * 1000,
+        };
+    }
+}
+
+/**
+ * Google Gemini through the Generative Language API
+ */
+class GeminiProvider extends ChatPostProvider {
+    readonly id: AIProviderId = 'gemini';
+    readonly name = 'Gemini';
+    protected pricing = { input: 0.0001, output: 0.0004 };
+    private baseUrl = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+    getConfig(settings: AIProviderSettings): AIProviderConfig | null {
+        return settings.geminiApiKey ? { apiKey: settings.geminiApiKey, model: GEMINI_MODEL } : null;
+    }
+
+    validateKey(apiKey: string): boolean {
+        return /^AIza[\w-]{35}$/.test(apiKey.trim());
+    }
+
+    protected async complete(prompt: ChatPrompt, config: AIProviderConfig, signal?: AbortSignal): Promise<string> {
+        const response = await this.request(prompt, config, 'generateContent', signal);
+        const data = await response.json();
+        return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    }
+
+    protected async completeStream(
+        prompt: ChatPrompt,
+        config: AIProviderConfig,
+        onDelta: (delta: string) => void,
+        signal?: AbortSignal
+    ): Promise<void> {
+        const response = await this.request(prompt, config, 'streamGenerateContent', signal);
+        await readEventStream(response, data => {
+            const delta = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+            if (delta) {
+                onDelta(delta);
+            }
+        });
+    }
+
+    private async request(prompt: ChatPrompt, config: AIProviderConfig, method: string, signal?: AbortSignal): Promise<Response> {
+        const params = new URLSearchParams({ key: config.apiKey });
+        if (method === 'streamGenerateContent') {
+            params.set('alt', 'sse');
+        }
+        const response = await this.send(`${this.baseUrl}/${config.model}:${method}?${params.toString()}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                systemInstruction: { parts: [{ text: prompt.system }] },
+                contents: [{ role: 'user', parts: [{ text: prompt.user }] }],
+                generationConfig: { temperature: prompt.temperature, maxOutputTokens: prompt.maxTokens, responseMimeType: 'application/json' }
+            }),
+            signal
+        });
+        if (!response.ok) {
+            throw await this.describeError(response);
+        }
+        return response;
+    }
+}
+
+/**
+ * Wait for `ms`, rejecting with the signal's reason as soon as it aborts
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Combine a caller's abort signal with a timeout
+ */
+export function withTimeout(signal: AbortSignal | undefined, timeoutMs?: number): AbortSignal | undefined {
+    if (!timeoutMs) {
+        return signal;
+    }
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Call `onData` with the data of each server-sent event until the stream ends
+ */
+async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+        throw new Error('The response has no body to stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+
+        const lines = buffer.split(/\r?\n/);
+        buffer = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+            const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+            if (data && data !== '[DONE]') {
+                onData(data);
+            }
+        }
+
+        if (done) {
+            return;
+        }
+    }
+}
+
+const registry: AIProvider[] = [];
+
+/**
+ * Register a provider. A provider registered under an existing id replaces it.
+ */
+export function registerAIProvider(provider: AIProvider): void {
+    const index = registry.findIndex(existing => existing.id === provider.id);
+    if (index >= 0) {
+        registry[index] = provider;
+    } else {
+        registry.push(provider);
+    }
+}
+
+/**
+ * Every registered provider, in registration order
+ */
+export function listAIProviders(): AIProvider[] {
+    return [...registry];
+}
+
+export function getAIProvider(id: AIProviderId): AIProvider | null {
+    return registry.find(provider => provider.id === id) || null;
+}
+
+/**
+ * The provider chosen in settings. Without a choice, as in settings saved
+ * before there was one, the first registered provider with a key is used.
+ */
+export function getActiveProvider(settings: AIProviderSettings): { provider: AIProvider; config: AIProviderConfig } | null {
+    const candidates = settings.aiProvider
+        ? [getAIProvider(settings.aiProvider)].filter((provider): provider is AIProvider => provider !== null)
+        : registry;
+
+    for (const provider of candidates) {
+        const config = provider.getConfig(settings);
+        if (config) {
+            return { provider, config };
+        }
+    }
+    return null;
+}
+
+/**
+ * The active provider followed by the configured fallbacks that are set up,
+ * in the order they should be tried
+ */
+export function getProviderChain(settings: AIProviderSettings): Array<{ provider: AIProvider; config: AIProviderConfig }> {
+    const active = getActiveProvider(settings);
+    const chain = active ? [active] : [];
+
+    for (const id of settings.aiFallbacks || []) {
+        const provider = getAIProvider(id);
+        const config = provider?.getConfig(settings);
+        if (provider && config && !chain.some(entry => entry.provider.id === id)) {
+            chain.push({ provider, config });
+        }
+    }
+    return chain;
+}
+
+/**
+ * Run a task on the active provider, then on each fallback until one
+ * succeeds. A provider that failed CIRCUIT_FAILURE_LIMIT times within
+ * CIRCUIT_WINDOW_MS is skipped while another one is available.
+ */
+export async function runWithFallback<T>(
+    settings: AIProviderSettings,
+    task: (provider: AIProvider, config: AIProviderConfig) => Promise<ApiResponse<T>>,
+    signal?: AbortSignal
+): Promise<ApiResponse<T>> {
+    const chain = getProviderChain(settings);
+    if (chain.length === 0) {
+        return { success: false, error: describeMissingProvider(settings.aiProvider) };
+    }
+
+    const windowStart = new Date(Date.now() - CIRCUIT_WINDOW_MS).toISOString();
+    const failures = await storage.getProviderFailures();
+    const isOpen = (id: AIProviderId) =>
+        (failures[id] || []).filter(at => at >= windowStart).length >= CIRCUIT_FAILURE_LIMIT;
+    const available = chain.filter(({ provider }) => !isOpen(provider.id));
+
+    const errors: string[] = [];
+    for (const { provider, config } of available.length > 0 ? available : chain) {
+        const result = await task(provider, config);
+        if (signal?.aborted) {
+            // Stopped by the user, not a provider failure
+            return { success: false, error: 'Request stopped' };
+        }
+        if (result.success) {
+            await storage.clearProviderFailures(provider.id);
+            return result;
+        }
+
+        await storage.recordProviderFailure(provider.id, new Date().toISOString(), windowStart);
+        errors.push(chain.length > 1 ? `${provider.name}: ${result.error}` : result.error || `${provider.name} request failed`);
+    }
+
+    return { success: false, error: errors.join('\n') };
+}
+
+function describeMissingProvider(id?: AIProviderId): string {
+    return id
+        ? 'The selected AI provider has no API key. Add one in settings.'
+        : 'No AI provider API key configured.';
+}
+
+registerAIProvider(new OpenAICompatibleProvider({
+    id: 'openai',
+    name: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini',
+    keySetting: 'openaiApiKey',
+    keyPattern: /^sk-\S{20,}$/,
+    pricing: { input: 0.00015, output: 0.0006 },
+    jsonSchema: true,
+}));
+registerAIProvider(new GeminiProvider());
+registerAIProvider(new OpenAICompatibleProvider({
+    id: 'grok',
+    name: 'Grok',
+    baseUrl: 'https://api.grok.x.ai/v1',
+    defaultModel: 'grok-1',
+    keySetting: 'grokApiKey',
+    keyPattern: /^xai-\S{20,}$/,
+    pricing: { input: 0.005, output: 0.015 },
+    jsonSchema: false,
+}));
+registerAIProvider(new LocalProvider());
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EmailAttachment } from '../types';
+import { extractAttachmentContent } from './attachmentContent';
+import { extractBakedAssertion, resolveBadgeAssertion } from './openBadges';
+import { extractPdfText } from './pdfText';
+
+vi.mock('./pdfText', () => ({ extractPdfText: vi.fn() }));
+vi.mock('./openBadges', () => ({ extractBakedAssertion: vi.fn(), resolveBadgeAssertion: vi.fn() }));
+
+const CERTIFICATE_PDF: EmailAttachment = { filename: 'certificate.pdf', mimeType: 'application/pdf', size: 48213, attachmentId: 'pdf-1' };
+const CORRUPT_PDF: EmailAttachment = { filename: 'broken.pdf', mimeType: 'application/pdf', size: 1024, attachmentId: 'pdf-2' };
+const BADGE_PNG: EmailAttachment = { filename: 'badge.png', mimeType: 'image/png', size: 20480, attachmentId: 'png-1' };
+
+const load = async (attachment: EmailAttachment) => new TextEncoder().encode(attachment.attachmentId);
+
+describe('extractAttachmentContent', () => {
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    it('reads PDF text and resolves the baked badge', async () => {
+        vi.mocked(extractPdfText).mockResolvedValue('Certificate of Completion');
+        vi.mocked(extractBakedAssertion).mockResolvedValue('https://api.badgr.io/public/assertions/Rc7pW4');
+        vi.mocked(resolveBadgeAssertion).mockResolvedValue('{"type":"Assertion"}');
+
+        expect(await extractAttachmentContent([CERTIFICATE_PDF, BADGE_PNG], load, 'message 1')).toEqual({
+            attachmentText: 'Certificate of Completion',
+            badgeAssertion: '{"type":"Assertion"}',
+        });
+    });
+
+    it('skips a PDF that fails to parse and keeps the others', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.mocked(extractPdfText).mockImplementation(async bytes => {
+            if (new TextDecoder().decode(bytes) === 'pdf-2') {
+                throw new Error('Invalid stream');
+            }
+            return 'Certificate of Completion';
+        });
+
+        const content = await extractAttachmentContent([CORRUPT_PDF, CERTIFICATE_PDF], load, 'message 1');
+
+        expect(content.attachmentText).toBe('Certificate of Completion');
+        expect(console.warn).toHaveBeenCalledWith('Could not read PDF broken.pdf in message 1:', expect.any(Error));
+    });
+
+    it('skips attachments that fail to load or parse', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.mocked(extractBakedAssertion).mockRejectedValue(new Error('Bad PNG chunk'));
+
+        const content = await extractAttachmentContent(
+            [CERTIFICATE_PDF, BADGE_PNG],
+            async attachment => attachment === CERTIFICATE_PDF ? Promise.reject(new Error('Network error')) : load(attachment),
+            'message 1'
+        );
+
+        expect(content).toEqual({ attachmentText: undefined, badgeAssertion: undefined });
+    });
+
+    it('leaves out oversized files', async () => {
+        await extractAttachmentContent([{ ...CERTIFICATE_PDF, size: 6 * 1024 * 1024 }, { ...BADGE_PNG, size: 3 * 1024 * 1024 }], load, 'message 1');
+
+        expect(extractPdfText).not.toHaveBeenCalled();
+        expect(extractBakedAssertion).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,71 @@
+import type { EmailAttachment, EmailMessage } from '../types';
+import { extractBakedAssertion, resolveBadgeAssertion } from './openBadges';
+import { extractPdfText } from './pdfText';
+
+const MAX_PDF_ATTACHMENTS = 2;
+const MAX_PDF_BYTES = 5 * 1024 * 1024;
+const MAX_BADGE_BYTES = 2 * 1024 * 1024;
+
+/** Loads one attachment's bytes, or null when it isn't available */
+export type AttachmentLoader = (attachment: EmailAttachment) => Promise<Uint8Array | null>;
+
+/**
+ * Read the text of a message's PDF attachments and the Open Badges assertion
+ * baked into its badge images, for every mail source. An attachment that
+ * can't be loaded or parsed is skipped; it never fails the message.
+ * `source` names the message in warnings, e.g. "Outlook message AAMk...".
+ */
+export async function extractAttachmentContent(
+    attachments: EmailAttachment[],
+    load: AttachmentLoader,
+    source: string
+): Promise<Pick<EmailMessage, 'attachmentText' | 'badgeAssertion'>> {
+    return {
+        attachmentText: await extractAttachmentText(attachments, load, source),
+        badgeAssertion: await extractBadgeAssertion(attachments, load, source),
+    };
+}
+
+async function extractAttachmentText(attachments: EmailAttachment[], load: AttachmentLoader, source: string): Promise<string | undefined> {
+    const pdfs = attachments
+        .filter(attachment => attachment.mimeType === 'application/pdf' || /\.pdf$/i.test(attachment.filename))
+        .filter(attachment => attachment.size <= MAX_PDF_BYTES)
+        .slice(0, MAX_PDF_ATTACHMENTS);
+
+    const texts: string[] = [];
+    for (const pdf of pdfs) {
+        try {
+            const data = await load(pdf);
+            const text = data ? await extractPdfText(data) : '';
+            if (text) {
+                texts.push(text);
+            }
+        } catch (error) {
+            // An unreadable PDF leaves the message without its text, nothing more
+            console.warn(`Could not read PDF ${pdf.filename} in ${source}:`, error);
+        }
+    }
+
+    return texts.length > 0 ? texts.join('\n') : undefined;
+}
+
+async function extractBadgeAssertion(attachments: EmailAttachment[], load: AttachmentLoader, source: string): Promise<string | undefined> {
+    const images = attachments.filter(attachment =>
+        (attachment.mimeType === 'image/png' || attachment.mimeType === 'image/svg+xml') &&
+        attachment.size <= MAX_BADGE_BYTES
+    );
+
+    for (const image of images) {
+        try {
+            const data = await load(image);
+            const assertion = data ? await extractBakedAssertion(data, image.mimeType) : null;
+            if (assertion) {
+                return await resolveBadgeAssertion(assertion);
+            }
+        } catch (error) {
+            console.warn(`Could not read badge ${image.filename} in ${source}:`, error);
+        }
+    }
+
+    return undefined;
+}
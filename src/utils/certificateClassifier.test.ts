@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { EmailMessage } from '../types';
+import { classifyCertificateEmail, DEFAULT_CLASSIFIER_THRESHOLD, isCertificateCandidate } from './certificateClassifier';
+
+const courseraCertificate: EmailMessage = {
+    id: '18f7c2a9d0e3b4f1',
+    subject: 'Your Certificate of Completion is ready',
+    from: 'Coursera <no-reply@coursera.org>',
+    date: 'Tue, 14 May 2024 16:02:11 +0000',
+    snippet: 'Congratulations, Ada! You have completed Machine Learning.',
+    body: 'Congratulations, Ada! You have successfully completed Machine Learning.\nCredential ID: ABC123XYZ\nShare it on LinkedIn.',
+    attachments: [{ filename: 'certificate.pdf', mimeType: 'application/pdf', size: 48213, attachmentId: 'ANGjdJ8w' }],
+};
+
+const udemySale: EmailMessage = {
+    id: '18f7c2a9d0e3b4f2',
+    subject: 'Last chance: 85% off courses with a certificate of completion',
+    from: 'Udemy <deals@e.udemy.com>',
+    date: 'Fri, 29 Nov 2024 08:00:00 +0000',
+    snippet: 'Black Friday prices end tonight',
+    body: 'Black Friday: use code BF24 for 85% off. Every course comes with a certificate. You are receiving this email because you signed up.',
+    listUnsubscribe: '<https://www.udemy.com/unsubscribe/abc>',
+};
+
+describe('classifyCertificateEmail', () => {
+    it('accepts a transactional certificate email from a known issuer', () => {
+        const result = classifyCertificateEmail(courseraCertificate);
+
+        expect(result.accepted).toBe(true);
+        expect(result.score).toBe(14);
+        expect(result.reasons).toEqual([
+            '+2 sender coursera.org is a known issuer',
+            '+0.5 sender is a transactional address',
+            '+3 subject announces a certificate',
+            '+1.5 subject mentions completion',
+            '+2 body confirms completion',
+            '+2 body includes a credential id or verification',
+            '+1 body suggests sharing the achievement',
+            '+2 has a PDF or image attachment',
+        ]);
+    });
+
+    it('rejects a promotion that mentions certificates', () => {
+        const result = classifyCertificateEmail(udemySale);
+
+        expect(result.accepted).toBe(false);
+        expect(result.score).toBeLessThan(0);
+        expect(result.reasons).toContain('-4 subject is a promotion');
+        expect(result.reasons).toContain('-1.5 has a List-Unsubscribe header');
+        expect(result.reasons).toContain('-3 body contains a promotion');
+    });
+
+    it('scores other languages through their locale pack', () => {
+        const result = classifyCertificateEmail({
+            subject: 'Felicidades, has completado el curso',
+            from: 'Platzi <notificaciones@platzi.com>',
+            body: 'Certificamos que has completado el curso de Python. Tu certificado ya está disponible.',
+        });
+
+        expect(result.reasons).toContain('+2.5 subject announces a certificate (Spanish)');
+        expect(result.reasons).toContain('+2 body confirms completion (Spanish)');
+        expect(result.accepted).toBe(true);
+    });
+
+    it('falls back to the snippet when the body is empty', () => {
+        const result = classifyCertificateEmail({ ...courseraCertificate, body: '', attachments: [] });
+
+        expect(result.reasons).toContain('+2 body confirms completion');
+        expect(result.reasons).not.toContain('+2 body includes a credential id or verification');
+    });
+
+    it('compares the score against the threshold', () => {
+        const message = {
+            subject: 'Course update',
+            from: 'Team <notifications@learn.example.com>',
+            body: 'You have earned a new badge.',
+        };
+
+        expect(classifyCertificateEmail(message).score).toBe(2.5);
+        expect(classifyCertificateEmail(message, DEFAULT_CLASSIFIER_THRESHOLD).accepted).toBe(false);
+        expect(classifyCertificateEmail(message, 2.5).accepted).toBe(true);
+    });
+});
+
+describe('isCertificateCandidate', () => {
+    it('keeps weak but positive messages so their attachments are read', () => {
+        expect(isCertificateCandidate({ subject: 'Your results', from: 'exams@example.org', body: 'You have earned a credential.' })).toBe(true);
+    });
+
+    it('drops promotions', () => {
+        expect(isCertificateCandidate(udemySale)).toBe(false);
+    });
+});
@@ -0,0 +1,117 @@
+import type { CertificateClassification, EmailMessage } from '../types';
+import { findIssuerParser, getSenderDomain } from './issuerParsers';
+import { detectLanguage, LOCALE_PACKS } from './localePacks';
+
+export const DEFAULT_CLASSIFIER_THRESHOLD = 3;
+export const MIN_CLASSIFIER_THRESHOLD = 0; // lowest threshold settings allow
+
+export interface ClassificationResult extends CertificateClassification {
+    accepted: boolean;
+}
+
+interface Signal {
+    pattern: RegExp;
+    weight: number;
+    reason: string;
+}
+
+const SUBJECT_SIGNALS: Signal[] = [
+    { pattern: /certificate (of (completion|achievement)|is ready|earned|issued)/i, weight: 3, reason: 'subject announces a certificate' },
+    { pattern: /you('ve| have)? (successfully )?(completed|earned|passed|achieved)/i, weight: 2.5, reason: 'subject reports a completion' },
+    { pattern: /\bcomplet(ing|ion)\b/i, weight: 1.5, reason: 'subject mentions completion' },
+    { pattern: /congratulations/i, weight: 1.5, reason: 'subject congratulates' },
+    { pattern: /\b(badge|credential|certified)\b/i, weight: 1.5, reason: 'subject mentions a badge or credential' },
+    { pattern: /\b\d{1,2}\s?% off\b|\bsale\b|\bdiscount\b|\bdeal(s)?\b|\bcoupon\b/i, weight: -4, reason: 'subject is a promotion' },
+    { pattern: /limited time|last chance|ends (today|tonight|soon)|don't miss|enroll now|sign up|register now|free trial/i, weight: -3, reason: 'subject is a call to enroll' },
+    { pattern: /newsletter|digest|weekly|webinar|recommended for you|top courses/i, weight: -3, reason: 'subject looks like a newsletter' },
+    { pattern: /^(get|earn|start) (your|a) (certificate|certification)/i, weight: -2, reason: 'subject advertises a certificate' },
+];
+
+const BODY_SIGNALS: Signal[] = [
+    { pattern: /(has|have) (successfully )?completed|you('ve| have) earned|is hereby awarded|this certifies that/i, weight: 2, reason: 'body confirms completion' },
+    { pattern: /credential id|certificate (id|number)|validation number|verify (this|your) (certificate|credential)/i, weight: 2, reason: 'body includes a credential id or verification' },
+    { pattern: /(download|view|share) your (certificate|badge|credential)/i, weight: 1.5, reason: 'body links to the certificate' },
+    { pattern: /add (it )?to (your )?linkedin|share (it )?on linkedin/i, weight: 1, reason: 'body suggests sharing the achievement' },
+    { pattern: /promo(tion)? code|use code|\d{1,2}\s?% off|save \$\d+|lowest price|black friday|cyber monday/i, weight: -3, reason: 'body contains a promotion' },
+    { pattern: /view (this email )?in (your )?browser|you are receiving this (email|because)/i, weight: -1, reason: 'body has bulk-mail boilerplate' },
+];
+
+const MARKETING_SENDER = /^(news|newsletter|marketing|promo(tions)?|offers|deals|info|hello|team)@|@(news|marketing|promo|offers)\./i;
+const NOREPLY_SENDER = /no-?reply|do-?not-?reply|notifications?@/i;
+const CERTIFICATE_ATTACHMENT = /^(application\/pdf|image\/(png|svg\+xml))$/;
+
+/**
+ * Score how likely an email is to be a genuine certificate rather than
+ * marketing. Positive weights push towards certificate, negative towards promo.
+ */
+export function classifyCertificateEmail(
+    message: Pick<EmailMessage, 'subject' | 'body' | 'from'> & Partial<EmailMessage>,
+    threshold: number = DEFAULT_CLASSIFIER_THRESHOLD
+): ClassificationResult {
+    let score = 0;
+    const reasons: string[] = [];
+
+    const apply = (weight: number, reason: string) => {
+        score += weight;
+        reasons.push(`${weight > 0 ? '+' : ''}${weight} ${reason}`);
+    };
+
+    // Sender reputation
+    const domain = getSenderDomain(message.from);
+    if (findIssuerParser(message.from)) {
+        apply(2, `sender ${domain} is a known issuer`);
+    }
+    const address = message.from.match(/<([^>]+)>/)?.[1] || message.from;
+    if (MARKETING_SENDER.test(address)) {
+        apply(-1.5, 'sender is a marketing address');
+    } else if (NOREPLY_SENDER.test(address)) {
+        apply(0.5, 'sender is a transactional address');
+    }
+
+    // Subject patterns
+    for (const signal of SUBJECT_SIGNALS) {
+        if (signal.pattern.test(message.subject)) {
+            apply(signal.weight, signal.reason);
+        }
+    }
+
+    // Unsubscribe headers are common on marketing mail and rare on transactional mail
+    if (message.listUnsubscribe) {
+        apply(-1.5, 'has a List-Unsubscribe header');
+    }
+
+    // Body phrases
+    const body = message.body || message.snippet || '';
+    for (const signal of BODY_SIGNALS) {
+        if (signal.pattern.test(body)) {
+            apply(signal.weight, signal.reason);
+        }
+    }
+
+    // The signals above are English; other languages score through their locale pack
+    const pack = LOCALE_PACKS[detectLanguage(`${message.subject}\n${body}`)];
+    if (pack.subjectPattern?.test(message.subject)) {
+        apply(2.5, `subject announces a certificate (${pack.name})`);
+    }
+    if (pack.bodyPattern?.test(body)) {
+        apply(2, `body confirms completion (${pack.name})`);
+    }
+
+    // Attachment presence
+    if (message.attachments?.some(attachment => CERTIFICATE_ATTACHMENT.test(attachment.mimeType))) {
+        apply(2, 'has a PDF or image attachment');
+    }
+
+    score = Math.round(score * 10) / 10;
+    return { score, reasons, accepted: score >= threshold };
+}
+
+/**
+ * Whether a message could pass the classifier at any threshold the settings
+ * allow. Attachments are only downloaded for these messages.
+ */
+export function isCertificateCandidate(
+    message: Pick<EmailMessage, 'subject' | 'body' | 'from'> & Partial<EmailMessage>
+): boolean {
+    return classifyCertificateEmail(message, MIN_CLASSIFIER_THRESHOLD).accepted;
+}
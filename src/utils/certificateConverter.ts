@@ -0,0 +1,218 @@
+import type { Certificate, CertificateLanguage, CertificateSource, EmailMessage, SkillDefinition } from '../types';
+import { EXTRACTED_FIELDS } from './aiExtraction';
+import { classifyCertificateEmail, DEFAULT_CLASSIFIER_THRESHOLD } from './certificateClassifier';
+import { extractExpiryDate, toIsoDate } from './dates';
+import { labelledDate, parseWithIssuer } from './issuerParsers';
+import { pickLink } from './linkClassifier';
+import { detectLanguage, extractLocalizedTitle, LOCALE_PACKS } from './localePacks';
+import { applyOpenBadge, parseBadgeAssertion } from './openBadges';
+import { buildSkillTaxonomy, extractSkills, getSkillSources } from './skillTaxonomy';
+
+export interface ConvertOptions {
+    minScore?: number;
+    customSkills?: SkillDefinition[];
+    source?: CertificateSource; // where the messages came from, recorded on each certificate
+}
+
+/**
+ * Convert email messages from any source to certificate objects, dropping
+ * emails that score below `minScore` on the certificate classifier.
+ * `customSkills` extend the built-in skill taxonomy.
+ */
+export function convertToCertificates(messages: EmailMessage[], options: ConvertOptions = {}): Certificate[] {
+    const { minScore = DEFAULT_CLASSIFIER_THRESHOLD, customSkills = [], source = 'gmail' } = options;
+    const certificates: Certificate[] = [];
+    const taxonomy = buildSkillTaxonomy(customSkills);
+
+    for (const message of messages) {
+        const classification = classifyCertificateEmail(message, minScore);
+        if (!classification.accepted) {
+            continue;
+        }
+
+        // Attachment text counts as part of the email for every extractor
+        const content = message.attachmentText ? `${message.body}\n${message.attachmentText}` : message.body;
+
+        const receivedAt = toIsoDate(message.date);
+        const language = detectLanguage(`${message.subject}\n${message.body}`);
+        const certificate: Certificate = {
+            id: `cert_${message.id}`,
+            title: extractLocalizedTitle(message.subject, language) || extractCertificateTitle(message.subject),
+            issuer: extractIssuer(message.from),
+            issuedAt: receivedAt || '',
+            description: extractDescription(message.body, message.snippet, language),
+            skills: extractSkills(getSkillSources(message.subject, message.body, message.attachmentText), taxonomy),
+            emailId: message.id,
+            emailReceivedAt: receivedAt,
+            threadId: message.threadId,
+            source,
+            language,
+        };
+
+        const certificateFile = message.attachments?.find(attachment =>
+            attachment.mimeType === 'application/pdf' || /\.pdf$/i.test(attachment.filename)
+        );
+        if (certificateFile) {
+            certificate.attachment = {
+                messageId: message.id,
+                filename: certificateFile.filename,
+                mimeType: certificateFile.mimeType,
+                partId: certificateFile.partId,
+                attachmentId: certificateFile.attachmentId,
+            };
+        }
+
+        if (message.attachmentText) {
+            const pdfFields = extractPdfFields(message.attachmentText);
+            certificate.title = pdfFields.course || certificate.title;
+            certificate.issuedAt = toIsoDate(pdfFields.date) || certificate.issuedAt;
+            certificate.recipientName = pdfFields.recipient;
+        }
+
+        // Issuer-specific parsers override the heuristics for the fields they find.
+        // Link targets are added because HTML emails often only show "View certificate".
+        const linkUrls = message.links?.map(link => link.url).join('\n');
+        const parsed = parseWithIssuer({ ...message, body: linkUrls ? `${content}\n${linkUrls}` : content });
+        if (parsed) {
+            const { parser, fields } = parsed;
+            certificate.title = fields.title || certificate.title;
+            certificate.issuer = fields.issuer || parser.issuer;
+            certificate.issuedAt = toIsoDate(fields.issueDate) || certificate.issuedAt;
+            certificate.credentialId = fields.credentialId;
+            certificate.verificationUrl = fields.verificationUrl;
+            certificate.expiresAt = toIsoDate(fields.expiryDate);
+            certificate.instructor = fields.instructor;
+            certificate.parsedBy = parser.id;
+        }
+
+        certificate.expiresAt = certificate.expiresAt || extractExpiryDate(content, certificate.issuedAt);
+        certificate.verificationUrl = certificate.verificationUrl || pickLink(message.links, 'verification');
+        certificate.courseUrl = pickLink(message.links, 'course');
+
+        // A signed badge assertion beats anything guessed from the email text
+        const badge = message.badgeAssertion ? parseBadgeAssertion(message.badgeAssertion) : null;
+        if (badge) {
+            Object.assign(certificate, applyOpenBadge(certificate, badge));
+        }
+
+        certificate.fieldSources = Object.fromEntries(EXTRACTED_FIELDS
+            .filter(field => certificate[field] !== undefined && certificate[field] !== '')
+            .map(field => [field, 'heuristic']));
+
+        certificate.classification = {
+            score: classification.score,
+            reasons: classification.reasons,
+        };
+        certificates.push(certificate);
+    }
+
+    return certificates;
+}
+
+/**
+ * Extract recipient, course and date from certificate PDF text
+ */
+function extractPdfFields(text: string): { recipient?: string; course?: string; date?: string } {
+    const firstMatch = (patterns: RegExp[]) => {
+        for (const pattern of patterns) {
+            const match = text.match(pattern);
+            if (match && match[1]) {
+                return match[1].trim().replace(/[.,;:]+$/, '');
+            }
+        }
+        return undefined;
+    };
+
+    return {
+        recipient: firstMatch([
+            /(?:this is to certify that|certif(?:y|ies) that|presented to|awarded to|granted to)\s*\n?\s*([A-Z\u00C0-\u017F][^\n]{1,60})/i,
+        ]),
+        course: firstMatch([
+            /(?:successfully completed|has completed|for completing|completion of)\s*(?:the\s+)?(?:course\s+|program\s+)?\n?\s*["“]?([^\n"”]{3,120})/i,
+            /(?:course|program|certification)\s*:\s*([^\n]{3,120})/i,
+        ]),
+        date: labelledDate(text, ['Date', 'Issued on', 'Issued', 'Completed on', 'Awarded on']),
+    };
+}
+
+/**
+ * Extract certificate title from email subject
+ */
+function extractCertificateTitle(subject: string): string {
+    // Remove common prefixes and clean up
+    let cleaned = subject
+        .replace(/^(Re:|Fwd?:|Congratulations!?)/i, '')
+        .replace(/certificate of completion/i, '')
+        .replace(/you have completed/i, '')
+        .replace(/course completion/i, '')
+        .replace(/training completed/i, '')
+        .trim();
+
+    // Extract course/certification name
+    const patterns = [
+        /completed\s+(.+?)(?:\s+course|\s+training|\s+certification|$)/i,
+        /certificate\s+(?:of\s+)?(.+?)(?:\s+course|\s+training|$)/i,
+        /(.+?)\s+certificate/i,
+        /(.+?)\s+completion/i,
+    ];
+
+    for (const pattern of patterns) {
+        const match = cleaned.match(pattern);
+        if (match && match[1]) {
+            cleaned = match[1].trim();
+            break;
+        }
+    }
+
+    return cleaned || 'Certificate';
+}
+
+/**
+ * Extract issuer from email address
+ */
+function extractIssuer(from: string): string {
+    // Try to extract name before email
+    const nameMatch = from.match(/^([^<]+)</);
+    if (nameMatch) {
+        const name = nameMatch[1].trim().replace(/"/g, '');
+        if (name && !name.includes('@')) {
+            return name;
+        }
+    }
+
+    // Extract domain or organization name
+    const emailMatch = from.match(/<(.+@(.+))>/) || from.match(/(.+@(.+))/);
+    if (emailMatch) {
+        const domain = emailMatch[2];
+        const orgName = domain.split('.')[0];
+        return orgName.charAt(0).toUpperCase() + orgName.slice(1);
+    }
+
+    return from;
+}
+
+/**
+ * Extract description from email body and snippet
+ */
+function extractDescription(body: string, snippet: string, language: CertificateLanguage): string {
+    // Use snippet if body is too long or empty
+    if (!body || body.length > 500) {
+        return snippet.length > 150 ? snippet.substring(0, 150) + '...' : snippet;
+    }
+
+    // Extract relevant parts from body
+    // English keywords still apply: localized emails often keep English course names
+    const keywords = [...new Set([...LOCALE_PACKS.en.descriptionKeywords, ...LOCALE_PACKS[language].descriptionKeywords])];
+    const sentences = body.split(/[.!?।]+/).filter(s => s.trim().length > 10);
+    const relevantSentences = sentences.filter(sentence => {
+        const lower = sentence.toLowerCase();
+        return keywords.some(keyword => lower.includes(keyword));
+    });
+
+    if (relevantSentences.length > 0) {
+        const description = relevantSentences.slice(0, 2).join('. ').trim();
+        return description.length > 200 ? description.substring(0, 200) + '...' : description;
+    }
+
+    return snippet.length > 150 ? snippet.substring(0, 150) + '...' : snippet;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { Certificate } from '../types';
+import { collectEmailIds, dedupeCertificates, isDuplicate, mergeCertificates, splitCertificate, titleSimilarity } from './certificateDedup';
+
+function certificate(overrides: Partial<Certificate>): Certificate {
+    return {
+        id: 'cert-1',
+        title: 'Machine Learning Specialization',
+        issuer: 'Coursera',
+        issuedAt: '2024-05-14',
+        description: '',
+        skills: [],
+        emailId: 'msg-1',
+        ...overrides,
+    };
+}
+
+describe('titleSimilarity', () => {
+    it('ignores the filler words that differ between emails for one course', () => {
+        expect(titleSimilarity(
+            'Your Certificate of Completion: Machine Learning Specialization',
+            'Congratulations! You completed Machine Learning Specialization'
+        )).toBe(1);
+    });
+
+    it('is zero when a title has no content words', () => {
+        expect(titleSimilarity('Your certificate is ready', 'Machine Learning')).toBe(0);
+    });
+});
+
+describe('isDuplicate', () => {
+    const ready = certificate({ id: 'a', title: 'Your certificate for Machine Learning Specialization is ready', emailReceivedAt: '2024-05-14T16:02:11Z' });
+    const share = certificate({ id: 'b', emailId: 'msg-2', title: 'Share your Machine Learning Specialization certificate', emailReceivedAt: '2024-05-20T09:00:00Z' });
+
+    it('matches the same title from the same issuer within two weeks', () => {
+        expect(isDuplicate(ready, share)).toBe(true);
+    });
+
+    it('requires the same issuer', () => {
+        expect(isDuplicate(ready, { ...share, issuer: 'DeepLearning.AI' })).toBe(false);
+    });
+
+    it('trusts credential ids over titles when both have one', () => {
+        expect(isDuplicate({ ...ready, credentialId: 'ABC123' }, { ...share, title: 'ML', credentialId: 'ABC123' })).toBe(true);
+        expect(isDuplicate({ ...ready, credentialId: 'ABC123' }, { ...share, credentialId: 'XYZ789' })).toBe(false);
+    });
+
+    it('does not merge different courses that share a Gmail thread', () => {
+        expect(isDuplicate(
+            { ...ready, threadId: 'thread-1' },
+            { ...share, title: 'Deep Learning Specialization', threadId: 'thread-1' }
+        )).toBe(false);
+    });
+
+    it('lets a shared thread stand in for close dates', () => {
+        const months = { ...share, emailReceivedAt: '2024-09-01T09:00:00Z' };
+
+        expect(isDuplicate(ready, months)).toBe(false);
+        expect(isDuplicate({ ...ready, threadId: 'thread-1' }, { ...months, threadId: 'thread-1' })).toBe(true);
+    });
+
+    it('respects certificates the user split apart', () => {
+        expect(isDuplicate({ ...ready, notDuplicateOf: ['b'] }, share)).toBe(false);
+    });
+});
+
+describe('mergeCertificates', () => {
+    it('fills missing fields, combines skills and keeps snapshots for a split', () => {
+        const stored = certificate({ id: 'a', skills: ['Python'], credentialId: undefined });
+        const duplicate = certificate({ id: 'b', emailId: 'msg-2', skills: ['Python', 'Regression'], credentialId: 'ABC123' });
+
+        const merged = mergeCertificates(stored, duplicate);
+
+        expect(merged.id).toBe('a');
+        expect(merged.credentialId).toBe('ABC123');
+        expect(merged.skills).toEqual(['Python', 'Regression']);
+        expect(merged.sourceEmailIds).toEqual(['msg-1', 'msg-2']);
+        expect(merged.mergeStatus).toBe('pending');
+        expect(splitCertificate(merged).map(part => [part.id, part.notDuplicateOf])).toEqual([['a', ['b']], ['b', ['a']]]);
+    });
+
+    it('keeps a title the user edited', () => {
+        const stored = certificate({ id: 'a', title: 'ML Specialization', fieldSources: { title: 'user' } });
+        const duplicate = certificate({ id: 'b', title: 'Machine Learning Specialization', attachment: { messageId: 'msg-2', filename: 'cert.pdf', mimeType: 'application/pdf' } });
+
+        expect(mergeCertificates(stored, duplicate).title).toBe('ML Specialization');
+    });
+});
+
+describe('dedupeCertificates', () => {
+    it('merges incoming duplicates and skips emails already stored', () => {
+        const stored = certificate({ id: 'a' });
+        const result = dedupeCertificates([stored], [
+            certificate({ id: 'b', emailId: 'msg-2' }),
+            certificate({ id: 'c', emailId: 'msg-1' }),
+            certificate({ id: 'd', emailId: 'msg-3', title: 'AWS Certified Cloud Practitioner', issuer: 'Amazon Web Services' }),
+        ]);
+
+        expect(result.merged).toBe(1);
+        expect(result.added.map(added => added.id)).toEqual(['d']);
+        expect(result.certificates.map(kept => kept.id)).toEqual(['a', 'd']);
+        expect(collectEmailIds(result.certificates)).toEqual(new Set(['msg-1', 'msg-2', 'msg-3']));
+    });
+
+    it('does not undo a merge when one of its emails is scanned again', () => {
+        const merged = mergeCertificates(certificate({ id: 'a' }), certificate({ id: 'b', emailId: 'msg-2' }));
+        const result = dedupeCertificates([merged], [certificate({ id: 'a', title: 'Rescanned title' })]);
+
+        expect(result.certificates).toEqual([merged]);
+    });
+});
@@ -0,0 +1,176 @@
+import type { Certificate, DedupeResult, EditableField } from '../types';
+import { isUserEdited, preserveUserEdits } from './certificateEdits';
+import { parseIsoDate } from './dates';
+
+const TITLE_SIMILARITY_THRESHOLD = 0.75;
+const MAX_DAYS_APART = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that vary between the "you completed", "certificate ready" and "share" emails for one course
+const FILLER_WORDS = new Set([
+    'a', 'an', 'the', 'your', 'you', 'have', 'has', 'is', 'are', 'for', 'of', 'on', 'in', 'to', 'now', 'and',
+    'certificate', 'certification', 'completion', 'completed', 'complete', 'course', 'ready', 'share',
+    'achievement', 'congratulations', 'congrats', 'earned', 'award', 'awarded', 'successfully', 'new',
+]);
+
+/**
+ * Lower-cased content words of a certificate title
+ */
+export function titleTokens(title: string): string[] {
+    return title
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}+#]+/gu, ' ')
+        .split(' ')
+        .filter(token => token && !FILLER_WORDS.has(token));
+}
+
+/**
+ * Dice coefficient over title tokens, 0 (nothing shared) to 1 (same words)
+ */
+export function titleSimilarity(a: string, b: string): number {
+    const tokensA = new Set(titleTokens(a));
+    const tokensB = new Set(titleTokens(b));
+    if (tokensA.size === 0 || tokensB.size === 0) {
+        return 0;
+    }
+    const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+    return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/**
+ * Whether two certificates describe the same achievement: the issuer must
+ * agree, then the credential id or the title. A shared Gmail thread only
+ * stands in for close dates, as Gmail threads unrelated emails by subject.
+ */
+export function isDuplicate(a: Certificate, b: Certificate): boolean {
+    if (a.id === b.id || a.notDuplicateOf?.includes(b.id) || b.notDuplicateOf?.includes(a.id)) {
+        return false;
+    }
+    if (a.issuer.trim().toLowerCase() !== b.issuer.trim().toLowerCase()) {
+        return false;
+    }
+    if (a.credentialId && b.credentialId) {
+        return a.credentialId === b.credentialId;
+    }
+    if (titleSimilarity(a.title, b.title) < TITLE_SIMILARITY_THRESHOLD) {
+        return false;
+    }
+    return (!!a.threadId && a.threadId === b.threadId) || datesClose(a, b);
+}
+
+function datesClose(a: Certificate, b: Certificate): boolean {
+    const dateA = parseIsoDate(a.emailReceivedAt || a.issuedAt);
+    const dateB = parseIsoDate(b.emailReceivedAt || b.issuedAt);
+    if (!dateA || !dateB) {
+        return true;
+    }
+    return Math.abs(dateA.getTime() - dateB.getTime()) <= MAX_DAYS_APART * DAY_MS;
+}
+
+/**
+ * Merge a duplicate into a certificate. The certificate keeps its own fields
+ * and only borrows what it is missing; skills and source emails are combined.
+ */
+export function mergeCertificates(certificate: Certificate, duplicate: Certificate): Certificate {
+    const merged: Certificate = { ...certificate };
+
+    for (const key of Object.keys(duplicate) as (keyof Certificate)[]) {
+        const isEmpty = merged[key] === undefined || merged[key] === '';
+        if (isEmpty && !isUserEdited(certificate, key as EditableField)) {
+            Object.assign(merged, { [key]: duplicate[key] });
+        }
+    }
+
+    // A title read from the certificate itself beats one cut out of a subject line
+    if (!certificate.attachment && duplicate.attachment && !isUserEdited(certificate, 'title')) {
+        merged.title = duplicate.title;
+    }
+
+    if (!isUserEdited(certificate, 'skills')) {
+        merged.skills = [...new Set([...certificate.skills, ...duplicate.skills])];
+    }
+    merged.sourceEmailIds = [...new Set([
+        ...(certificate.sourceEmailIds || [certificate.emailId]),
+        ...(duplicate.sourceEmailIds || [duplicate.emailId]),
+    ])].filter(Boolean);
+    merged.mergedCertificates = [
+        ...(certificate.mergedCertificates || [toSnapshot(certificate)]),
+        ...(duplicate.mergedCertificates || [toSnapshot(duplicate)]),
+    ];
+    merged.mergeStatus = 'pending';
+    return merged;
+}
+
+// The certificate as it was scanned, before any merge
+function toSnapshot(certificate: Certificate): Certificate {
+    const snapshot = { ...certificate };
+    delete snapshot.mergedCertificates;
+    delete snapshot.sourceEmailIds;
+    delete snapshot.mergeStatus;
+    return snapshot;
+}
+
+/**
+ * Fold incoming certificates into the stored list, merging duplicates both
+ * against stored certificates and among themselves
+ */
+export function dedupeCertificates(existing: Certificate[], incoming: Certificate[]): DedupeResult {
+    const certificates = [...existing];
+    const added: Certificate[] = [];
+    let merged = 0;
+
+    for (const certificate of incoming) {
+        const sameId = certificates.findIndex(c => c.id === certificate.id);
+        if (sameId >= 0) {
+            // Rescanning a merged certificate's own email must not undo the merge or the user's edits
+            const stored = certificates[sameId];
+            if (!stored.mergedCertificates) {
+                certificates[sameId] = { ...preserveUserEdits(certificate, stored), notDuplicateOf: stored.notDuplicateOf };
+            }
+            continue;
+        }
+        if (collectEmailIds(certificates).has(certificate.emailId)) {
+            continue;
+        }
+
+        const duplicateIndex = certificates.findIndex(c => isDuplicate(c, certificate));
+        if (duplicateIndex >= 0) {
+            certificates[duplicateIndex] = mergeCertificates(certificates[duplicateIndex], certificate);
+            merged++;
+            continue;
+        }
+
+        certificates.push(certificate);
+        added.push(certificate);
+    }
+
+    return { certificates, added, merged };
+}
+
+/**
+ * Undo a merge: every certificate that went into it comes back as scanned,
+ * marked so they are not merged with each other again
+ */
+export function splitCertificate(certificate: Certificate): Certificate[] {
+    const parts = certificate.mergedCertificates || [certificate];
+    const ids = parts.map(part => part.id);
+
+    return parts.map(part => ({
+        ...part,
+        notDuplicateOf: [...new Set([...(part.notDuplicateOf || []), ...ids.filter(id => id !== part.id)])],
+    }));
+}
+
+/**
+ * Accept a merge so it no longer shows up for review
+ */
+export function confirmMerge(certificate: Certificate): Certificate {
+    return { ...certificate, mergeStatus: 'confirmed' };
+}
+
+/**
+ * All email ids a list of certificates was built from
+ */
+export function collectEmailIds(certificates: Certificate[]): Set<string> {
+    return new Set(certificates.flatMap(certificate => certificate.sourceEmailIds || [certificate.emailId]));
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Certificate, CertificateDraft } from '../types';
+import { applyUserEdits, createManualCertificate, isUserEdited, preserveUserEdits } from './certificateEdits';
+
+const STORED: Certificate = {
+    id: 'gmail_18c2f',
+    title: 'Machine Learning Specialization',
+    issuer: 'Coursera',
+    issuedAt: '2024-03-04',
+    description: 'Completed the specialization.',
+    skills: ['Machine Learning', 'Python'],
+    emailId: '18c2f',
+    fieldSources: { title: 'heuristic', issuer: 'ai', skills: 'heuristic' },
+};
+
+function draftOf(certificate: Certificate, overrides: Partial<CertificateDraft> = {}): CertificateDraft {
+    const { title, issuer, issuedAt, description, skills, expiresAt, credentialId, verificationUrl } = certificate;
+    return { title, issuer, issuedAt, description, skills, expiresAt, credentialId, verificationUrl, ...overrides };
+}
+
+describe('applyUserEdits', () => {
+    it('marks only the fields that changed as user-entered', () => {
+        const edited = applyUserEdits(STORED, draftOf(STORED, { issuer: ' DeepLearning.AI ', credentialId: 'ABC123' }));
+
+        expect(edited.issuer).toBe('DeepLearning.AI');
+        expect(edited.credentialId).toBe('ABC123');
+        expect(edited.fieldSources).toEqual({ title: 'heuristic', issuer: 'user', skills: 'heuristic', credentialId: 'user' });
+    });
+
+    it('does not count whitespace, duplicate skills or an emptied optional field as an edit', () => {
+        const edited = applyUserEdits(STORED, draftOf(STORED, {
+            title: 'Machine Learning Specialization  ',
+            skills: ['Machine Learning', 'Python', 'Python', ' '],
+            verificationUrl: '',
+        }));
+
+        expect(edited).toEqual(STORED);
+    });
+});
+
+describe('preserveUserEdits', () => {
+    it('keeps the user’s fields and takes the rest from the rescan', () => {
+        const edited = applyUserEdits(STORED, draftOf(STORED, { title: 'Machine Learning (Stanford)' }));
+        const rescanned: Certificate = { ...STORED, title: 'Your certificate is ready', skills: ['Machine Learning'], fieldSources: { title: 'ai' } };
+
+        const preserved = preserveUserEdits(rescanned, edited);
+
+        expect(preserved.title).toBe('Machine Learning (Stanford)');
+        expect(preserved.skills).toEqual(['Machine Learning']);
+        expect(isUserEdited(preserved, 'title')).toBe(true);
+        expect(isUserEdited(preserved, 'skills')).toBe(false);
+    });
+});
+
+describe('createManualCertificate', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('records every filled-in field as user-entered', () => {
+        vi.useFakeTimers({ now: 1717243200000, toFake: ['Date'] });
+
+        const certificate = createManualCertificate({
+            title: 'Speaker, ReactConf 2024',
+            issuer: 'ReactConf',
+            issuedAt: '2024-05-15',
+            description: '',
+            skills: ['React'],
+        });
+
+        expect(certificate).toMatchObject({ id: 'manual_1717243200000', emailId: '', source: 'manual' });
+        expect(certificate.fieldSources).toEqual({ title: 'user', issuer: 'user', issuedAt: 'user', skills: 'user' });
+    });
+});
@@ -0,0 +1,88 @@
+import type { Certificate, CertificateDraft, EditableField } from '../types';
+
+export const EDITABLE_FIELDS: EditableField[] = [
+    'title', 'issuer', 'issuedAt', 'expiresAt', 'credentialId', 'verificationUrl', 'skills', 'description',
+];
+
+/**
+ * Build a certificate entered by hand, e.g. a conference talk or a paper
+ * certificate. Every field counts as user-entered.
+ */
+export function createManualCertificate(draft: CertificateDraft): Certificate {
+    const certificate: Certificate = {
+        ...cleanDraft(draft),
+        id: `manual_${Date.now()}`,
+        emailId: '',
+        source: 'manual',
+    };
+    certificate.fieldSources = Object.fromEntries(EDITABLE_FIELDS
+        .filter(field => hasValue(certificate[field]))
+        .map(field => [field, 'user']));
+    return certificate;
+}
+
+/**
+ * Apply edits from the form. Only fields whose value changed are marked as
+ * user-entered, so untouched fields can still be refreshed by a rescan.
+ */
+export function applyUserEdits(certificate: Certificate, draft: CertificateDraft): Certificate {
+    const cleaned = cleanDraft(draft);
+    const updated: Certificate = { ...certificate, fieldSources: { ...certificate.fieldSources } };
+
+    for (const field of EDITABLE_FIELDS) {
+        if (sameValue(certificate[field], cleaned[field])) {
+            continue;
+        }
+        Object.assign(updated, { [field]: cleaned[field] });
+        updated.fieldSources = { ...updated.fieldSources, [field]: 'user' };
+    }
+
+    return updated;
+}
+
+/**
+ * Carry the user's edits over to a freshly scanned version of a certificate
+ */
+export function preserveUserEdits(scanned: Certificate, stored: Certificate): Certificate {
+    const preserved: Certificate = { ...scanned, fieldSources: { ...scanned.fieldSources } };
+
+    for (const field of EDITABLE_FIELDS) {
+        if (stored.fieldSources?.[field] === 'user') {
+            Object.assign(preserved, { [field]: stored[field] });
+            preserved.fieldSources = { ...preserved.fieldSources, [field]: 'user' };
+        }
+    }
+
+    return preserved;
+}
+
+/**
+ * Whether the user has edited a field by hand
+ */
+export function isUserEdited(certificate: Certificate, field: EditableField): boolean {
+    return certificate.fieldSources?.[field] === 'user';
+}
+
+function cleanDraft(draft: CertificateDraft): CertificateDraft {
+    return {
+        title: draft.title.trim(),
+        issuer: draft.issuer.trim(),
+        issuedAt: draft.issuedAt,
+        description: draft.description.trim(),
+        skills: [...new Set(draft.skills.map(skill => skill.trim()).filter(Boolean))],
+        expiresAt: draft.expiresAt || undefined,
+        credentialId: draft.credentialId?.trim() || undefined,
+        verificationUrl: draft.verificationUrl?.trim() || undefined,
+    };
+}
+
+function hasValue(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== '';
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => item === b[index]);
+    }
+    return (a || undefined) === (b || undefined);
+}
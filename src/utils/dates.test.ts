@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { extractExpiryDate, formatDisplayDate, parseIsoDate, toIsoDate } from './dates';
+
+describe('toIsoDate', () => {
+    it('keeps calendar dates without a time as YYYY-MM-DD', () => {
+        expect(toIsoDate('2024-03-04')).toBe('2024-03-04');
+        expect(toIsoDate(' March 3, 2027 ')).toBe('2027-03-03');
+        expect(toIsoDate('4 Mar 2024')).toBe('2024-03-04');
+    });
+
+    it('turns timestamps into full UTC ISO strings', () => {
+        expect(toIsoDate('2024-01-01T10:15:00Z')).toBe('2024-01-01T10:15:00.000Z');
+        expect(toIsoDate('Mon, 4 Mar 2024 09:12:44 +0000')).toBe('2024-03-04T09:12:44.000Z');
+    });
+
+    it('drops empty and unreadable values', () => {
+        expect(toIsoDate(undefined)).toBeUndefined();
+        expect(toIsoDate('   ')).toBeUndefined();
+        expect(toIsoDate('no expiry')).toBeUndefined();
+    });
+});
+
+describe('parseIsoDate', () => {
+    it('reads date-only values in local time so the day does not shift', () => {
+        const date = parseIsoDate('2024-03-04');
+        expect([date?.getFullYear(), date?.getMonth(), date?.getDate()]).toEqual([2024, 2, 4]);
+    });
+
+    it('reads timestamps as instants', () => {
+        expect(parseIsoDate('2024-03-04T09:12:44.000Z')?.getTime()).toBe(Date.UTC(2024, 2, 4, 9, 12, 44));
+    });
+
+    it('returns null for missing or invalid dates', () => {
+        expect(parseIsoDate(undefined)).toBeNull();
+        expect(parseIsoDate('not a date')).toBeNull();
+    });
+});
+
+describe('formatDisplayDate', () => {
+    it('formats in the given locale', () => {
+        expect(formatDisplayDate('2024-03-04', 'en-US')).toBe('Mar 4, 2024');
+        expect(formatDisplayDate('2024-03-04', 'de-DE')).toBe('4. März 2024');
+    });
+
+    it('shows nothing for a missing date', () => {
+        expect(formatDisplayDate(undefined)).toBe('');
+    });
+});
+
+describe('extractExpiryDate', () => {
+    it('reads an expiry date stated in the text', () => {
+        expect(extractExpiryDate('Your credential is active.\nExpiration date: March 3, 2027')).toBe('2027-03-03');
+    });
+
+    it('adds a validity period to the issue date', () => {
+        expect(extractExpiryDate('This certification is valid for three years.', '2024-03-04')).toBe('2027-03-04');
+        expect(extractExpiryDate('Valid for 18 months from the date of issue.', '2024-03-04')).toBe('2025-09-04');
+    });
+
+    it('needs an issue date for a validity period', () => {
+        expect(extractExpiryDate('This certification is valid for two years.')).toBeUndefined();
+        expect(extractExpiryDate('Congratulations on completing the course!', '2024-03-04')).toBeUndefined();
+    });
+});
@@ -0,0 +1,83 @@
+import { labelledDate } from './issuerParsers';
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Normalise a parsed date string to ISO. Calendar dates without a time become
+ * `YYYY-MM-DD` so they don't shift a day when read back in another timezone;
+ * anything with a time becomes a full UTC timestamp.
+ */
+export function toIsoDate(value: string | undefined | null): string | undefined {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+    if (DATE_ONLY.test(trimmed)) {
+        return trimmed;
+    }
+
+    const date = new Date(trimmed);
+    if (isNaN(date.getTime())) {
+        return undefined;
+    }
+
+    return /\d:\d{2}/.test(trimmed) ? date.toISOString() : toDateOnly(date);
+}
+
+function toDateOnly(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse an ISO date, reading date-only values in local time
+ */
+export function parseIsoDate(iso: string | undefined): Date | null {
+    if (!iso) {
+        return null;
+    }
+    const dateOnly = iso.match(DATE_ONLY);
+    const date = dateOnly
+        ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+        : new Date(iso);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a stored ISO date for display in the user's locale
+ */
+export function formatDisplayDate(iso: string | undefined, locale?: string): string {
+    const date = parseIsoDate(iso);
+    return date ? date.toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' }) : '';
+}
+
+const VALIDITY_PERIOD = /valid (?:for|through the next) (\d{1,2}|one|two|three|four|five) (year|month)s?/i;
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+/**
+ * Find an expiry date in certificate text, either stated outright
+ * ("expires on March 3, 2027") or as a validity period from the issue date
+ */
+export function extractExpiryDate(text: string, issuedAt?: string): string | undefined {
+    const stated = labelledDate(text, [
+        'Expires', 'Expiration date', 'Expiry date', 'Valid until', 'Valid through', 'Renew by',
+    ]);
+    if (stated) {
+        return toIsoDate(stated);
+    }
+
+    const period = text.match(VALIDITY_PERIOD);
+    const issued = parseIsoDate(issuedAt);
+    if (!period || !issued) {
+        return undefined;
+    }
+
+    const amount = NUMBER_WORDS[period[1].toLowerCase()] ?? Number(period[1]);
+    const expires = new Date(issued);
+    if (period[2].toLowerCase() === 'year') {
+        expires.setFullYear(expires.getFullYear() + amount);
+    } else {
+        expires.setMonth(expires.getMonth() + amount);
+    }
+    return toDateOnly(expires);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseEmlMessage, splitMbox } from './emlParser';
+
+// As Google Takeout writes it: CRLF line ends, a "From " line before each
+// message and "From " at the start of body lines escaped as ">From "
+const TAKEOUT_MBOX = [
+    'From 1799052911012345678@xxx Tue May 14 16:02:11 +0000 2024',
+    'X-GM-THRID: 1799052911012345678',
+    'From: Coursera <no-reply@coursera.org>',
+    'Subject: Your Certificate of Completion is ready',
+    '',
+    'Congratulations!',
+    '>From the whole Coursera team.',
+    '',
+    'From 1801234567890123456@xxx Mon Jun 03 09:15:00 +0000 2024',
+    'From: Credly <admin@credly.com>',
+    'Subject: You earned a badge',
+    '',
+    '>>From is quoted twice here.',
+    '',
+].join('\r\n');
+
+describe('splitMbox', () => {
+    it('splits on the "From " separator lines', () => {
+        const messages = splitMbox(TAKEOUT_MBOX);
+
+        expect(messages).toHaveLength(2);
+        expect(messages[0].startsWith('X-GM-THRID: 1799052911012345678\r\nFrom: Coursera')).toBe(true);
+        expect(messages[1].startsWith('From: Credly <admin@credly.com>')).toBe(true);
+    });
+
+    it('does not split on a From header', () => {
+        expect(splitMbox(TAKEOUT_MBOX).every(message => message.includes('\r\nSubject: '))).toBe(true);
+    });
+
+    it('undoes one level of ">From " escaping', () => {
+        const [coursera, credly] = splitMbox(TAKEOUT_MBOX);
+
+        expect(coursera).toContain('\r\nFrom the whole Coursera team.');
+        expect(credly).toContain('\r\n>From is quoted twice here.');
+    });
+
+    it('handles LF line ends and a single message', () => {
+        expect(splitMbox('From MAILER-DAEMON Thu Jan  1 00:00:00 2024\nSubject: Diploma\n\nBody\n')).toEqual([
+            'Subject: Diploma\n\nBody\n',
+        ]);
+    });
+
+    it('returns nothing for an empty file', () => {
+        expect(splitMbox('\r\n')).toEqual([]);
+    });
+});
+
+const CERTIFICATE_PDF = [
+    '%PDF-1.4',
+    '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+    '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+    '3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R >> endobj',
+    '4 0 obj << /Length 44 >>\nstream\nBT /F1 24 Tf (Certificate of Completion) Tj ET\nendstream\nendobj',
+    '%%EOF',
+].join('\n');
+
+// A baked openbadges chunk flagged as compressed that does not inflate
+const BADGE_CHUNK = 'openbadges\x00\x01\x00\x00\x00not deflate data';
+const CORRUPT_BADGE_PNG = `\x89PNG\r\n\x1a\n\x00\x00\x00${String.fromCharCode(BADGE_CHUNK.length)}iTXt${BADGE_CHUNK}\x00\x00\x00\x00`;
+
+function emlWithAttachments(...attachments: Array<{ filename: string; mimeType: string; data: string }>): string {
+    return [
+        'From: Coursera <no-reply@coursera.org>',
+        'Subject: Your Certificate of Completion is ready',
+        'Message-ID: <certificate-1@coursera.org>',
+        'Content-Type: multipart/mixed; boundary="b1"',
+        '',
+        '--b1',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        'Congratulations! You have completed Machine Learning.',
+        ...attachments.flatMap(({ filename, mimeType, data }) => [
+            '--b1',
+            `Content-Type: ${mimeType}; name="${filename}"`,
+            `Content-Disposition: attachment; filename="${filename}"`,
+            'Content-Transfer-Encoding: base64',
+            '',
+            btoa(data),
+        ]),
+        '--b1--',
+        '',
+    ].join('\r\n');
+}
+
+describe('parseEmlMessage', () => {
+    it('reads the text of attached PDFs', async () => {
+        const message = await parseEmlMessage(emlWithAttachments({ filename: 'certificate.pdf', mimeType: 'application/pdf', data: CERTIFICATE_PDF }));
+
+        expect(message.id).toBe('eml_certificate-1@coursera.org');
+        expect(message.attachments?.map(attachment => attachment.filename)).toEqual(['certificate.pdf']);
+        expect(message.attachmentText).toBe('Certificate of Completion');
+    });
+
+    it('imports the message when an attachment cannot be read', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const message = await parseEmlMessage(emlWithAttachments(
+            { filename: 'badge.png', mimeType: 'image/png', data: CORRUPT_BADGE_PNG },
+            { filename: 'certificate.pdf', mimeType: 'application/pdf', data: CERTIFICATE_PDF }
+        ));
+
+        expect(message.subject).toBe('Your Certificate of Completion is ready');
+        expect(message.attachmentText).toBe('Certificate of Completion');
+        expect(message.badgeAssertion).toBeUndefined();
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Could not read badge badge.png'), expect.anything());
+    });
+});
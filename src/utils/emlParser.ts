@@ -0,0 +1,205 @@
+import type { EmailMessage, GmailMessagePart } from '../types';
+import {
+    bytesToBinaryString,
+    collectAttachments,
+    decodeCharset,
+    decodeMimeHeader,
+    decodePartBytes,
+    extractBody,
+    getPartHeader
+} from './mimeParser';
+import { extractAttachmentContent } from './attachmentContent';
+import { classifyEmailLinks } from './linkClassifier';
+
+const MAX_SNIPPET_LENGTH = 200;
+const MBOX_SEPARATOR = /(?:^|\r?\n)From [^\r\n]*\r?\n/;
+
+/**
+ * Whether a file looks like a raw email or mailbox export
+ */
+export function isMailFile(file: File): boolean {
+    return /\.(eml|mbox|mbx)$/i.test(file.name) || file.type === 'message/rfc822' || file.type === 'application/mbox';
+}
+
+/**
+ * Read an .eml file or mbox export into email messages, so they can go
+ * through the same conversion as Gmail messages
+ */
+export async function importMailFile(file: File): Promise<EmailMessage[]> {
+    const source = bytesToBinaryString(new Uint8Array(await file.arrayBuffer()));
+    const sources = /\.(mbox|mbx)$/i.test(file.name) || source.startsWith('From ')
+        ? splitMbox(source)
+        : [source];
+
+    const messages: EmailMessage[] = [];
+    for (const raw of sources) {
+        messages.push(await parseEmlMessage(raw));
+    }
+    return messages;
+}
+
+/**
+ * Split an mbox export into raw messages, undoing ">From " escaping
+ */
+export function splitMbox(source: string): string[] {
+    return source
+        .split(MBOX_SEPARATOR)
+        .filter(raw => raw.trim().length > 0)
+        .map(raw => raw.replace(/^>(>*From )/gm, '$1'));
+}
+
+/**
+ * Parse one raw RFC 822 message. `raw` holds one character per byte.
+ */
+export async function parseEmlMessage(raw: string): Promise<EmailMessage> {
+    const payload = parseMimePart(raw, '');
+    const header = (name: string) => getPartHeader(payload, name) || '';
+    const { text: body, links } = extractBody(payload, { transferEncoded: true });
+    const attachments = collectAttachments(payload);
+    const id = messageIdFor(header('Message-ID'), raw);
+
+    return {
+        id,
+        subject: decodeMimeHeader(header('Subject')),
+        body,
+        date: header('Date'),
+        from: decodeMimeHeader(header('From')),
+        snippet: body.replace(/\s+/g, ' ').slice(0, MAX_SNIPPET_LENGTH),
+        listUnsubscribe: header('List-Unsubscribe') || undefined,
+        attachments,
+        links: classifyEmailLinks(links),
+        ...await extractAttachmentContent(attachments, async attachment => {
+            const part = findPart(payload, attachment.partId);
+            return part ? decodePartBytes(part, { transferEncoded: true }) : null;
+        }, `imported message ${id}`),
+    };
+}
+
+/**
+ * Build the same part tree the Gmail API returns. Bodies keep their
+ * transfer encoding, so they must be decoded with `transferEncoded`.
+ */
+export function parseMimePart(raw: string, partId: string): GmailMessagePart {
+    const { headers, body } = splitHeaders(raw);
+    const part: GmailMessagePart = { partId, headers };
+    const contentType = getPartHeader(part, 'Content-Type') || 'text/plain';
+    part.mimeType = contentType.split(';')[0].trim().toLowerCase();
+    part.filename = getFilename(part);
+
+    const boundary = headerParam(contentType, 'boundary');
+    if (part.mimeType.startsWith('multipart/') && boundary) {
+        part.parts = splitMultipart(body, boundary)
+            .map((child, index) => parseMimePart(child, partId ? `${partId}.${index}` : String(index)));
+    } else if (part.mimeType === 'message/rfc822' && !part.filename) {
+        // Forwarded emails: read the inner message as part of this one
+        part.parts = [parseMimePart(body, partId ? `${partId}.0` : '0')];
+    } else {
+        part.body = { data: toBase64Url(body), size: body.length };
+    }
+
+    return part;
+}
+
+function splitHeaders(raw: string): { headers: Array<{ name: string; value: string }>; body: string } {
+    const match = /\r?\n\r?\n/.exec(raw);
+    const headerText = match ? raw.slice(0, match.index) : raw;
+    const body = match ? raw.slice(match.index + match[0].length) : '';
+
+    const headers = headerText
+        .replace(/\r?\n[ \t]+/g, ' ')
+        .split(/\r?\n/)
+        .map(line => line.match(/^([^:\s]+):\s*(.*)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(([, name, value]) => ({ name, value: toUnicode(value.trim()) }));
+
+    return { headers, body };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    const parts: string[] = [];
+    let current: string[] | null = null;
+
+    for (const line of body.split(/\r?\n/)) {
+        const trimmed = line.trimEnd();
+        if (trimmed === delimiter || trimmed === `${delimiter}--`) {
+            if (current) {
+                parts.push(current.join('\n'));
+            }
+            if (trimmed.endsWith('--') && trimmed !== delimiter) {
+                return parts;
+            }
+            current = [];
+        } else if (current) {
+            current.push(line);
+        }
+    }
+
+    // A missing closing delimiter still leaves a usable last part
+    if (current) {
+        parts.push(current.join('\n'));
+    }
+    return parts;
+}
+
+function headerParam(value: string, name: string): string | null {
+    const match = value.match(new RegExp(`(?:^|;)\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+    return match ? (match[1] ?? match[2]) : null;
+}
+
+function findPart(part: GmailMessagePart, partId: string | undefined): GmailMessagePart | null {
+    if (part.partId === partId) {
+        return part;
+    }
+    for (const child of part.parts || []) {
+        const found = findPart(child, partId);
+        if (found) {
+            return found;
+        }
+    }
+    return null;
+}
+
+function getFilename(part: GmailMessagePart): string {
+    const disposition = getPartHeader(part, 'Content-Disposition') || '';
+    const contentType = getPartHeader(part, 'Content-Type') || '';
+
+    // RFC 2231: filename*=utf-8''Certificate%20of%20Completion.pdf
+    const extended = headerParam(disposition, 'filename\\*') || headerParam(contentType, 'name\\*');
+    if (extended) {
+        const encoded = extended.match(/^[^']*'[^']*'(.*)$/)?.[1] ?? extended;
+        try {
+            return decodeURIComponent(encoded);
+        } catch {
+            return encoded;
+        }
+    }
+
+    return decodeMimeHeader(headerParam(disposition, 'filename') || headerParam(contentType, 'name') || '');
+}
+
+// Importing the same file twice should produce the same certificate ids
+function messageIdFor(messageId: string, raw: string): string {
+    const id = messageId.replace(/^<|>$/g, '').trim();
+    return `eml_${(id || hashString(raw)).replace(/[^\w.@-]+/g, '_')}`;
+}
+
+function hashString(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+function toBase64Url(binary: string): string {
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Raw 8-bit header values are usually UTF-8
+function toUnicode(binary: string): string {
+    if (!/[\x80-\xff]/.test(binary)) {
+        return binary;
+    }
+    return decodeCharset(Uint8Array.from(binary, char => char.charCodeAt(0)), 'utf-8');
+}
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Certificate } from '../types';
+import {
+    daysUntilExpiry,
+    findRenewedCertificate,
+    getReminderAlarmName,
+    parseReminderAlarm,
+    scheduleExpiryReminders
+} from './expiryReminders';
+
+function certificate(overrides: Partial<Certificate>): Certificate {
+    return {
+        id: 'cert-1',
+        title: 'AWS Certified Solutions Architect - Associate',
+        issuer: 'Amazon Web Services',
+        issuedAt: '2021-06-01',
+        expiresAt: '2024-06-01',
+        description: '',
+        skills: [],
+        emailId: 'msg-1',
+        ...overrides,
+    };
+}
+
+const NOW = new Date(2024, 4, 12, 14, 0); // 20 days before the default expiry
+
+describe('scheduleExpiryReminders', () => {
+    const alarms = new Map<string, number>();
+
+    beforeEach(() => {
+        alarms.clear();
+        alarms.set('gmailScan', 0);
+        alarms.set(getReminderAlarmName('removed-cert', 7), 0);
+        vi.stubGlobal('chrome', {
+            alarms: {
+                getAll: async () => [...alarms.keys()].map(name => ({ name, scheduledTime: alarms.get(name) })),
+                clear: async (name: string) => alarms.delete(name),
+                create: async (name: string, info: { when: number }) => {
+                    alarms.set(name, info.when);
+                },
+            },
+        });
+    });
+
+    it('schedules the thresholds still ahead in the morning of each day', async () => {
+        const count = await scheduleExpiryReminders([certificate({ expiresAt: '2025-01-31' })], [], NOW);
+
+        expect(count).toBe(3);
+        expect(alarms.get('expiry:cert-1:90')).toBe(new Date(2024, 10, 2, 9).getTime());
+        expect(alarms.get('expiry:cert-1:30')).toBe(new Date(2025, 0, 1, 9).getTime());
+        expect(alarms.get('expiry:cert-1:7')).toBe(new Date(2025, 0, 24, 9).getTime());
+    });
+
+    it('fires only the nearest missed reminder, right away', async () => {
+        const count = await scheduleExpiryReminders([certificate({})], [], NOW);
+
+        expect(count).toBe(2);
+        expect(alarms.has('expiry:cert-1:90')).toBe(false);
+        expect(alarms.get('expiry:cert-1:30')).toBe(NOW.getTime());
+        expect(alarms.get('expiry:cert-1:7')).toBe(new Date(2024, 4, 25, 9).getTime());
+    });
+
+    it('does not repeat a missed reminder that was already sent', async () => {
+        const count = await scheduleExpiryReminders([certificate({})], ['expiry:cert-1:30'], NOW);
+
+        expect(count).toBe(1);
+        expect(alarms.has('expiry:cert-1:30')).toBe(false);
+    });
+
+    it('replaces old reminder alarms and leaves the others', async () => {
+        await scheduleExpiryReminders([certificate({ expiresAt: '2024-01-01' }), certificate({ id: 'cert-2', expiresAt: undefined })], [], NOW);
+
+        expect([...alarms.keys()]).toEqual(['gmailScan']);
+    });
+});
+
+describe('daysUntilExpiry', () => {
+    it('counts whole days from today', () => {
+        expect(daysUntilExpiry(certificate({}), NOW)).toBe(20);
+        expect(daysUntilExpiry(certificate({ expiresAt: undefined }), NOW)).toBeNull();
+    });
+});
+
+describe('parseReminderAlarm', () => {
+    it('reads back the names it builds', () => {
+        expect(parseReminderAlarm(getReminderAlarmName('gmail:18c2f:0', 30))).toEqual({ certificateId: 'gmail:18c2f:0', days: 30 });
+        expect(parseReminderAlarm('gmailScan')).toBeNull();
+    });
+});
+
+describe('findRenewedCertificate', () => {
+    const expiring = certificate({});
+
+    it('matches a recertification of the same credential', () => {
+        const renewed = certificate({ id: 'cert-2', title: 'Recertification: AWS Certified Solutions Architect - Associate 2024', issuedAt: '2024-05-10' });
+
+        expect(findRenewedCertificate(renewed, [expiring])).toBe(expiring);
+    });
+
+    it('ignores a resent email for the same award', () => {
+        const resent = certificate({ id: 'cert-2', issuedAt: '2021-06-08' });
+
+        expect(findRenewedCertificate(resent, [expiring])).toBeNull();
+    });
+});
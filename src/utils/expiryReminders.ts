@@ -0,0 +1,125 @@
+import type { Certificate } from '../types';
+import { parseIsoDate } from './dates';
+
+export const REMINDER_DAYS = [90, 30, 7];
+
+const ALARM_PREFIX = 'expiry:';
+const REMINDER_HOUR = 9;
+const MIN_RENEWAL_GAP_DAYS = 30;
+
+/**
+ * Recreate the reminder alarms for every certificate with an expiry date.
+ * Thresholds still ahead get an alarm at their time. When thresholds have
+ * already passed, e.g. for a certificate found 20 days before it expires, the
+ * nearest one fires right away unless its reminder was already sent.
+ */
+export async function scheduleExpiryReminders(
+    certificates: Certificate[],
+    sentReminders: string[] = [],
+    now: Date = new Date()
+): Promise<number> {
+    const existing = await chrome.alarms.getAll();
+    await Promise.all(existing
+        .filter(alarm => alarm.name.startsWith(ALARM_PREFIX))
+        .map(alarm => chrome.alarms.clear(alarm.name)));
+
+    const sent = new Set(sentReminders);
+    let scheduled = 0;
+    for (const certificate of certificates) {
+        const expires = parseIsoDate(certificate.expiresAt);
+        if (!expires || expires.getTime() <= now.getTime()) {
+            continue;
+        }
+
+        const times = getReminderTimes(certificate);
+        // REMINDER_DAYS is in descending order, so the last passed threshold is the nearest
+        const missed = times.filter(({ when }) => when <= now.getTime()).pop();
+        for (const { days, when } of times) {
+            const name = getReminderAlarmName(certificate.id, days);
+            if (when > now.getTime()) {
+                await chrome.alarms.create(name, { when });
+                scheduled++;
+            } else if (days === missed?.days && !sent.has(name)) {
+                await chrome.alarms.create(name, { when: now.getTime() });
+                scheduled++;
+            }
+        }
+    }
+
+    return scheduled;
+}
+
+/**
+ * Alarm and notification name of one reminder
+ */
+export function getReminderAlarmName(certificateId: string, days: number): string {
+    return `${ALARM_PREFIX}${certificateId}:${days}`;
+}
+
+/**
+ * Reminder times for a certificate, in the morning of each threshold day
+ */
+export function getReminderTimes(certificate: Certificate): { days: number; when: number }[] {
+    const expires = parseIsoDate(certificate.expiresAt);
+    if (!expires) {
+        return [];
+    }
+
+    return REMINDER_DAYS.map(days => {
+        const when = new Date(expires.getFullYear(), expires.getMonth(), expires.getDate() - days, REMINDER_HOUR);
+        return { days, when: when.getTime() };
+    });
+}
+
+/**
+ * Whole days left until a certificate expires, or null without an expiry date
+ */
+export function daysUntilExpiry(certificate: Certificate, now: Date = new Date()): number | null {
+    const expires = parseIsoDate(certificate.expiresAt);
+    if (!expires) {
+        return null;
+    }
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return Math.round((expires.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Read the certificate id and threshold back out of a reminder alarm name
+ */
+export function parseReminderAlarm(name: string): { certificateId: string; days: number } | null {
+    const match = name.match(/^expiry:(.+):(\d+)$/);
+    return match ? { certificateId: match[1], days: Number(match[2]) } : null;
+}
+
+/**
+ * Find the expiring certificate a newly scanned one renews: same issuer and
+ * title, issued well after the stored one so resent emails don't count
+ */
+export function findRenewedCertificate(certificate: Certificate, existing: Certificate[]): Certificate | null {
+    const title = normaliseTitle(certificate.title);
+    const issuer = certificate.issuer.toLowerCase();
+
+    return existing.find(previous =>
+        previous.id !== certificate.id &&
+        !!previous.expiresAt &&
+        previous.issuer.toLowerCase() === issuer &&
+        normaliseTitle(previous.title) === title &&
+        daysBetween(previous.issuedAt, certificate.issuedAt) >= MIN_RENEWAL_GAP_DAYS
+    ) || null;
+}
+
+function daysBetween(from: string, to: string): number {
+    const start = parseIsoDate(from);
+    const end = parseIsoDate(to);
+    return start && end ? (end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000) : 0;
+}
+
+// Renewal emails often prefix the title with "Recertification:" or add the year
+function normaliseTitle(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/\b(re-?certif(ied|ication)|renew(ed|al))\b:?/g, '')
+        .replace(/\b(19|20)\d{2}\b/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
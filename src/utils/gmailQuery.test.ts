@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchQuery, DEFAULT_SEARCH_RULES, getScanRules, getSearchKeywords, parseRuleList, PROCESSED_LABEL } from './gmailQuery';
+
+const ENGLISH_KEYWORDS = '(certificate OR certification OR "course completion" OR "training completed" OR diploma OR achievement OR "you have completed")';
+
+describe('buildSearchQuery', () => {
+    it('searches the English keywords by default', () => {
+        expect(buildSearchQuery()).toBe(ENGLISH_KEYWORDS);
+    });
+
+    it('matches trusted senders regardless of keywords', () => {
+        expect(buildSearchQuery({ trustedSenders: ['coursera.org', ' credly.com '] })).toBe(
+            `{${ENGLISH_KEYWORDS} from:(coursera.org OR credly.com)}`
+        );
+    });
+
+    it('narrows by blocked senders, labels and dates', () => {
+        const query = buildSearchQuery({
+            blockedSenders: ['deals@e.udemy.com'],
+            includeLabels: ['Learning/Certificates', 'Work'],
+            excludeLabels: ['Postify/Processed', ''],
+            after: '2024-01-01',
+            before: '2024-12-31',
+        });
+
+        expect(query).toBe(
+            `${ENGLISH_KEYWORDS} -from:deals@e.udemy.com {label:learning-certificates label:work} ` +
+            '-label:postify-processed after:2024/01/01 before:2024/12/31'
+        );
+    });
+
+    it('uses a single include label without braces', () => {
+        expect(buildSearchQuery({ includeLabels: ['My Courses'] })).toBe(`${ENGLISH_KEYWORDS} label:my-courses`);
+    });
+
+    it('quotes multi-word keywords and strips quotes from them', () => {
+        expect(buildSearchQuery({ keywords: ['badge', 'the "final" exam'] })).toContain(' OR badge OR "the final exam")');
+    });
+});
+
+describe('getSearchKeywords', () => {
+    it('adds the terms of the chosen languages and the user keywords without repeats', () => {
+        const keywords = getSearchKeywords({ languages: ['de'], keywords: ['Zertifikat', 'badge'] });
+
+        expect(keywords.slice(0, 2)).toEqual(['certificate', 'certification']);
+        expect(keywords).toContain('Teilnahmebescheinigung');
+        expect(keywords.filter(keyword => keyword === 'Zertifikat')).toHaveLength(1);
+        expect(keywords[keywords.length - 1]).toBe('badge');
+    });
+});
+
+describe('getScanRules', () => {
+    it('leaves out processed emails when labelling is on', () => {
+        const rules = getScanRules({ gmailLabels: true, searchRules: { ...DEFAULT_SEARCH_RULES, excludeLabels: ['Spam'] } });
+
+        expect(rules.excludeLabels).toEqual(['Spam', PROCESSED_LABEL]);
+    });
+
+    it('returns the defaults without settings', () => {
+        expect(getScanRules(null).excludeLabels).toEqual([]);
+    });
+});
+
+describe('parseRuleList', () => {
+    it('splits on commas and newlines and drops blanks', () => {
+        expect(parseRuleList('coursera.org, udemy.com\n\n credly.com ,')).toEqual(['coursera.org', 'udemy.com', 'credly.com']);
+    });
+});
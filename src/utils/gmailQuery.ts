@@ -0,0 +1,98 @@
+import type { AppSettings, GmailSearchRules } from '../types';
+import { getLocaleSearchTerms } from './localePacks';
+
+export const PROCESSED_LABEL = 'Postify/Processed';
+export const POSTED_LABEL = 'Postify/Posted';
+
+export const DEFAULT_SEARCH_RULES: GmailSearchRules = {
+    trustedSenders: [],
+    blockedSenders: [],
+    includeLabels: [],
+    excludeLabels: [],
+    after: '',
+    before: '',
+    keywords: [],
+    languages: [],
+};
+
+/**
+ * Build a Gmail search query from user-defined rules.
+ * Trusted senders are matched regardless of keywords; every other rule narrows the result.
+ */
+export function buildSearchQuery(rules: Partial<GmailSearchRules> = {}): string {
+    const merged = { ...DEFAULT_SEARCH_RULES, ...rules };
+    const clauses: string[] = [];
+
+    const keywordClause = `(${getSearchKeywords(merged).map(quoteTerm).join(' OR ')})`;
+    const trusted = cleanList(merged.trustedSenders);
+    clauses.push(trusted.length > 0
+        ? `{${keywordClause} from:(${trusted.join(' OR ')})}`
+        : keywordClause);
+
+    for (const sender of cleanList(merged.blockedSenders)) {
+        clauses.push(`-from:${sender}`);
+    }
+
+    const includeLabels = cleanList(merged.includeLabels).map(toLabelTerm);
+    if (includeLabels.length === 1) {
+        clauses.push(`label:${includeLabels[0]}`);
+    } else if (includeLabels.length > 1) {
+        clauses.push(`{${includeLabels.map(label => `label:${label}`).join(' ')}}`);
+    }
+
+    for (const label of cleanList(merged.excludeLabels).map(toLabelTerm)) {
+        clauses.push(`-label:${label}`);
+    }
+
+    if (merged.after) {
+        clauses.push(`after:${toGmailDate(merged.after)}`);
+    }
+    if (merged.before) {
+        clauses.push(`before:${toGmailDate(merged.before)}`);
+    }
+
+    return clauses.join(' ');
+}
+
+/**
+ * The search rules a scan should use. With Gmail labelling on, emails that
+ * were already turned into certificates are left out.
+ */
+export function getScanRules(settings?: Pick<AppSettings, 'searchRules' | 'gmailLabels'> | null): GmailSearchRules {
+    const rules = { ...DEFAULT_SEARCH_RULES, ...settings?.searchRules };
+    return settings?.gmailLabels
+        ? { ...rules, excludeLabels: [...rules.excludeLabels, PROCESSED_LABEL] }
+        : rules;
+}
+
+/**
+ * Certificate keywords for the rules' languages plus the user's own keywords
+ */
+export function getSearchKeywords(rules: Pick<GmailSearchRules, 'keywords' | 'languages'>): string[] {
+    return [...new Set([...getLocaleSearchTerms(rules.languages), ...cleanList(rules.keywords)])];
+}
+
+/**
+ * Split a comma or newline separated input into a clean list
+ */
+export function parseRuleList(input: string): string[] {
+    return cleanList(input.split(/[,\n]/));
+}
+
+function cleanList(values: string[] = []): string[] {
+    return values.map(value => value.trim()).filter(value => value.length > 0);
+}
+
+function quoteTerm(term: string): string {
+    return /\s/.test(term) ? `"${term.replace(/"/g, '')}"` : term;
+}
+
+// Gmail searches labels by name with spaces and slashes turned into hyphens
+function toLabelTerm(label: string): string {
+    return label.toLowerCase().replace(/[\s/]+/g, '-');
+}
+
+// <input type="date"> gives YYYY-MM-DD; Gmail expects YYYY/MM/DD
+function toGmailDate(date: string): string {
+    return date.replace(/-/g, '/');
+}
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGmailService } from './gmailService';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+describe('syncCertificates', () => {
+    const fetchMock = vi.fn<typeof fetch>();
+
+    beforeEach(() => {
+        vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+        vi.stubGlobal('fetch', fetchMock);
+        fetchMock.mockImplementation(async input => {
+            const url = String(input);
+            return new Response(JSON.stringify(url.endsWith('/profile') ? { historyId: '9001' } : { messages: [] }));
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        fetchMock.mockReset();
+    });
+
+    const searchedAfter = () => {
+        const listCall = fetchMock.mock.calls.find(([url]) => String(url).includes('/messages?'));
+        const query = new URL(String(listCall?.[0])).searchParams.get('q') || '';
+        return Number(query.match(/after:(\d+)/)?.[1]);
+    };
+
+    it('only searches recent mail on a first sync', async () => {
+        const result = await createGmailService('token').syncCertificates(null);
+
+        expect(result.data).toEqual({ messages: [], historyId: '9001', fullSync: true });
+        // 90 days, less the day of overlap every search keeps
+        expect(NOW.getTime() / 1000 - searchedAfter()).toBe(91 * DAY_SECONDS);
+    });
+
+    it('catches up from the last sync when there is no history id', async () => {
+        await createGmailService('token').syncCertificates({ historyId: '', lastSyncedAt: '2023-01-10T00:00:00.000Z' });
+
+        expect(searchedAfter()).toBe(new Date('2023-01-09T00:00:00Z').getTime() / 1000);
+    });
+});
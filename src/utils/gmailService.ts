@@ -1,40 +1,119 @@
-import type { ApiResponse, Certificate, EmailMessage } from '../types';
+import type {
+    ApiResponse,
+    Certificate,
+    EmailAttachment,
+    EmailMessage,
+    GmailApiResponse,
+    GmailHistoryResponse,
+    GmailMessagePart,
+    GmailSearchRules,
+    GmailSyncState,
+    GmailSyncResult,
+    MailSourceId,
+    ScanProgress,
+    SkillDefinition
+} from '../types';
+import { extractAttachmentContent } from './attachmentContent';
+import { classifyCertificateEmail, DEFAULT_CLASSIFIER_THRESHOLD, isCertificateCandidate } from './certificateClassifier';
+import { convertToCertificates } from './certificateConverter';
+import { buildSearchQuery } from './gmailQuery';
+import type { MailSource } from './mailSource';
+import { classifyEmailLinks } from './linkClassifier';
+import { collectAttachments, decodeBase64Url, decodeMimeHeader, extractBody } from './mimeParser';
+
+const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1/users/me';
+const BACKFILL_PAGE_SIZE = 100;
+const DEFAULT_CONCURRENCY = 5;
+const PREVIEW_COUNT_CAP = 2500;
+// A first sync only looks this far back; older mail is left to the backfill
+const FIRST_SYNC_DAYS = 90;
+export const AUTH_EXPIRED = 'Authentication expired. Please log in again.';
+const HISTORY_EXPIRED = 'Gmail history id is no longer available';
+const SKIPPED_HISTORY_LABELS = ['SPAM', 'TRASH', 'DRAFT', 'SENT'];
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 32000;
+const RETRYABLE_STATUS = [429, 500, 502, 503, 504];
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const BATCH_MODIFY_LIMIT = 1000;
+export const GMAIL_MODIFY_SCOPE = 'https://www.googleapis.com/auth/gmail.modify';
+
+export interface BackfillOptions {
+    startPageToken?: string;
+    startPage?: number;
+    startProcessed?: number;
+    startFound?: number;
+    concurrency?: number;
+    signal?: AbortSignal;
+    onPage?: (
+        messages: EmailMessage[],
+        nextPageToken: string | null,
+        progress: ScanProgress,
+        failedIds: string[]
+    ) => Promise<void> | void;
+    onProgress?: (progress: ScanProgress) => void;
+}
 
-export class GmailService {
+export class GmailService implements MailSource {
+    readonly id: MailSourceId = 'gmail';
     private token: string;
+    private query: string;
+    private labelIds = new Map<string, string>();
 
-    constructor(token: string) {
+    constructor(token: string, searchRules?: Partial<GmailSearchRules>) {
         this.token = token;
+        this.query = buildSearchQuery(searchRules);
     }
 
     /**
-     * Search for certificate-related emails in Gmail
+     * The Gmail search query built from the configured rules
      */
-    async searchCertificates(): Promise<ApiResponse<EmailMessage[]>> {
-        try {
-            const searchQuery = 'certificate OR certification OR "course completion" OR "training completed" OR diploma OR achievement OR "you have completed"';
-            const gmailApiUrl = `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${encodeURIComponent(searchQuery)}&maxResults=20`;
+    getQuery(): string {
+        return this.query;
+    }
 
-            const response = await fetch(gmailApiUrl, {
-                headers: { Authorization: `Bearer ${this.token}` }
-            });
+    /**
+     * Count how many messages the configured query matches, up to a cap
+     */
+    async previewQuery(): Promise<ApiResponse<{ query: string; count: number; capped: boolean }>> {
+        try {
+            let count = 0;
+            let pageToken: string | undefined;
 
-            if (!response.ok) {
-                if (response.status === 401) {
-                    return {
-                        success: false,
-                        error: 'Authentication expired. Please log in again.'
-                    };
+            do {
+                const listResult = await this.listMessages(this.query, 500, pageToken);
+                if (!listResult.success || !listResult.data) {
+                    return { success: false, error: listResult.error };
                 }
-                return {
-                    success: false,
-                    error: `Gmail API error: ${response.status} ${response.statusText}`
-                };
-            }
+                count += listResult.data.messages?.length || 0;
+                pageToken = listResult.data.nextPageToken;
+            } while (pageToken && count < PREVIEW_COUNT_CAP);
 
-            const data = await response.json();
+            return {
+                success: true,
+                data: { query: this.query, count, capped: !!pageToken }
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to preview search query'
+            };
+        }
+    }
 
-            if (!data.messages || data.messages.length === 0) {
+    /**
+     * Search for certificate-related emails in Gmail, optionally only those
+     * received after `since` (ISO timestamp)
+     */
+    async searchCertificates(since?: string): Promise<ApiResponse<EmailMessage[]>> {
+        try {
+            // Every page of matches, so nothing past the first page is skipped
+            const listResult = await this.listMatchingIdsSince(since || '');
+            if (!listResult.success || !listResult.data) {
+                return { success: false, error: listResult.error };
+            }
+
+            if (listResult.data.size === 0) {
                 return {
                     success: true,
                     data: [],
@@ -43,16 +122,12 @@ export class GmailService {
             }
 
             // Get detailed information for each message
-            const messagePromises = data.messages.slice(0, 10).map((msg: { id: string }) =>
-                this.getMessageDetails(msg.id)
-            );
-
-            const messages = await Promise.all(messagePromises);
-            const validMessages = messages.filter(msg => msg !== null) as EmailMessage[];
+            const { messages, failedIds } = await this.fetchMessageDetails([...listResult.data]);
 
             return {
                 success: true,
-                data: validMessages
+                data: messages,
+                failedIds
             };
         } catch (error) {
             return {
@@ -63,268 +138,595 @@ export class GmailService {
     }
 
     /**
-     * Get detailed information for a specific message
+     * Walk every page of matching messages, newest first.
+     * Pass `startPageToken` to resume an interrupted backfill; `onPage` is called
+     * after each page so the caller can persist results and the next page token.
      */
-    private async getMessageDetails(messageId: string): Promise<EmailMessage | null> {
+    async backfillCertificates(options: BackfillOptions = {}): Promise<ApiResponse<EmailMessage[]>> {
+        const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+        const allMessages: EmailMessage[] = [];
+        const allFailedIds: string[] = [];
+        const progress: ScanProgress = {
+            page: options.startPage ?? 0,
+            processed: options.startProcessed ?? 0,
+            estimatedTotal: 0,
+            found: options.startFound ?? 0,
+            failed: 0,
+            done: false,
+        };
+        let pageToken = options.startPageToken;
+
         try {
-            const response = await fetch(
-                `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}`,
-                {
-                    headers: { Authorization: `Bearer ${this.token}` }
+            do {
+                const listResult = await this.listMessages(this.query, BACKFILL_PAGE_SIZE, pageToken);
+                if (!listResult.success || !listResult.data) {
+                    return {
+                        success: false,
+                        data: allMessages,
+                        failedIds: allFailedIds,
+                        error: listResult.error
+                    };
                 }
-            );
 
-            if (!response.ok) {
-                console.error(`Failed to get message ${messageId}:`, response.status);
-                return null;
+                const data = listResult.data;
+                const ids = (data.messages || []).map(msg => msg.id);
+                const { messages, failedIds } = await this.fetchMessageDetails(ids, concurrency);
+
+                allMessages.push(...messages);
+                allFailedIds.push(...failedIds);
+                pageToken = data.nextPageToken;
+
+                progress.page += 1;
+                progress.processed += ids.length;
+                progress.found += messages.length;
+                progress.failed += failedIds.length;
+                progress.estimatedTotal = Math.max(
+                    progress.estimatedTotal,
+                    data.resultSizeEstimate || 0,
+                    progress.processed
+                );
+                progress.done = !pageToken;
+
+                if (options.onPage) {
+                    await options.onPage(messages, pageToken || null, { ...progress }, failedIds);
+                }
+                options.onProgress?.({ ...progress });
+            } while (pageToken && !options.signal?.aborted);
+
+            return {
+                success: true,
+                data: allMessages,
+                failedIds: allFailedIds,
+                message: progress.done ? undefined : 'Backfill paused'
+            };
+        } catch (error) {
+            return {
+                success: false,
+                data: allMessages,
+                failedIds: allFailedIds,
+                error: error instanceof Error ? error.message : 'Failed to backfill certificates'
+            };
+        }
+    }
+
+    /**
+     * Fetch only certificate emails added since the last sync.
+     * Without a sync state, or when Gmail no longer has that history (404),
+     * this falls back to searching every match since the last sync (the last
+     * FIRST_SYNC_DAYS days on a first sync) and reports `fullSync: true`.
+     */
+    async syncCertificates(syncState?: GmailSyncState | null): Promise<ApiResponse<GmailSyncResult>> {
+        try {
+            if (syncState?.historyId) {
+                const historyResult = await this.listAddedMessageIds(syncState.historyId);
+                if (historyResult.success && historyResult.data) {
+                    const { historyId } = historyResult.data;
+                    let messageIds = historyResult.data.messageIds;
+
+                    // History can't be searched, so keep only new ids that also match the query
+                    if (messageIds.length > 0) {
+                        const matchResult = await this.listMatchingIdsSince(syncState.lastSyncedAt);
+                        if (!matchResult.success || !matchResult.data) {
+                            return { success: false, error: matchResult.error };
+                        }
+                        const matching = matchResult.data;
+                        messageIds = messageIds.filter(id => matching.has(id));
+                    }
+
+                    const { messages, failedIds } = await this.fetchMessageDetails(messageIds);
+
+                    return {
+                        success: true,
+                        data: {
+                            messages,
+                            historyId,
+                            fullSync: false,
+                        },
+                        failedIds
+                    };
+                }
+
+                if (historyResult.error !== HISTORY_EXPIRED) {
+                    return { success: false, error: historyResult.error };
+                }
             }
 
-            const message = await response.json();
-            const headers = message.payload.headers;
+            // Read the history id before searching so nothing slips between the two calls
+            const profileResult = await this.getHistoryId();
+            if (!profileResult.success || !profileResult.data) {
+                return { success: false, error: profileResult.error };
+            }
+
+            // After an expired history id, catch up on everything since the last sync
+            const since = syncState?.lastSyncedAt
+                || new Date(Date.now() - FIRST_SYNC_DAYS * 24 * 60 * 60 * 1000).toISOString();
+            const searchResult = await this.searchCertificates(since);
+            if (!searchResult.success) {
+                return { success: false, error: searchResult.error };
+            }
 
             return {
-                id: messageId,
-                subject: this.getHeaderValue(headers, 'Subject') || '',
-                body: this.extractEmailBody(message.payload),
-                date: this.getHeaderValue(headers, 'Date') || '',
-                from: this.getHeaderValue(headers, 'From') || '',
-                snippet: message.snippet || '',
+                success: true,
+                data: {
+                    messages: searchResult.data || [],
+                    historyId: profileResult.data,
+                    fullSync: true,
+                },
+                failedIds: searchResult.failedIds
             };
         } catch (error) {
-            console.error(`Error getting message details for ${messageId}:`, error);
-            return null;
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to sync certificates'
+            };
         }
     }
 
     /**
-     * Extract header value by name
+     * Add a Postify label to messages, creating the label (and its parent) on
+     * first use. Needs the gmail.modify scope.
      */
-    private getHeaderValue(headers: Array<{ name: string; value: string }>, name: string): string | null {
-        const header = headers.find(h => h.name.toLowerCase() === name.toLowerCase());
-        return header ? header.value : null;
+    async addLabel(messageIds: string[], labelName: string): Promise<ApiResponse<number>> {
+        try {
+            const ids = [...new Set(messageIds.filter(Boolean))];
+            if (ids.length === 0) {
+                return { success: true, data: 0 };
+            }
+
+            const labelResult = await this.ensureLabel(labelName);
+            if (!labelResult.success || !labelResult.data) {
+                return { success: false, error: labelResult.error };
+            }
+
+            for (let i = 0; i < ids.length; i += BATCH_MODIFY_LIMIT) {
+                const response = await this.request(`${GMAIL_API_BASE}/messages/batchModify`, 'POST', {
+                    ids: ids.slice(i, i + BATCH_MODIFY_LIMIT),
+                    addLabelIds: [labelResult.data],
+                });
+                if (!response.ok) {
+                    return { success: false, error: await this.describeError(response, true) };
+                }
+            }
+
+            return { success: true, data: ids.length };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to label messages'
+            };
+        }
     }
 
     /**
-     * Extract email body from Gmail payload
+     * Look up a user label by name, creating it and any missing parents
      */
-    private extractEmailBody(payload: Record<string, unknown>): string {
-        // Type guard for body structure
-        const body = payload.body as { data?: string } | undefined;
-        if (body?.data) {
-            return this.decodeBase64(body.data);
+    private async ensureLabel(name: string): Promise<ApiResponse<string>> {
+        const cached = this.labelIds.get(name);
+        if (cached) {
+            return { success: true, data: cached };
         }
 
-        // Type guard for parts structure
-        const parts = payload.parts as Array<{
-            mimeType?: string;
-            body?: { data?: string };
-        }> | undefined;
-
-        if (parts && Array.isArray(parts)) {
-            // Try plain text first
-            for (const part of parts) {
-                if (part.mimeType === 'text/plain' && part.body?.data) {
-                    return this.decodeBase64(part.body.data);
-                }
-            }
+        const listResponse = await this.request(`${GMAIL_API_BASE}/labels`);
+        if (!listResponse.ok) {
+            return { success: false, error: await this.describeError(listResponse, true) };
+        }
+        const { labels = [] }: { labels?: Array<{ id: string; name: string }> } = await listResponse.json();
+        labels.forEach(label => this.labelIds.set(label.name, label.id));
 
-            // Try HTML if plain text not found
-            for (const part of parts) {
-                if (part.mimeType === 'text/html' && part.body?.data) {
-                    const htmlContent = this.decodeBase64(part.body.data);
-                    return this.stripHtmlTags(htmlContent);
-                }
+        const existing = this.labelIds.get(name);
+        if (existing) {
+            return { success: true, data: existing };
+        }
+
+        // Gmail only nests "Postify/Processed" under "Postify" when the parent exists
+        const parent = name.includes('/') ? name.slice(0, name.lastIndexOf('/')) : null;
+        if (parent) {
+            const parentResult = await this.ensureLabel(parent);
+            if (!parentResult.success) {
+                return parentResult;
             }
         }
 
-        return '';
+        const createResponse = await this.request(`${GMAIL_API_BASE}/labels`, 'POST', {
+            name,
+            labelListVisibility: 'labelShow',
+            messageListVisibility: 'show',
+        });
+        if (!createResponse.ok) {
+            return { success: false, error: await this.describeError(createResponse, true) };
+        }
+
+        const created: { id: string } = await createResponse.json();
+        this.labelIds.set(name, created.id);
+        return { success: true, data: created.id };
     }
 
     /**
-     * Decode base64 URL-safe string
+     * Ids of every message matching the query, optionally only recent ones
      */
-    private decodeBase64(data: string): string {
+    async searchMessageIds(since?: string): Promise<ApiResponse<string[]>> {
         try {
-            const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
-            return atob(base64);
+            const result = await this.listMatchingIdsSince(since || '');
+            return result.success && result.data
+                ? { success: true, data: [...result.data] }
+                : { success: false, error: result.error };
         } catch (error) {
-            console.error('Error decoding base64:', error);
-            return '';
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to search messages'
+            };
         }
     }
 
     /**
-     * Strip HTML tags from content
+     * List a message's attachments from its MIME structure
      */
-    private stripHtmlTags(html: string): string {
-        return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+    async listAttachments(messageId: string): Promise<ApiResponse<EmailAttachment[]>> {
+        try {
+            const response = await this.request(`${GMAIL_API_BASE}/messages/${messageId}?fields=payload`);
+            if (!response.ok) {
+                return { success: false, error: await this.describeError(response) };
+            }
+            const message: { payload: GmailMessagePart } = await response.json();
+            return { success: true, data: collectAttachments(message.payload) };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to list attachments'
+            };
+        }
     }
 
     /**
-     * Convert email messages to certificate objects
+     * Fetch specific messages again, e.g. ones that failed during a scan
      */
-    convertToCertificates(messages: EmailMessage[]): Certificate[] {
-        return messages.map(message => ({
-            id: `cert_${message.id}`,
-            title: this.extractCertificateTitle(message.subject),
-            issuer: this.extractIssuer(message.from),
-            date: this.formatDate(message.date),
-            description: this.extractDescription(message.body, message.snippet),
-            skills: this.extractSkills(message.body + ' ' + message.subject),
-            emailId: message.id,
-        }));
+    async getMessages(messageIds: string[]): Promise<ApiResponse<EmailMessage[]>> {
+        try {
+            const { messages, failedIds } = await this.fetchMessageDetails(messageIds);
+            return { success: true, data: messages, failedIds };
+        } catch (error) {
+            return {
+                success: false,
+                failedIds: messageIds,
+                error: error instanceof Error ? error.message : 'Failed to fetch messages'
+            };
+        }
     }
 
     /**
-     * Extract certificate title from email subject
+     * Ids of messages matching the query that arrived since `since` (with a day
+     * of slack). An empty or invalid `since` lists every match.
      */
-    private extractCertificateTitle(subject: string): string {
-        // Remove common prefixes and clean up
-        let cleaned = subject
-            .replace(/^(Re:|Fwd?:|Congratulations!?)/i, '')
-            .replace(/certificate of completion/i, '')
-            .replace(/you have completed/i, '')
-            .replace(/course completion/i, '')
-            .replace(/training completed/i, '')
-            .trim();
-
-        // Extract course/certification name
-        const patterns = [
-            /completed\s+(.+?)(?:\s+course|\s+training|\s+certification|$)/i,
-            /certificate\s+(?:of\s+)?(.+?)(?:\s+course|\s+training|$)/i,
-            /(.+?)\s+certificate/i,
-            /(.+?)\s+completion/i,
-        ];
-
-        for (const pattern of patterns) {
-            const match = cleaned.match(pattern);
-            if (match && match[1]) {
-                cleaned = match[1].trim();
-                break;
+    private async listMatchingIdsSince(since: string): Promise<ApiResponse<Set<string>>> {
+        const sinceSeconds = Math.floor(new Date(since).getTime() / 1000) - 24 * 60 * 60;
+        const query = isNaN(sinceSeconds) ? this.query : `${this.query} after:${sinceSeconds}`;
+        const ids = new Set<string>();
+        let pageToken: string | undefined;
+
+        do {
+            const listResult = await this.listMessages(query, 500, pageToken);
+            if (!listResult.success || !listResult.data) {
+                return { success: false, error: listResult.error };
             }
+            (listResult.data.messages || []).forEach(msg => ids.add(msg.id));
+            pageToken = listResult.data.nextPageToken;
+        } while (pageToken);
+
+        return { success: true, data: ids };
+    }
+
+    /**
+     * Get the mailbox's current history id
+     */
+    private async getHistoryId(): Promise<ApiResponse<string>> {
+        const response = await this.request(`${GMAIL_API_BASE}/profile`);
+
+        if (!response.ok) {
+            return { success: false, error: await this.describeError(response) };
         }
 
-        return cleaned || 'Certificate';
+        const profile = await response.json();
+        return { success: true, data: String(profile.historyId) };
     }
 
     /**
-     * Extract issuer from email address
+     * Collect ids of messages added to the mailbox since `startHistoryId`
      */
-    private extractIssuer(from: string): string {
-        // Try to extract name before email
-        const nameMatch = from.match(/^([^<]+)</);
-        if (nameMatch) {
-            const name = nameMatch[1].trim().replace(/"/g, '');
-            if (name && !name.includes('@')) {
-                return name;
+    private async listAddedMessageIds(
+        startHistoryId: string
+    ): Promise<ApiResponse<{ messageIds: string[]; historyId: string }>> {
+        const messageIds = new Set<string>();
+        let historyId = startHistoryId;
+        let pageToken: string | undefined;
+
+        do {
+            const params = new URLSearchParams({
+                startHistoryId,
+                historyTypes: 'messageAdded',
+            });
+            if (pageToken) {
+                params.set('pageToken', pageToken);
             }
+
+            const response = await this.request(`${GMAIL_API_BASE}/history?${params.toString()}`);
+
+            if (!response.ok) {
+                return {
+                    success: false,
+                    error: response.status === 404 ? HISTORY_EXPIRED : await this.describeError(response)
+                };
+            }
+
+            const data: GmailHistoryResponse = await response.json();
+            for (const record of data.history || []) {
+                for (const added of record.messagesAdded || []) {
+                    const labels = added.message.labelIds || [];
+                    if (!labels.some(label => SKIPPED_HISTORY_LABELS.includes(label))) {
+                        messageIds.add(added.message.id);
+                    }
+                }
+            }
+
+            historyId = data.historyId || historyId;
+            pageToken = data.nextPageToken;
+        } while (pageToken);
+
+        return {
+            success: true,
+            data: { messageIds: [...messageIds], historyId }
+        };
+    }
+
+    /**
+     * List one page of message ids matching a Gmail search query
+     */
+    private async listMessages(
+        query: string,
+        maxResults: number,
+        pageToken?: string
+    ): Promise<ApiResponse<GmailApiResponse>> {
+        const params = new URLSearchParams({
+            q: query,
+            maxResults: String(maxResults),
+        });
+        if (pageToken) {
+            params.set('pageToken', pageToken);
         }
 
-        // Extract domain or organization name
-        const emailMatch = from.match(/<(.+@(.+))>/) || from.match(/(.+@(.+))/);
-        if (emailMatch) {
-            const domain = emailMatch[2];
-            const orgName = domain.split('.')[0];
-            return orgName.charAt(0).toUpperCase() + orgName.slice(1);
+        const response = await this.request(`${GMAIL_API_BASE}/messages?${params.toString()}`);
+
+        if (!response.ok) {
+            return { success: false, error: await this.describeError(response) };
         }
 
-        return from;
+        return {
+            success: true,
+            data: await response.json()
+        };
     }
 
     /**
-     * Format date string
+     * Call a Gmail API url, retrying rate limits, server errors and network
+     * failures with exponential backoff. `body` is sent as JSON.
      */
-    private formatDate(dateString: string): string {
-        try {
-            const date = new Date(dateString);
-            return date.toLocaleDateString();
-        } catch {
-            return dateString;
+    private async request(url: string, method: string = 'GET', body?: unknown): Promise<Response> {
+        for (let attempt = 0; ; attempt++) {
+            let response: Response | null = null;
+            try {
+                response = await fetch(url, {
+                    method,
+                    headers: {
+                        Authorization: `Bearer ${this.token}`,
+                        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+                    },
+                    body: body !== undefined ? JSON.stringify(body) : undefined
+                });
+                if (attempt >= MAX_RETRIES || !(await this.isRetryable(response))) {
+                    return response;
+                }
+            } catch (error) {
+                if (attempt >= MAX_RETRIES) {
+                    throw error;
+                }
+            }
+
+            await sleep(this.retryDelay(attempt, response));
         }
     }
 
     /**
-     * Extract description from email body and snippet
+     * 429 and 5xx are retryable; Gmail also reports per-user quota as a 403
      */
-    private extractDescription(body: string, snippet: string): string {
-        // Use snippet if body is too long or empty
-        if (!body || body.length > 500) {
-            return snippet.length > 150 ? snippet.substring(0, 150) + '...' : snippet;
+    private async isRetryable(response: Response): Promise<boolean> {
+        if (RETRYABLE_STATUS.includes(response.status)) {
+            return true;
+        }
+        if (response.status !== 403) {
+            return false;
         }
+        const body = await response.clone().json().catch(() => null);
+        const reasons: string[] = (body?.error?.errors || []).map((e: { reason?: string }) => e.reason);
+        return reasons.some(reason => RATE_LIMIT_REASONS.includes(reason));
+    }
 
-        // Extract relevant parts from body
-        const sentences = body.split(/[.!?]+/).filter(s => s.trim().length > 10);
-        const relevantSentences = sentences.filter(sentence => {
-            const lower = sentence.toLowerCase();
-            return lower.includes('complet') ||
-                lower.includes('certif') ||
-                lower.includes('achiev') ||
-                lower.includes('skill') ||
-                lower.includes('course');
-        });
+    /**
+     * Honour Retry-After when Gmail sends it, otherwise back off exponentially with jitter
+     */
+    private retryDelay(attempt: number, response: Response | null): number {
+        const retryAfter = Number(response?.headers.get('Retry-After'));
+        if (retryAfter > 0) {
+            return Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS);
+        }
+        const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+        return backoff / 2 + Math.random() * (backoff / 2);
+    }
 
-        if (relevantSentences.length > 0) {
-            const description = relevantSentences.slice(0, 2).join('. ').trim();
-            return description.length > 200 ? description.substring(0, 200) + '...' : description;
+    /**
+     * Turn a failed Gmail API response into a user-facing error message
+     */
+    private async describeError(response: Response, isLabelRequest = false): Promise<string> {
+        if (response.status === 401) {
+            return AUTH_EXPIRED;
         }
 
-        return snippet.length > 150 ? snippet.substring(0, 150) + '...' : snippet;
+        const body = await response.json().catch(() => ({}));
+        const message: string = body.error?.message || response.statusText;
+        const reasons: string[] = (body.error?.errors || []).map((error: { reason?: string }) => error.reason);
+        // Rate limits and quotas are 403s too; only a missing scope needs the modify permission
+        const missingScope = reasons.includes('insufficientPermissions') || /insufficient .*(scope|permission)/i.test(message);
+        if (response.status === 403 && isLabelRequest && missingScope) {
+            return `Gmail API error: 403 ${message}. Labelling needs the Gmail modify permission.`;
+        }
+        return `Gmail API error: ${response.status} ${message}`;
     }
 
     /**
-     * Extract skills from email content
+     * Fetch message details with at most `concurrency` requests in flight.
+     * Messages that still fail after retries are reported in `failedIds`.
      */
-    private extractSkills(content: string): string[] {
-        const skills: string[] = [];
-        const skillKeywords = [
-            // Programming languages
-            'javascript', 'python', 'java', 'typescript', 'c++', 'c#', 'php', 'ruby', 'go', 'rust',
-            // Frameworks and libraries
-            'react', 'angular', 'vue', 'node.js', 'express', 'django', 'flask', 'spring', 'laravel',
-            // Cloud and DevOps
-            'aws', 'azure', 'gcp', 'docker', 'kubernetes', 'jenkins', 'terraform', 'ansible',
-            // Databases
-            'sql', 'mysql', 'postgresql', 'mongodb', 'redis', 'elasticsearch',
-            // Data and AI
-            'machine learning', 'data science', 'artificial intelligence', 'deep learning', 'tensorflow', 'pytorch',
-            // Soft skills
-            'project management', 'agile', 'scrum', 'leadership', 'communication', 'teamwork',
-            // Other technical
-            'git', 'linux', 'api', 'microservices', 'blockchain', 'cybersecurity'
-        ];
-
-        const lowerContent = content.toLowerCase();
-        skillKeywords.forEach(skill => {
-            if (lowerContent.includes(skill.toLowerCase())) {
-                // Capitalize first letter of each word
-                const formattedSkill = skill.split(' ')
-                    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-                    .join(' ');
-                skills.push(formattedSkill);
+    private async fetchMessageDetails(
+        messageIds: string[],
+        concurrency: number = DEFAULT_CONCURRENCY
+    ): Promise<{ messages: EmailMessage[]; failedIds: string[] }> {
+        const results: Array<EmailMessage | null> = new Array(messageIds.length).fill(null);
+        let nextIndex = 0;
+
+        const worker = async () => {
+            while (nextIndex < messageIds.length) {
+                const index = nextIndex++;
+                results[index] = await this.getMessageDetails(messageIds[index]);
             }
-        });
+        };
+
+        const workerCount = Math.max(1, Math.min(concurrency, messageIds.length));
+        await Promise.all(Array.from({ length: workerCount }, worker));
 
-        // Remove duplicates and limit to 5 skills
-        return [...new Set(skills)].slice(0, 5);
+        return {
+            messages: results.filter(msg => msg !== null) as EmailMessage[],
+            failedIds: messageIds.filter((_, index) => results[index] === null),
+        };
+    }
+
+    /**
+     * Get detailed information for a specific message
+     */
+    private async getMessageDetails(messageId: string): Promise<EmailMessage | null> {
+        try {
+            const response = await this.request(`${GMAIL_API_BASE}/messages/${messageId}`);
+
+            if (!response.ok) {
+                console.error(`Failed to get message ${messageId}:`, response.status);
+                return null;
+            }
+
+            const message = await response.json();
+            const payload: GmailMessagePart = message.payload;
+            const headers = payload.headers || [];
+            const attachments = collectAttachments(payload);
+            const body = extractBody(payload);
+
+            const details: EmailMessage = {
+                id: messageId,
+                threadId: message.threadId,
+                subject: decodeMimeHeader(this.getHeaderValue(headers, 'Subject') || ''),
+                body: body.text,
+                date: this.getHeaderValue(headers, 'Date') || '',
+                from: decodeMimeHeader(this.getHeaderValue(headers, 'From') || ''),
+                snippet: message.snippet || '',
+                listUnsubscribe: this.getHeaderValue(headers, 'List-Unsubscribe') || undefined,
+                attachments,
+                links: classifyEmailLinks(body.links),
+            };
+
+            // Headers and body decide first, so logos and promo images on marketing mail are never downloaded
+            if (isCertificateCandidate(details)) {
+                Object.assign(details, await extractAttachmentContent(
+                    attachments.filter(attachment => attachment.attachmentId),
+                    attachment => this.getAttachmentData(messageId, attachment.attachmentId as string),
+                    `message ${messageId}`
+                ));
+            }
+            return details;
+        } catch (error) {
+            console.error(`Error getting message details for ${messageId}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Download a message attachment
+     */
+    async getAttachmentData(messageId: string, attachmentId: string): Promise<Uint8Array | null> {
+        try {
+            const response = await this.request(`${GMAIL_API_BASE}/messages/${messageId}/attachments/${attachmentId}`);
+
+            if (!response.ok) {
+                console.error(`Failed to get attachment for message ${messageId}:`, response.status);
+                return null;
+            }
+
+            const attachment = await response.json();
+            return attachment.data ? decodeBase64Url(attachment.data) : null;
+        } catch (error) {
+            console.error(`Error getting attachment for message ${messageId}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Extract header value by name
+     */
+    private getHeaderValue(headers: Array<{ name: string; value: string }>, name: string): string | null {
+        const header = headers.find(h => h.name.toLowerCase() === name.toLowerCase());
+        return header ? header.value : null;
+    }
+
+    /**
+     * Convert Gmail messages to certificates, see `convertToCertificates`
+     */
+    convertToCertificates(
+        messages: EmailMessage[],
+        minScore: number = DEFAULT_CLASSIFIER_THRESHOLD,
+        customSkills: SkillDefinition[] = []
+    ): Certificate[] {
+        return convertToCertificates(messages, { minScore, customSkills, source: this.id });
     }
 
     /**
      * Check if email is likely a certificate
      */
-    static isCertificateEmail(subject: string, body: string): boolean {
-        const certificateKeywords = [
-            'certificate', 'certification', 'diploma', 'completion', 'achievement',
-            'congratulations', 'completed', 'earned', 'awarded', 'qualified'
-        ];
-
-        const content = (subject + ' ' + body).toLowerCase();
-        return certificateKeywords.some(keyword => content.includes(keyword));
+    static isCertificateEmail(subject: string, body: string, from: string = ''): boolean {
+        return classifyCertificateEmail({ subject, body, from }).accepted;
     }
 }
 
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 /**
  * Helper function to create Gmail service instance
  */
-export function createGmailService(token: string): GmailService {
-    return new GmailService(token);
+export function createGmailService(token: string, searchRules?: Partial<GmailSearchRules>): GmailService {
+    return new GmailService(token, searchRules);
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { findIssuerParser } from './issuerParsers';
+
+describe('findIssuerParser', () => {
+    it('matches certification senders and their subdomains', () => {
+        expect(findIssuerParser('AWS Training & Certification <no-reply@aws.amazon.com>')?.id).toBe('aws');
+        expect(findIssuerParser('AWS Certification <noreply@certmetrics.com>')?.id).toBe('aws');
+        expect(findIssuerParser('Microsoft Learn <learn@learn.microsoft.com>')?.id).toBe('microsoft-learn');
+        expect(findIssuerParser('Coursera <no-reply@m.coursera.org>')?.id).toBe('coursera');
+    });
+
+    it('leaves shopping and account mail from the same companies alone', () => {
+        expect(findIssuerParser('Amazon.com <shipment-tracking@amazon.com>')).toBeNull();
+        expect(findIssuerParser('Microsoft account team <account-security-noreply@accountprotection.microsoft.com>')).toBeNull();
+        expect(findIssuerParser('Microsoft Store <store@email.microsoft.com>')).toBeNull();
+        expect(findIssuerParser('Microsoft Online Services <msonlineservicesteam@microsoftonline.com>')).toBeNull();
+    });
+});
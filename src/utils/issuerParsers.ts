@@ -0,0 +1,233 @@
+import type { EmailMessage } from '../types';
+
+/**
+ * Structured fields an issuer parser can pull out of a certificate email.
+ * Anything left undefined falls back to the generic heuristics.
+ */
+export interface ParsedCertificateFields {
+    title?: string;
+    issuer?: string;
+    credentialId?: string;
+    verificationUrl?: string;
+    issueDate?: string;
+    expiryDate?: string;
+    instructor?: string;
+}
+
+export interface IssuerParser {
+    id: string;
+    issuer: string;
+    /** Sender domains this parser claims, matched against the From address and its parent domains */
+    domains: string[];
+    /** Return null when the email is from the issuer but is not a certificate it understands */
+    parse(message: EmailMessage): ParsedCertificateFields | null;
+}
+
+const registry: IssuerParser[] = [];
+
+/**
+ * Register an issuer parser. Later registrations win over earlier ones for the same domain.
+ */
+export function registerIssuerParser(parser: IssuerParser): void {
+    registry.unshift(parser);
+}
+
+/**
+ * Find the parser responsible for a From header, if any
+ */
+export function findIssuerParser(from: string): IssuerParser | null {
+    const domain = getSenderDomain(from);
+    if (!domain) {
+        return null;
+    }
+
+    return registry.find(parser =>
+        parser.domains.some(claimed => domain === claimed || domain.endsWith(`.${claimed}`))
+    ) || null;
+}
+
+/**
+ * Run the matching issuer parser over a message
+ */
+export function parseWithIssuer(message: EmailMessage): { parser: IssuerParser; fields: ParsedCertificateFields } | null {
+    const parser = findIssuerParser(message.from);
+    if (!parser) {
+        return null;
+    }
+
+    const fields = parser.parse(message);
+    return fields ? { parser, fields } : null;
+}
+
+/**
+ * Extract the lower-cased domain from a From header
+ */
+export function getSenderDomain(from: string): string | null {
+    const match = from.match(/@([A-Za-z0-9.-]+)/);
+    return match ? match[1].toLowerCase().replace(/\.$/, '') : null;
+}
+
+// Shared helpers
+
+function matchFirst(text: string, patterns: RegExp[]): string | undefined {
+    for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (match && match[1]) {
+            const value = match[1].replace(/\s+/g, ' ').trim().replace(/[.!,;:]+$/, '');
+            if (value) {
+                return value;
+            }
+        }
+    }
+    return undefined;
+}
+
+function findUrl(text: string, hostPattern: RegExp): string | undefined {
+    const urls = text.match(/https?:\/\/[^\s<>"')\]]+/g) || [];
+    return urls.find(url => hostPattern.test(url))?.replace(/[.,;]+$/, '');
+}
+
+const DATE_VALUE = '([A-Z][a-z]+\\.? \\d{1,2},? \\d{4}|\\d{1,2} [A-Z][a-z]+\\.? \\d{4}|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{4})';
+
+/**
+ * Find a date that follows one of the given labels, e.g. "Issued on March 3, 2024"
+ */
+export function labelledDate(text: string, labels: string[]): string | undefined {
+    return matchFirst(text, labels.map(label => new RegExp(`${label}\\s*:?\\s*(?:on\\s+)?${DATE_VALUE}`, 'i')));
+}
+
+// Built-in parsers
+
+const courseraParser: IssuerParser = {
+    id: 'coursera',
+    issuer: 'Coursera',
+    domains: ['coursera.org'],
+    parse({ subject, body }) {
+        const text = `${subject}\n${body}`;
+        const verificationUrl = findUrl(body, /coursera\.org\/(verify|account\/accomplishments\/(verify|certificate|specialization))/i);
+        const fields: ParsedCertificateFields = {
+            title: matchFirst(text, [
+                /Course Certificate for (.+?)(?: is ready|\n|$)/i,
+                /(?:completing|completed|finished) (.+?)(?:!|\n| on Coursera|$)/i,
+                /Specialization Certificate for (.+?)(?:\n|$)/i,
+            ]),
+            credentialId: verificationUrl?.match(/verify\/(?:specialization\/)?([A-Z0-9]+)/i)?.[1],
+            verificationUrl,
+            instructor: matchFirst(body, [/(?:taught|offered) by (.+?)(?:\.|\n|$)/i, /Instructor[s]?:\s*(.+?)(?:\n|$)/i]),
+            issueDate: labelledDate(body, ['Completed on', 'Issued on', 'Date']),
+        };
+        return fields.title || fields.verificationUrl ? fields : null;
+    },
+};
+
+const udemyParser: IssuerParser = {
+    id: 'udemy',
+    issuer: 'Udemy',
+    domains: ['udemy.com', 'ude.my'],
+    parse({ subject, body }) {
+        const text = `${subject}\n${body}`;
+        const verificationUrl = findUrl(body, /(ude\.my\/UC-|udemy\.com\/certificate\/UC-)/i);
+        const fields: ParsedCertificateFields = {
+            title: matchFirst(text, [
+                /completing ["“]?(.+?)["”]?(?:!|\n|$)/i,
+                /certificate of completion for ["“]?(.+?)["”]?(?:\n|$)/i,
+                /completed ["“]?(.+?)["”]?(?:!|\n|$)/i,
+            ]),
+            credentialId: matchFirst(text, [/\b(UC-[0-9a-f-]{8,})\b/i]),
+            verificationUrl,
+            instructor: matchFirst(body, [/Instructors?:\s*(.+?)(?:\n|$)/i, /created by (.+?)(?:\.|\n|$)/i]),
+            issueDate: labelledDate(body, ['Date', 'Completed on']),
+        };
+        return fields.title || fields.credentialId ? fields : null;
+    },
+};
+
+const credlyParser: IssuerParser = {
+    id: 'credly',
+    issuer: 'Credly',
+    domains: ['credly.com', 'youracclaim.com'],
+    parse({ subject, body }) {
+        const text = `${subject}\n${body}`;
+        const verificationUrl = findUrl(body, /(credly|youracclaim)\.com\/badges\/[0-9a-f-]{36}/i);
+        const fields: ParsedCertificateFields = {
+            title: matchFirst(text, [
+                /earned (?:the|a|an) ["“]?(.+?)["”]? badge/i,
+                /badge[:\s]+["“](.+?)["”]/i,
+            ]),
+            // Credly only hosts the badge; the organisation behind it is the real issuer
+            issuer: matchFirst(text, [/(?:issued by|badge from) (.+?)(?:[.!]|\n|$)/i]),
+            credentialId: verificationUrl?.match(/badges\/([0-9a-f-]{36})/i)?.[1],
+            verificationUrl,
+            issueDate: labelledDate(body, ['Issued', 'Issue date', 'Date issued']),
+            expiryDate: labelledDate(body, ['Expires', 'Expiration date', 'Expiry date']),
+        };
+        return fields.title || fields.verificationUrl ? fields : null;
+    },
+};
+
+const awsParser: IssuerParser = {
+    id: 'aws',
+    issuer: 'Amazon Web Services',
+    domains: ['aws.amazon.com', 'awscertification.com', 'certmetrics.com'],
+    parse({ subject, body }) {
+        const text = `${subject}\n${body}`;
+        const title = matchFirst(text, [/(AWS Certified [A-Za-z ]+?(?: - (?:Associate|Professional|Specialty|Foundational))?)(?=[.!,\n]|$| certification| exam)/]);
+        if (!title) {
+            return null;
+        }
+        return {
+            title,
+            credentialId: matchFirst(body, [/Validation Number:?\s*([A-Z0-9]{8,})/i, /Credential ID:?\s*([A-Z0-9-]{6,})/i]),
+            verificationUrl: findUrl(body, /(aws\.amazon\.com\/verification|cp\.certmetrics\.com\/amazon\/en\/public\/verify|credly\.com\/badges)/i),
+            issueDate: labelledDate(body, ['Certification Date', 'Achieved', 'Date achieved', 'Issued']),
+            expiryDate: labelledDate(body, ['Expiration Date', 'Expiration', 'Expires', 'Valid through']),
+        };
+    },
+};
+
+const microsoftLearnParser: IssuerParser = {
+    id: 'microsoft-learn',
+    issuer: 'Microsoft',
+    domains: ['learn.microsoft.com'],
+    parse({ subject, body }) {
+        const text = `${subject}\n${body}`;
+        const title = matchFirst(text, [
+            /(Microsoft Certified: [^\n!.]+?)(?= certification|[.!\n]|$)/,
+            /(?:earned|completed|passed) (?:the )?(.+? (?:Fundamentals|Associate|Expert|Specialty))/i,
+        ]);
+        if (!title) {
+            return null;
+        }
+        return {
+            title,
+            credentialId: matchFirst(body, [/Credential ID:?\s*([A-Z0-9-]{6,})/i, /Certification number:?\s*([A-Z0-9-]{6,})/i]),
+            verificationUrl: findUrl(body, /learn\.microsoft\.com\/(?:[a-z-]+\/)?(?:api\/credentials\/share|users\/[^/]+\/credentials)/i),
+            issueDate: labelledDate(body, ['Earned on', 'Date earned', 'Issued on']),
+            expiryDate: labelledDate(body, ['Expires on', 'Expiration date', 'Renew by']),
+        };
+    },
+};
+
+const edxParser: IssuerParser = {
+    id: 'edx',
+    issuer: 'edX',
+    domains: ['edx.org'],
+    parse({ subject, body }) {
+        const text = `${subject}\n${body}`;
+        const verificationUrl = findUrl(body, /(courses\.edx\.org\/certificates|credentials\.edx\.org\/credentials)\/[0-9a-z]+/i);
+        const fields: ParsedCertificateFields = {
+            title: matchFirst(text, [
+                /(?:Verified|Professional) Certificate (?:for|in) (.+?)(?:\n|!|$)/i,
+                /(?:earned|completed) (?:a certificate (?:for|in) )?(.+?)(?: on edX|!|\n|$)/i,
+            ]),
+            credentialId: verificationUrl?.match(/\/([0-9a-z]{16,})\/?$/i)?.[1],
+            verificationUrl,
+            issuer: matchFirst(body, [/offered by (.+?)(?: through edX|[.,]|\n|$)/i]),
+            issueDate: labelledDate(body, ['Issued', 'Date']),
+        };
+        return fields.title || fields.verificationUrl ? fields : null;
+    },
+};
+
+[courseraParser, udemyParser, credlyParser, awsParser, microsoftLearnParser, edxParser]
+    .forEach(registerIssuerParser);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonReply, repairJson } from './jsonReply';
+
+describe('repairJson', () => {
+    it('removes trailing commas before closing brackets', () => {
+        expect(repairJson('{"skills": ["Python", "SQL",\n],\n"title": "Data Analyst", }')).toBe(
+            '{"skills": ["Python", "SQL"\n],\n"title": "Data Analyst" }'
+        );
+    });
+
+    it('escapes raw line breaks inside strings', () => {
+        expect(JSON.parse(repairJson('{"hook": "First line\r\nsecond line"}'))).toEqual({ hook: 'First line\nsecond line' });
+    });
+
+    it('leaves commas and escapes inside strings alone', () => {
+        const json = '{"hook": "Done, }", "quote": "He said \\"hi,]\\""}';
+
+        expect(repairJson(json)).toBe(json);
+    });
+
+    it('keeps valid JSON as it is', () => {
+        const json = '{\n  "title": "AWS Certified",\n  "skills": []\n}';
+
+        expect(repairJson(json)).toBe(json);
+    });
+});
+
+describe('parseJsonReply', () => {
+    it('reads the object out of a code fence', () => {
+        expect(parseJsonReply('Sure!\n```json\n{"title": "Diploma"}\n```\nAnything else?')).toEqual({ title: 'Diploma' });
+    });
+
+    it('reads the object out of surrounding prose', () => {
+        expect(parseJsonReply('The result is {"title": "Diploma"} as requested.')).toEqual({ title: 'Diploma' });
+    });
+
+    it('repairs the mistakes small models make', () => {
+        expect(parseJsonReply('{"paragraphs": ["One\nTwo",],}')).toEqual({ paragraphs: ['One\nTwo'] });
+    });
+
+    it('throws when there is no object or it cannot be repaired', () => {
+        expect(() => parseJsonReply('I cannot do that.')).toThrow('No JSON object in the reply');
+        expect(() => parseJsonReply('{"title": Diploma}')).toThrow(SyntaxError);
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * Pull the JSON object out of a model reply that may be wrapped in a code
+ * fence or surrounded by prose
+ */
+export function parseJsonReply(reply: string): unknown {
+    const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const text = (fenced ? fenced[1] : reply).trim();
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end < start) {
+        throw new Error('No JSON object in the reply');
+    }
+
+    const json = text.slice(start, end + 1);
+    try {
+        return JSON.parse(json);
+    } catch (error) {
+        // Smaller models often leave trailing commas or break lines inside strings
+        const repaired = repairJson(json);
+        if (repaired === json) {
+            throw error;
+        }
+        return JSON.parse(repaired);
+    }
+}
+
+/**
+ * Fix the mistakes models commonly make in JSON: trailing commas and raw
+ * line breaks inside strings
+ */
+export function repairJson(json: string): string {
+    let repaired = '';
+    let inString = false;
+    for (let i = 0; i < json.length; i++) {
+        const char = json[i];
+        if (inString) {
+            if (char === '\\') {
+                repaired += char + (json[++i] ?? '');
+                continue;
+            }
+            if (char === '"') {
+                inString = false;
+            }
+            repaired += char === '\n' ? '\\n' : char === '\r' ? '' : char;
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+            repaired += char;
+        } else if (char === ',' && /^\s*[}\]]/.test(json.slice(i + 1))) {
+            continue;
+        } else {
+            repaired += char;
+        }
+    }
+    return repaired;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { classifyEmailLinks, classifyLink, pickLink, unwrapRedirect } from './linkClassifier';
+
+const CREDLY_BADGE = 'https://www.credly.com/badges/2f1c8a3e-7b7d-4c1e-9d7e-5a0c3b9f1e22';
+
+describe('unwrapRedirect', () => {
+    it('follows nested click-tracking and safe-link wrappers', () => {
+        const tracked = `https://click.email.coursera.org/?qs=abc&url=${encodeURIComponent(CREDLY_BADGE)}`;
+        const safeLink = `https://eur01.safelinks.protection.outlook.com/?url=${encodeURIComponent(tracked)}&data=05`;
+
+        expect(unwrapRedirect(safeLink)).toBe(CREDLY_BADGE);
+    });
+
+    it('leaves ordinary links and unparseable text alone', () => {
+        expect(unwrapRedirect('https://www.coursera.org/search?q=machine+learning')).toBe('https://www.coursera.org/search?q=machine+learning');
+        expect(unwrapRedirect('not a url')).toBe('not a url');
+    });
+});
+
+describe('classifyLink', () => {
+    it('recognises verification links by URL or text', () => {
+        expect(classifyLink({ url: CREDLY_BADGE, text: '' })).toBe('verification');
+        expect(classifyLink({ url: 'https://example.org/r/8f2k', text: 'View your certificate' })).toBe('verification');
+    });
+
+    it('recognises course links', () => {
+        expect(classifyLink({ url: 'https://www.coursera.org/learn/machine-learning', text: '' })).toBe('course');
+        expect(classifyLink({ url: 'https://example.org/r/9k1a', text: 'Continue learning' })).toBe('course');
+    });
+
+    it('never takes an unsubscribe or tracking link for a verification link', () => {
+        expect(classifyLink({ url: 'https://www.credly.com/badges/unsubscribe', text: 'Verify' })).toBe('unsubscribe');
+        expect(classifyLink({ url: 'https://email.udemy.com/wf/open?upn=abc', text: '' })).toBe('tracking');
+    });
+
+    it('falls back to other', () => {
+        expect(classifyLink({ url: 'https://www.coursera.org/about', text: 'About us' })).toBe('other');
+    });
+});
+
+describe('classifyEmailLinks', () => {
+    it('unwraps, de-duplicates and drops unsubscribe and tracking links', () => {
+        const links = classifyEmailLinks([
+            { url: `https://t.co/r?u=${encodeURIComponent(CREDLY_BADGE)}`, text: 'Accept your badge' },
+            { url: CREDLY_BADGE, text: 'View badge' },
+            { url: `https://click.example.com/?url=${encodeURIComponent('https://example.org/prefs')}&unsubscribe=1`, text: '' },
+            { url: 'https://email.example.com/open.gif?uid=42', text: '' },
+            { url: 'https://www.coursera.org/learn/machine-learning', text: 'Machine Learning' },
+        ]);
+
+        expect(links).toEqual([
+            { url: CREDLY_BADGE, text: 'Accept your badge', kind: 'verification' },
+            { url: 'https://www.coursera.org/learn/machine-learning', text: 'Machine Learning', kind: 'course' },
+        ]);
+    });
+});
+
+describe('pickLink', () => {
+    it('returns the first link of a kind', () => {
+        const links = [
+            { url: 'https://www.coursera.org/learn/ml', text: '', kind: 'course' as const },
+            { url: CREDLY_BADGE, text: '', kind: 'verification' as const },
+        ];
+
+        expect(pickLink(links, 'verification')).toBe(CREDLY_BADGE);
+        expect(pickLink(undefined, 'course')).toBeUndefined();
+    });
+});
@@ -0,0 +1,112 @@
+import type { EmailLink, LinkKind } from '../types';
+import type { ExtractedLink } from './mimeParser';
+
+// Query parameters click trackers and link scanners put the real destination in
+const REDIRECT_PARAMS = ['url', 'u', 'redirect', 'redirect_url', 'redirect_uri', 'target', 'dest', 'destination', 'link', 'q'];
+const MAX_REDIRECT_DEPTH = 3;
+
+const UNSUBSCRIBE_PATTERN = /unsubscribe|opt[\s-]?out|(email|notification|subscription|communication) (preferences|settings)|manage (your )?(emails|subscriptions|preferences)/i;
+const TRACKING_URL_PATTERN = /\/(open|pixel|beacon|track(ing)?\/open|wf\/open)(\.(gif|png))?([/?#]|$)|\.(gif|png)\?.*(uid|open|track)/i;
+
+const VERIFICATION_URL_PATTERNS = [
+    /credly\.com\/(badges|earner|go)\//i,
+    /youracclaim\.com\/badges\//i,
+    /coursera\.org\/(verify|account\/accomplishments|share)\//i,
+    /udemy\.com\/certificate\//i,
+    /ude\.my\/UC-/i,
+    /linkedin\.com\/learning\/certificates\//i,
+    /learn\.microsoft\.com\/.*(credentials|transcript)/i,
+    /credential\.net\//i,
+    /accredible\.com\//i,
+    /badgr\.(com|io)\//i,
+    /certmetrics\.com\//i,
+    /credentials\.[a-z0-9.-]+\//i,
+    /verify\.[a-z0-9.-]+\//i,
+    /\/(verify|verification|credentials?|certificates?|badges?)(\/|\?|$)/i,
+];
+const VERIFICATION_TEXT_PATTERN = /verif(y|ication)|view (your )?(certificate|credential|badge)|(share|download|see) (your )?(certificate|credential|badge)|^(certificate|credential|badge)$/i;
+
+const COURSE_URL_PATTERN = /\/(learn|courses?|programs?|specializations?|professional-certificates|training|lessons?|paths?)(\/|\?|$)/i;
+const COURSE_TEXT_PATTERN = /\b(course|program|specialization|training|lesson|continue learning|start learning|keep learning)\b/i;
+
+/**
+ * Follow click-tracking and safe-link wrappers to the URL they point at
+ */
+export function unwrapRedirect(url: string): string {
+    let current = url;
+
+    for (let depth = 0; depth < MAX_REDIRECT_DEPTH; depth++) {
+        let parsed: URL;
+        try {
+            parsed = new URL(current);
+        } catch {
+            return current;
+        }
+
+        const target = REDIRECT_PARAMS
+            .map(param => parsed.searchParams.get(param))
+            .find(value => value && /^https?:\/\//i.test(value));
+        if (!target) {
+            return current;
+        }
+        current = target;
+    }
+
+    return current;
+}
+
+/**
+ * Decide what a link in a certificate email is for. Unsubscribe and
+ * tracking links are checked first so they never pass as verification links.
+ */
+export function classifyLink(link: ExtractedLink): LinkKind {
+    const { url, text } = link;
+
+    if (UNSUBSCRIBE_PATTERN.test(text) || UNSUBSCRIBE_PATTERN.test(url)) {
+        return 'unsubscribe';
+    }
+    if (TRACKING_URL_PATTERN.test(url)) {
+        return 'tracking';
+    }
+    if (VERIFICATION_TEXT_PATTERN.test(text) || VERIFICATION_URL_PATTERNS.some(pattern => pattern.test(url))) {
+        return 'verification';
+    }
+    if (COURSE_TEXT_PATTERN.test(text) || COURSE_URL_PATTERN.test(url)) {
+        return 'course';
+    }
+    return 'other';
+}
+
+/**
+ * Unwrap, classify and de-duplicate the links of an email, dropping
+ * unsubscribe and tracking links
+ */
+export function classifyEmailLinks(links: ExtractedLink[]): EmailLink[] {
+    const seen = new Set<string>();
+    const classified: EmailLink[] = [];
+
+    for (const link of links) {
+        const url = unwrapRedirect(link.url);
+        if (seen.has(url)) {
+            continue;
+        }
+        seen.add(url);
+
+        // Classify on the wrapped URL too: trackers often hide an unsubscribe target
+        const kind = classifyLink({ url: link.url, text: link.text }) === 'unsubscribe'
+            ? 'unsubscribe'
+            : classifyLink({ url, text: link.text });
+        if (kind !== 'unsubscribe' && kind !== 'tracking') {
+            classified.push({ url, text: link.text, kind });
+        }
+    }
+
+    return classified;
+}
+
+/**
+ * The first link of a kind, in the order it appeared in the email
+ */
+export function pickLink(links: EmailLink[] | undefined, kind: LinkKind): string | undefined {
+    return links?.find(link => link.kind === kind)?.url;
+}
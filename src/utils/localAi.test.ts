@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getOriginPattern, isLoopbackUrl, normalizeBaseUrl } from './localAi';
+
+describe('normalizeBaseUrl', () => {
+    it('drops trailing slashes and endpoint paths', () => {
+        expect(normalizeBaseUrl(' http://localhost:11434/v1/ ')).toBe('http://localhost:11434/v1');
+        expect(normalizeBaseUrl('http://localhost:1234/v1/chat/completions')).toBe('http://localhost:1234/v1');
+        expect(normalizeBaseUrl('http://127.0.0.1:8080/v1/models')).toBe('http://127.0.0.1:8080/v1');
+    });
+});
+
+describe('getOriginPattern', () => {
+    it('covers every port of a loopback host', () => {
+        expect(getOriginPattern('http://localhost:11434/v1')).toBe('http://localhost/*');
+        expect(getOriginPattern('http://127.0.0.1:1234/v1')).toBe('http://127.0.0.1/*');
+    });
+
+    it('rejects servers the manifest does not allow', () => {
+        expect(getOriginPattern('http://192.168.1.20:11434/v1')).toBeNull();
+        expect(getOriginPattern('https://ollama.example.com/v1')).toBeNull();
+        expect(getOriginPattern('https://localhost:11434/v1')).toBeNull();
+        expect(getOriginPattern('localhost:11434')).toBeNull();
+    });
+});
+
+describe('isLoopbackUrl', () => {
+    it('accepts only servers on this computer', () => {
+        expect(isLoopbackUrl('http://localhost:11434/v1')).toBe(true);
+        expect(isLoopbackUrl('http://gpu-box.lan:11434/v1')).toBe(false);
+        expect(isLoopbackUrl('')).toBe(false);
+    });
+});
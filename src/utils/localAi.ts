@@ -0,0 +1,77 @@
+import type { ApiResponse } from '../types';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_TIMEOUT_SECONDS = 120;
+const MODEL_LIST_TIMEOUT_MS = 10000;
+// Must match the loopback origins in the manifest's connect-src and optional_host_permissions
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1'];
+
+export const LOOPBACK_ONLY_MESSAGE = 'The local model server must run on this computer: use an http://localhost or http://127.0.0.1 URL';
+
+/**
+ * Clean up a server URL typed by the user: no trailing slash and no
+ * endpoint path, so `/chat/completions` and `/models` can be appended
+ */
+export function normalizeBaseUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '').replace(/\/(chat\/completions|models)$/, '');
+}
+
+/**
+ * Whether a server URL points at this computer. The extension can't reach
+ * any other host, so Settings rejects the rest.
+ */
+export function isLoopbackUrl(baseUrl: string): boolean {
+    return getOriginPattern(baseUrl) !== null;
+}
+
+/**
+ * The host permission pattern covering a server URL, or null if it isn't an http URL on this computer
+ */
+export function getOriginPattern(baseUrl: string): string | null {
+    try {
+        const url = new URL(normalizeBaseUrl(baseUrl));
+        return url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname) ? `http://${url.hostname}/*` : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Ask for access to a local server. Chrome only shows the prompt while
+ * handling a click, so call this from a button handler.
+ */
+export async function requestHostPermission(baseUrl: string): Promise<boolean> {
+    const origin = getOriginPattern(baseUrl);
+    if (!origin) {
+        return false;
+    }
+    if (await chrome.permissions.contains({ origins: [origin] })) {
+        return true;
+    }
+    return chrome.permissions.request({ origins: [origin] });
+}
+
+/**
+ * The models a server offers, from its OpenAI-compatible `/models` endpoint
+ */
+export async function listLocalModels(baseUrl: string, apiKey?: string): Promise<ApiResponse<string[]>> {
+    try {
+        const response = await fetch(`${normalizeBaseUrl(baseUrl)}/models`, {
+            headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+            signal: AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            return { success: false, error: `The server returned ${response.status} ${response.statusText}` };
+        }
+
+        const { data }: { data?: Array<{ id: string }> } = await response.json();
+        return { success: true, data: (data || []).map(model => model.id).sort() };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error && error.name === 'TimeoutError'
+                ? 'The server did not answer. Check that it is running.'
+                : error instanceof Error ? error.message : 'Failed to list models'
+        };
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, extractLocalizedTitle, getLocaleSearchTerms, LOCALE_PACKS } from './localePacks';
+
+describe('detectLanguage', () => {
+    it('recognises each supported language', () => {
+        expect(detectLanguage('Congratulations! You have completed the course and your certificate is ready.')).toBe('en');
+        expect(detectLanguage('¡Felicidades! Has completado el curso y tu certificado ya está disponible para descargar.')).toBe('es');
+        expect(detectLanguage('Herzlichen Glückwunsch! Sie haben den Kurs erfolgreich abgeschlossen und Ihr Zertifikat ist da.')).toBe('de');
+        expect(detectLanguage('Parabéns! Você concluiu o curso e seu certificado de conclusão já está disponível.')).toBe('pt');
+        expect(detectLanguage('बधाई हो! आपने पाठ्यक्रम सफलतापूर्वक पूरा कर लिया है और आपका प्रमाणपत्र तैयार है।')).toBe('hi');
+    });
+
+    it('stays with English when nothing stands out', () => {
+        expect(detectLanguage('AWS Certified Solutions Architect – Associate')).toBe('en');
+        expect(detectLanguage('Señor Müller')).toBe('en');
+        expect(detectLanguage('')).toBe('en');
+    });
+
+    it('does not take a Hindi name in an English email for Hindi', () => {
+        expect(detectLanguage('Dear प्रिया, congratulations on completing the course. You have earned your certificate and we are proud of you.')).toBe('en');
+    });
+});
+
+describe('extractLocalizedTitle', () => {
+    it('reads the course name from a subject line', () => {
+        expect(extractLocalizedTitle('¡Felicidades! Certificado de finalización de "Python para todos"', 'es')).toBe('Python para todos');
+        expect(extractLocalizedTitle('Herzlichen Glückwunsch! Zertifikat für den Kurs „Datenanalyse mit R“', 'de')).toBe('Datenanalyse mit R');
+        expect(extractLocalizedTitle('Parabéns! Você concluiu o curso Introdução ao SQL', 'pt')).toBe('Introdução ao SQL');
+        expect(extractLocalizedTitle('बधाई! मशीन लर्निंग का प्रमाणपत्र', 'hi')).toBe('मशीन लर्निंग');
+    });
+
+    it('leaves English subjects to the classifier', () => {
+        expect(extractLocalizedTitle('Certificate: Machine Learning Specialization', 'en')).toBeUndefined();
+    });
+});
+
+describe('getLocaleSearchTerms', () => {
+    it('always searches English and adds the chosen languages', () => {
+        expect(getLocaleSearchTerms()).toEqual(LOCALE_PACKS.en.searchTerms);
+
+        const terms = getLocaleSearchTerms(['de', 'es']);
+        expect(terms).toEqual(expect.arrayContaining(['certificate', 'Zertifikat', 'certificado']));
+        expect(new Set(terms).size).toBe(terms.length);
+    });
+});
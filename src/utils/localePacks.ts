@@ -0,0 +1,159 @@
+import type { CertificateLanguage } from '../types';
+
+export interface LocalePack {
+    language: CertificateLanguage;
+    name: string; // English name, used in prompts and settings
+    searchTerms: string[]; // added to the Gmail and Outlook search
+    subjectPattern?: RegExp; // subject announces a certificate; English uses the classifier's own signals
+    bodyPattern?: RegExp; // body confirms a completion
+    titlePatterns: RegExp[]; // capture the course name from a subject line
+    titlePrefix?: RegExp; // greeting stripped before matching title patterns
+    descriptionKeywords: string[]; // sentences containing these make the description
+    commonWords: string[]; // frequent short words, used to detect the language
+    tokenFactor: number; // tokens per word relative to English; Devanagari takes several per word
+}
+
+export const LOCALE_PACKS: Record<CertificateLanguage, LocalePack> = {
+    en: {
+        language: 'en',
+        name: 'English',
+        searchTerms: [
+            'certificate',
+            'certification',
+            'course completion',
+            'training completed',
+            'diploma',
+            'achievement',
+            'you have completed',
+        ],
+        titlePatterns: [],
+        descriptionKeywords: ['complet', 'certif', 'achiev', 'skill', 'course'],
+        commonWords: ['the', 'and', 'you', 'your', 'have', 'for', 'with', 'this', 'that', 'is', 'of', 'to', 'on', 'are'],
+        tokenFactor: 1,
+    },
+    es: {
+        language: 'es',
+        name: 'Spanish',
+        searchTerms: ['certificado', 'certificación', 'diploma', 'curso completado', 'has completado', 'constancia'],
+        subjectPattern: /certificado|certificación|constancia|has (completado|finalizado|aprobado)|felicidades|enhorabuena/i,
+        bodyPattern: /(has|ha) (completado|finalizado|aprobado)|certificamos que|se otorga|id de (la )?credencial/i,
+        titlePatterns: [
+            /certificado (?:de (?:finalización|aprobación) )?(?:de|del|para) (?:curso )?["“]?(.+?)["”]?(?:!|$)/i,
+            /(?:completado|finalizado|aprobado) (?:el curso )?["“]?(.+?)["”]?(?:!|$)/i,
+        ],
+        titlePrefix: /^(¡?felicidades|¡?enhorabuena)[!,:]?\s*/i,
+        descriptionKeywords: ['complet', 'certific', 'curso', 'logro', 'habilidad', 'finaliz', 'aprob'],
+        commonWords: ['el', 'la', 'los', 'las', 'del', 'que', 'y', 'en', 'has', 'tu', 'su', 'para', 'con', 'por', 'una', 'es'],
+        tokenFactor: 1.3,
+    },
+    de: {
+        language: 'de',
+        name: 'German',
+        searchTerms: ['Zertifikat', 'Teilnahmebescheinigung', 'Bescheinigung', 'Urkunde', 'abgeschlossen'],
+        subjectPattern: /zertifikat|bescheinigung|urkunde|abgeschlossen|bestanden|herzlichen glückwunsch/i,
+        bodyPattern: /(erfolgreich )?(abgeschlossen|bestanden)|hiermit wird bestätigt|bescheinigt, dass|zertifikats-?(id|nummer)/i,
+        titlePatterns: [
+            /zertifikat (?:für|über|zu) (?:den kurs )?["„“]?(.+?)["“”]?(?:!|$)/i,
+            /["„“]?(.+?)["“”]? (?:erfolgreich )?(?:abgeschlossen|bestanden)/i,
+        ],
+        titlePrefix: /^herzlichen glückwunsch[!,:]?\s*/i,
+        descriptionKeywords: ['abgeschlossen', 'zertifik', 'kurs', 'bestanden', 'kenntnis', 'fähigkeit'],
+        commonWords: ['der', 'die', 'das', 'und', 'ist', 'sie', 'ihr', 'ihre', 'mit', 'für', 'den', 'zu', 'haben', 'wir', 'nicht', 'ein', 'eine'],
+        tokenFactor: 1.4,
+    },
+    pt: {
+        language: 'pt',
+        name: 'Portuguese',
+        searchTerms: ['certificado', 'certificação', 'diploma', 'curso concluído', 'você concluiu'],
+        subjectPattern: /certificado|certificação|conclu(iu|ído|ída)|parabéns/i,
+        bodyPattern: /(você )?conclu(iu|ído|ída)|certificamos que|foi aprovad[oa]|id da credencial/i,
+        titlePatterns: [
+            /certificado (?:de conclusão )?(?:de|do|da) (?:curso )?["“]?(.+?)["”]?(?:!|$)/i,
+            /conclu(?:iu|ído|ída) (?:o curso )?["“]?(.+?)["”]?(?:!|$)/i,
+        ],
+        titlePrefix: /^parabéns[!,:]?\s*/i,
+        descriptionKeywords: ['conclu', 'certific', 'curso', 'habilidade', 'conquista'],
+        commonWords: ['o', 'os', 'do', 'da', 'dos', 'das', 'que', 'e', 'em', 'você', 'seu', 'sua', 'para', 'com', 'não', 'uma', 'foi'],
+        tokenFactor: 1.3,
+    },
+    hi: {
+        language: 'hi',
+        name: 'Hindi',
+        searchTerms: ['प्रमाणपत्र', 'प्रमाण पत्र', 'पूरा किया', 'बधाई'],
+        subjectPattern: /प्रमाण ?पत्र|पूरा (कर )?(लिया|किया)|पूर्ण|बधाई/,
+        bodyPattern: /पूरा (कर )?(लिया|किया)|प्रमाणित किया जाता है|क्रेडेंशियल आईडी/,
+        titlePatterns: [
+            /["“]?(.+?)["”]? (?:का|के लिए) प्रमाण ?पत्र/,
+            /["“]?(.+?)["”]? (?:सफलतापूर्वक )?पूरा/,
+        ],
+        titlePrefix: /^बधाई[!,:]?\s*/,
+        descriptionKeywords: ['पूरा', 'प्रमाण', 'कोर्स', 'पाठ्यक्रम', 'कौशल'],
+        commonWords: ['है', 'के', 'की', 'का', 'में', 'और', 'को', 'आप', 'आपने', 'से', 'पर'],
+        tokenFactor: 3,
+    },
+};
+
+export const CERTIFICATE_LANGUAGES = Object.keys(LOCALE_PACKS) as CertificateLanguage[];
+
+// Letters that only one of the supported Latin-script languages uses
+const LETTER_HINTS: Array<{ pattern: RegExp; language: CertificateLanguage }> = [
+    { pattern: /[ñ¿¡]/gi, language: 'es' },
+    { pattern: /[ãõç]/gi, language: 'pt' },
+    { pattern: /[ßäöü]/gi, language: 'de' },
+];
+const DEVANAGARI = /[ऀ-ॿ]/g;
+const MIN_WORD_HITS = 3;
+
+/**
+ * Search terms for the given languages, English included
+ */
+export function getLocaleSearchTerms(languages: CertificateLanguage[] = []): string[] {
+    const packs = [...new Set<CertificateLanguage>(['en', ...languages])].map(language => LOCALE_PACKS[language]);
+    return [...new Set(packs.flatMap(pack => pack.searchTerms))];
+}
+
+/**
+ * Guess the language of an email from its script, language-specific
+ * letters and common words. Falls back to English when nothing stands out.
+ */
+export function detectLanguage(text: string): CertificateLanguage {
+    const letters = text.match(/\p{L}/gu)?.length || 0;
+    const devanagari = text.match(DEVANAGARI)?.length || 0;
+    if (letters > 0 && devanagari / letters > 0.2) {
+        return 'hi';
+    }
+
+    const scores = new Map<CertificateLanguage, number>();
+    const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+    for (const pack of Object.values(LOCALE_PACKS)) {
+        const common = new Set(pack.commonWords);
+        scores.set(pack.language, words.filter(word => common.has(word)).length);
+    }
+    for (const { pattern, language } of LETTER_HINTS) {
+        scores.set(language, (scores.get(language) || 0) + (text.match(pattern)?.length || 0));
+    }
+
+    let best: CertificateLanguage = 'en';
+    for (const [language, score] of scores) {
+        if (score >= MIN_WORD_HITS && score > (scores.get(best) || 0)) {
+            best = language;
+        }
+    }
+    return best;
+}
+
+/**
+ * Pull a course name out of a non-English subject line
+ */
+export function extractLocalizedTitle(subject: string, language: CertificateLanguage): string | undefined {
+    const pack = LOCALE_PACKS[language];
+    const cleaned = pack.titlePrefix ? subject.replace(pack.titlePrefix, '') : subject;
+
+    for (const pattern of pack.titlePatterns) {
+        const title = cleaned.match(pattern)?.[1]?.trim();
+        if (title) {
+            return title;
+        }
+    }
+    return undefined;
+}
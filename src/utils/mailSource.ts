@@ -0,0 +1,48 @@
+import type { ApiResponse, EmailAttachment, EmailMessage, MailSourceId } from '../types';
+
+/**
+ * A mailbox Postify can scan for certificate emails. Every source returns
+ * messages in the same `EmailMessage` shape, so conversion, dedupe and AI
+ * extraction don't care where a message came from.
+ */
+export interface MailSource {
+    readonly id: MailSourceId;
+
+    /**
+     * Ids of messages matching the certificate search, optionally only those
+     * received after `since` (ISO timestamp)
+     */
+    searchMessageIds(since?: string): Promise<ApiResponse<string[]>>;
+
+    /**
+     * Fetch full messages, reporting the ones that could not be loaded in `failedIds`
+     */
+    getMessages(messageIds: string[]): Promise<ApiResponse<EmailMessage[]>>;
+
+    /**
+     * List a message's attachments without downloading them
+     */
+    listAttachments(messageId: string): Promise<ApiResponse<EmailAttachment[]>>;
+}
+
+export const MAIL_SOURCE_NAMES: Record<MailSourceId, string> = {
+    gmail: 'Gmail',
+    outlook: 'Outlook',
+};
+
+/**
+ * Fetch the messages a source received since its last sync. Sources with a
+ * cheaper incremental API (Gmail history) use that instead.
+ */
+export async function syncMailSource(
+    source: MailSource,
+    lastSyncedAt?: string
+): Promise<ApiResponse<EmailMessage[]>> {
+    const searchResult = await source.searchMessageIds(lastSyncedAt);
+    if (!searchResult.success || !searchResult.data) {
+        return { success: false, error: searchResult.error };
+    }
+    return searchResult.data.length > 0
+        ? await source.getMessages(searchResult.data)
+        : { success: true, data: [] };
+}
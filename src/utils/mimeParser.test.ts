@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { courseraCompletion, credlyBadgeLatin1, quotedPrintableEmlPart } from './__fixtures__/gmailMessages';
+import { decodeCharset, decodeMimeHeader, decodeQuotedPrintable, extractBody, getPartHeader } from './mimeParser';
+
+describe('extractBody', () => {
+    it('prefers text/plain and takes links from the HTML alternative', () => {
+        const body = extractBody(courseraCompletion);
+
+        expect(body.text).toBe(
+            'Hi Ada,\r\n\r\nCongratulations on completing Machine Learning Specialization! 🎉\r\n\r\n' +
+            'View your certificate: https://coursera.org/verify/specialization/ABC123XYZ'
+        );
+        expect(body.html).toContain('<b>Machine Learning Specialization</b>');
+        expect(body.links).toEqual([
+            { url: 'https://coursera.org/verify/specialization/ABC123XYZ', text: 'View certificate' },
+        ]);
+    });
+
+    it('skips attachments', () => {
+        const body = extractBody(courseraCompletion);
+
+        expect(body.text).not.toContain('%PDF');
+        expect(body.html).not.toContain('Coursera ABC123XYZ.pdf');
+    });
+
+    it('converts an HTML-only body in its declared charset', () => {
+        const body = extractBody(credlyBadgeLatin1);
+
+        expect(body.text).toBe("Félicitations, vous avez réussi l'examen !\nAccepter le badge");
+        expect(body.links).toEqual([{ url: 'https://www.credly.com/badges/1f2e3d', text: 'Accepter le badge' }]);
+    });
+
+    it('ignores the transfer encoding header on Gmail API bodies', () => {
+        // Gmail has already decoded it, so "=C3" must stay as written
+        expect(extractBody(quotedPrintableEmlPart).text).toBe('Your certificate: caf=C3=A9 =\r\ncompleted');
+    });
+
+    it('undoes the transfer encoding of raw message parts', () => {
+        expect(extractBody(quotedPrintableEmlPart, { transferEncoded: true }).text).toBe('Your certificate: café completed');
+    });
+
+    it('returns an empty body for a message without text parts', () => {
+        expect(extractBody({ mimeType: 'multipart/mixed', parts: [] })).toEqual({ text: '', html: null, links: [] });
+    });
+});
+
+describe('decodeQuotedPrintable', () => {
+    const decode = (input: string) => decodeCharset(decodeQuotedPrintable(input), 'utf-8');
+
+    it('decodes escaped bytes as UTF-8 sequences', () => {
+        expect(decode('Zertifikat f=C3=BCr Sie =E2=80=93 bestanden')).toBe('Zertifikat für Sie – bestanden');
+    });
+
+    it('joins soft line breaks', () => {
+        expect(decode('This certifies that Ada Lovelace has success=\r\nfully completed=\nthe course')).toBe(
+            'This certifies that Ada Lovelace has successfully completedthe course'
+        );
+    });
+
+    it('keeps an equals sign that is not followed by two hex digits', () => {
+        expect(decode('passing score = 70% and x=ZZ')).toBe('passing score = 70% and x=ZZ');
+    });
+
+    it('decodes lowercase hex', () => {
+        expect([...decodeQuotedPrintable('=e9=3d')]).toEqual([0xe9, 0x3d]);
+    });
+});
+
+describe('decodeMimeHeader', () => {
+    it('decodes Q-encoded words with underscores as spaces', () => {
+        expect(decodeMimeHeader(getPartHeader(courseraCompletion, 'Subject') || '')).toBe(
+            'Congratulations, you’ve completed Machine Learning Specialization'
+        );
+    });
+
+    it('joins adjacent B-encoded words in their charset', () => {
+        expect(decodeMimeHeader(getPartHeader(credlyBadgeLatin1, 'Subject') || '')).toBe('Félicitations !');
+    });
+
+    it('keeps the space between an encoded word and plain text', () => {
+        expect(decodeMimeHeader('=?utf-8?B?WmVydGlmaWthdA==?= erhalten')).toBe('Zertifikat erhalten');
+    });
+
+    it('leaves plain headers alone', () => {
+        expect(decodeMimeHeader('Your AWS Certification is ready')).toBe('Your AWS Certification is ready');
+    });
+
+    it('falls back to UTF-8 for unknown charsets', () => {
+        expect(decodeMimeHeader('=?x-unknown?Q?caf=C3=A9?=')).toBe('café');
+    });
+});
@@ -0,0 +1,308 @@
+import type { EmailAttachment, GmailMessagePart } from '../types';
+
+export interface ExtractedBody {
+    text: string;
+    html: string | null;
+    links: ExtractedLink[];
+}
+
+export interface ExtractedLink {
+    url: string;
+    text: string;
+}
+
+export interface MimeWalkOptions {
+    /**
+     * Whether part bodies still carry their Content-Transfer-Encoding.
+     * The Gmail API strips it before base64url-encoding `body.data`; raw
+     * RFC 822 sources (e.g. .eml files) do not.
+     */
+    transferEncoded?: boolean;
+}
+
+/**
+ * Walk a MIME tree and return the best readable body.
+ * text/plain wins over text/html; attachments are skipped.
+ */
+export function extractBody(payload: GmailMessagePart, options: MimeWalkOptions = {}): ExtractedBody {
+    const plainParts: GmailMessagePart[] = [];
+    const htmlParts: GmailMessagePart[] = [];
+    collectTextParts(payload, plainParts, htmlParts);
+
+    const html = htmlParts.length > 0
+        ? htmlParts.map(part => decodePartBody(part, options)).join('\n')
+        : null;
+
+    if (plainParts.length > 0) {
+        const text = plainParts.map(part => decodePartBody(part, options)).join('\n').trim();
+        if (text) {
+            return { text, html, links: html ? extractLinks(html) : extractTextLinks(text) };
+        }
+    }
+
+    return {
+        text: html ? htmlToText(html) : '',
+        html,
+        links: html ? extractLinks(html) : []
+    };
+}
+
+/**
+ * Collect the http(s) anchors of an HTML body with their visible text
+ */
+export function extractLinks(html: string): ExtractedLink[] {
+    const links: ExtractedLink[] = [];
+    const anchor = /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>([\s\S]*?)<\/a>/gi;
+
+    for (const match of html.matchAll(anchor)) {
+        const url = decodeHtmlEntities((match[1] ?? match[2] ?? match[3]).trim());
+        if (/^https?:\/\//i.test(url)) {
+            links.push({ url, text: htmlToText(match[4]) });
+        }
+    }
+
+    return links;
+}
+
+// Plain-text emails only have bare URLs, with nothing to describe them
+function extractTextLinks(text: string): ExtractedLink[] {
+    return [...text.matchAll(/https?:\/\/[^\s<>"')\]]+/gi)]
+        .map(match => ({ url: match[0].replace(/[.,;:!?]+$/, ''), text: '' }));
+}
+
+/**
+ * Depth-first collection of inline text parts
+ */
+function collectTextParts(part: GmailMessagePart, plainParts: GmailMessagePart[], htmlParts: GmailMessagePart[]): void {
+    const mimeType = (part.mimeType || '').toLowerCase();
+
+    if (part.parts && part.parts.length > 0) {
+        for (const child of part.parts) {
+            collectTextParts(child, plainParts, htmlParts);
+        }
+        return;
+    }
+
+    if (isAttachment(part) || !part.body?.data) {
+        return;
+    }
+
+    if (mimeType === 'text/plain') {
+        plainParts.push(part);
+    } else if (mimeType === 'text/html') {
+        htmlParts.push(part);
+    }
+}
+
+/**
+ * List every attachment in a MIME tree
+ */
+export function collectAttachments(part: GmailMessagePart, attachments: EmailAttachment[] = []): EmailAttachment[] {
+    if (part.parts && part.parts.length > 0) {
+        for (const child of part.parts) {
+            collectAttachments(child, attachments);
+        }
+    } else if (isAttachment(part)) {
+        attachments.push({
+            filename: part.filename || '',
+            mimeType: (part.mimeType || 'application/octet-stream').toLowerCase(),
+            size: part.body?.size || 0,
+            attachmentId: part.body?.attachmentId,
+            partId: part.partId,
+        });
+    }
+    return attachments;
+}
+
+/**
+ * True when a part is a file attachment rather than inline content
+ */
+export function isAttachment(part: GmailMessagePart): boolean {
+    if (part.filename) {
+        return true;
+    }
+    const disposition = getPartHeader(part, 'Content-Disposition');
+    return !!disposition && disposition.toLowerCase().startsWith('attachment');
+}
+
+/**
+ * Decode a part body to a string, honouring transfer encoding and charset
+ */
+export function decodePartBody(part: GmailMessagePart, options: MimeWalkOptions = {}): string {
+    return part.body?.data ? decodeCharset(decodePartBytes(part, options), getCharset(part)) : '';
+}
+
+/**
+ * Decode a part body to raw bytes, honouring transfer encoding
+ */
+export function decodePartBytes(part: GmailMessagePart, options: MimeWalkOptions = {}): Uint8Array {
+    const data = part.body?.data;
+    if (!data) {
+        return new Uint8Array();
+    }
+
+    const bytes = decodeBase64Url(data);
+
+    if (options.transferEncoded) {
+        const encoding = (getPartHeader(part, 'Content-Transfer-Encoding') || '').trim().toLowerCase();
+        if (encoding === 'quoted-printable') {
+            return decodeQuotedPrintable(bytesToBinaryString(bytes));
+        } else if (encoding === 'base64') {
+            return decodeBase64(bytesToBinaryString(bytes));
+        }
+    }
+
+    return bytes;
+}
+
+/**
+ * Look up a header on a single MIME part
+ */
+export function getPartHeader(part: GmailMessagePart, name: string): string | null {
+    const header = part.headers?.find(h => h.name.toLowerCase() === name.toLowerCase());
+    return header ? header.value : null;
+}
+
+/**
+ * Read the charset parameter from a part's Content-Type
+ */
+function getCharset(part: GmailMessagePart): string {
+    const contentType = getPartHeader(part, 'Content-Type') || '';
+    const match = contentType.match(/charset\s*=\s*"?([^";\s]+)"?/i);
+    return match ? match[1] : 'utf-8';
+}
+
+/**
+ * Decode bytes with the given charset, falling back to UTF-8 for unknown labels
+ */
+export function decodeCharset(bytes: Uint8Array, charset: string): string {
+    try {
+        return new TextDecoder(charset.toLowerCase()).decode(bytes);
+    } catch {
+        return new TextDecoder('utf-8').decode(bytes);
+    }
+}
+
+/**
+ * Decode a base64url string (as used by the Gmail API) to bytes
+ */
+export function decodeBase64Url(data: string): Uint8Array {
+    return decodeBase64(data.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+/**
+ * Decode standard base64 to bytes, ignoring whitespace and missing padding
+ */
+export function decodeBase64(data: string): Uint8Array {
+    try {
+        const cleaned = data.replace(/[^A-Za-z0-9+/]/g, '');
+        const padded = cleaned + '='.repeat((4 - (cleaned.length % 4)) % 4);
+        const binary = atob(padded);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    } catch (error) {
+        console.error('Error decoding base64:', error);
+        return new Uint8Array();
+    }
+}
+
+/**
+ * Decode quoted-printable text (RFC 2045) to bytes
+ */
+export function decodeQuotedPrintable(input: string): Uint8Array {
+    const unfolded = input.replace(/=\r?\n/g, '');
+    const bytes: number[] = [];
+
+    for (let i = 0; i < unfolded.length; i++) {
+        const char = unfolded[i];
+        if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(unfolded.substring(i + 1, i + 3))) {
+            bytes.push(parseInt(unfolded.substring(i + 1, i + 3), 16));
+            i += 2;
+        } else {
+            bytes.push(unfolded.charCodeAt(i) & 0xff);
+        }
+    }
+
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded-words such as `=?UTF-8?B?...?=` in header values
+ */
+export function decodeMimeHeader(value: string): string {
+    return value
+        .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+        .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+            const bytes = encoding.toUpperCase() === 'B'
+                ? decodeBase64(text)
+                : decodeQuotedPrintable(text.replace(/_/g, ' '));
+            return decodeCharset(bytes, charset);
+        });
+}
+
+/**
+ * Convert an HTML body to readable plain text
+ */
+export function htmlToText(html: string): string {
+    return decodeHtmlEntities(
+        html
+            .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<\/(p|div|tr|li|h[1-6])>/gi, '\n')
+            .replace(/<[^>]*>/g, ' ')
+    )
+        .replace(/[ \t\f\v\u00a0]+/g, ' ')
+        .replace(/\s*\n\s*/g, '\n')
+        .trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    copy: '©',
+    reg: '®',
+    trade: '™',
+    hellip: '…',
+    mdash: '—',
+    ndash: '–',
+    rsquo: '’',
+    lsquo: '‘',
+    rdquo: '”',
+    ldquo: '“',
+};
+
+/**
+ * Decode named and numeric HTML character references
+ */
+export function decodeHtmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const codePoint = entity[1].toLowerCase() === 'x'
+                ? parseInt(entity.substring(2), 16)
+                : parseInt(entity.substring(1), 10);
+            return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+const BINARY_CHUNK_SIZE = 0x8000;
+
+/**
+ * One character per byte, so raw message sources can be split as text
+ * without a charset getting in the way
+ */
+export function bytesToBinaryString(bytes: Uint8Array): string {
+    const chunks: string[] = [];
+    for (let i = 0; i < bytes.length; i += BINARY_CHUNK_SIZE) {
+        chunks.push(String.fromCharCode(...bytes.subarray(i, i + BINARY_CHUNK_SIZE)));
+    }
+    return chunks.join('');
+}
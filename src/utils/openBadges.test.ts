@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Certificate } from '../types';
+import { applyOpenBadge, parseBadgeAssertion, resolveBadgeAssertion } from './openBadges';
+
+const BADGE_CLASS = {
+    '@context': 'https://w3id.org/openbadges/v2',
+    type: 'BadgeClass',
+    id: 'https://api.badgr.io/public/badges/Xq1sT9',
+    name: 'Kubernetes Fundamentals',
+    description: 'Deploys and operates workloads on Kubernetes.',
+    criteria: { narrative: 'Pass the hands-on lab exam.' },
+    alignment: [{ targetName: 'Kubernetes', targetUrl: 'https://kubernetes.io' }, { targetName: 'Containers' }],
+    tags: ['DevOps', 'Kubernetes'],
+    issuer: 'https://api.badgr.io/public/issuers/Lf8dQ2',
+};
+
+const ISSUER = {
+    type: 'Issuer',
+    name: 'Cloud Native Academy',
+    url: 'https://academy.example.org',
+};
+
+const ASSERTION = {
+    '@context': 'https://w3id.org/openbadges/v2',
+    type: 'Assertion',
+    id: 'https://api.badgr.io/public/assertions/Rc7pW4',
+    recipient: { type: 'email', hashed: false, identity: 'ada@example.com' },
+    badge: 'https://api.badgr.io/public/badges/Xq1sT9',
+    issuedOn: '2024-03-02T10:15:00+00:00',
+    expires: '2027-03-02T10:15:00+00:00',
+    verification: { type: 'hosted' },
+};
+
+const CREDENTIAL_3 = {
+    '@context': ['https://www.w3.org/ns/credentials/v2', 'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json'],
+    type: ['VerifiableCredential', 'OpenBadgeCredential'],
+    id: 'https://credentials.example.edu/3732',
+    issuer: { id: 'https://example.edu/issuers/565049', type: ['Profile'], name: 'Example University' },
+    validFrom: '2024-01-01T00:00:00Z',
+    credentialSubject: {
+        type: ['AchievementSubject'],
+        achievement: {
+            id: 'https://example.edu/achievements/data-science',
+            type: ['Achievement'],
+            name: 'Data Science Certificate',
+            criteria: { narrative: 'Complete all six courses.' },
+            tag: ['Python', 'Statistics'],
+        },
+    },
+};
+
+function base64Url(value: string): string {
+    return Buffer.from(value).toString('base64url');
+}
+
+describe('parseBadgeAssertion', () => {
+    it('maps a 2.0 assertion with an embedded badge class and issuer', () => {
+        const badge = parseBadgeAssertion(JSON.stringify({ ...ASSERTION, badge: { ...BADGE_CLASS, issuer: { id: BADGE_CLASS.issuer, ...ISSUER } } }));
+
+        expect(badge).toEqual({
+            version: '2.0',
+            name: 'Kubernetes Fundamentals',
+            recipient: 'ada@example.com',
+            description: 'Deploys and operates workloads on Kubernetes.',
+            issuerName: 'Cloud Native Academy',
+            issuerUrl: 'https://academy.example.org',
+            criteria: 'Pass the hands-on lab exam.',
+            skills: ['Kubernetes', 'Containers', 'DevOps'],
+            issuedOn: '2024-03-02T10:15:00+00:00',
+            expires: '2027-03-02T10:15:00+00:00',
+            assertionId: 'https://api.badgr.io/public/assertions/Rc7pW4',
+            verificationUrl: 'https://api.badgr.io/public/assertions/Rc7pW4',
+        });
+    });
+
+    it('keeps the assertion fields when the badge class is still a link', () => {
+        const badge = parseBadgeAssertion(JSON.stringify(ASSERTION));
+
+        expect(badge?.name).toBeUndefined();
+        expect(badge?.issuedOn).toBe('2024-03-02T10:15:00+00:00');
+        expect(badge?.verificationUrl).toBe(ASSERTION.id);
+    });
+
+    it('leaves out hashed recipients', () => {
+        const badge = parseBadgeAssertion(JSON.stringify({ ...ASSERTION, recipient: { hashed: true, identity: 'sha256$5d1f' } }));
+
+        expect(badge?.recipient).toBeUndefined();
+    });
+
+    it('maps a 3.0 credential', () => {
+        expect(parseBadgeAssertion(JSON.stringify(CREDENTIAL_3))).toEqual({
+            version: '3.0',
+            name: 'Data Science Certificate',
+            description: undefined,
+            issuerName: 'Example University',
+            issuerUrl: 'https://example.edu/issuers/565049',
+            criteria: 'Complete all six courses.',
+            skills: ['Python', 'Statistics'],
+            issuedOn: '2024-01-01T00:00:00Z',
+            expires: undefined,
+            assertionId: 'https://credentials.example.edu/3732',
+            verificationUrl: 'https://credentials.example.edu/3732',
+        });
+    });
+
+    it('reads the credential out of a VC-JWT', () => {
+        const jwt = `${base64Url('{"alg":"EdDSA"}')}.${base64Url(JSON.stringify({ iss: 'did:web:example.edu', vc: CREDENTIAL_3 }))}.c2lnbmF0dXJl`;
+
+        expect(parseBadgeAssertion(jwt)?.name).toBe('Data Science Certificate');
+    });
+
+    it('keeps only the link of an unresolved hosted assertion', () => {
+        expect(parseBadgeAssertion(' https://api.badgr.io/public/assertions/Rc7pW4 ')).toEqual({
+            version: '2.0',
+            skills: [],
+            assertionId: 'https://api.badgr.io/public/assertions/Rc7pW4',
+            verificationUrl: 'https://api.badgr.io/public/assertions/Rc7pW4',
+        });
+    });
+
+    it('returns null for data that is not a badge', () => {
+        expect(parseBadgeAssertion('{not json')).toBeNull();
+        expect(parseBadgeAssertion('{"type":"Assertion"}')).toBeNull();
+        expect(parseBadgeAssertion(JSON.stringify({ ...CREDENTIAL_3, credentialSubject: {} }))).toBeNull();
+        expect(parseBadgeAssertion('plain text')).toBeNull();
+    });
+});
+
+describe('resolveBadgeAssertion', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    function stubFetch(documents: Record<string, unknown>) {
+        const fetchMock = vi.fn(async (url: string) => url in documents
+            ? new Response(JSON.stringify(documents[url]), { headers: { 'Content-Type': 'application/ld+json' } })
+            : new Response('Not found', { status: 404 }));
+        vi.stubGlobal('fetch', fetchMock);
+        return fetchMock;
+    }
+
+    it('fetches a hosted assertion with its badge class and issuer', async () => {
+        stubFetch({ [ASSERTION.id]: ASSERTION, [BADGE_CLASS.id]: BADGE_CLASS, [BADGE_CLASS.issuer]: ISSUER });
+
+        const badge = parseBadgeAssertion(await resolveBadgeAssertion(ASSERTION.id));
+
+        expect(badge?.name).toBe('Kubernetes Fundamentals');
+        expect(badge?.issuerName).toBe('Cloud Native Academy');
+        expect(badge?.issuerUrl).toBe('https://academy.example.org');
+    });
+
+    it('keeps the issuer link when the issuer cannot be fetched', async () => {
+        stubFetch({ [BADGE_CLASS.id]: BADGE_CLASS });
+
+        const badge = parseBadgeAssertion(await resolveBadgeAssertion(JSON.stringify(ASSERTION)));
+
+        expect(badge?.name).toBe('Kubernetes Fundamentals');
+        expect(badge?.issuerName).toBeUndefined();
+        expect(badge?.issuerUrl).toBe(BADGE_CLASS.issuer);
+    });
+
+    it('leaves 3.0 credentials alone', async () => {
+        const fetchMock = stubFetch({});
+        const raw = JSON.stringify(CREDENTIAL_3);
+
+        expect(await resolveBadgeAssertion(raw)).toBe(raw);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
+
+describe('applyOpenBadge', () => {
+    const scanned: Certificate = {
+        id: 'cert-1',
+        title: 'You earned a badge',
+        issuer: 'Badgr',
+        issuedAt: '2024-03-03',
+        description: '',
+        skills: ['Cloud'],
+        emailId: 'msg-1',
+    };
+
+    it('overlays the badge fields onto the scanned certificate', () => {
+        const certificate = applyOpenBadge(scanned, parseBadgeAssertion(JSON.stringify(CREDENTIAL_3))!);
+
+        expect(certificate).toMatchObject({
+            title: 'Data Science Certificate',
+            issuer: 'Example University',
+            issuedAt: '2024-01-01T00:00:00.000Z',
+            skills: ['Python', 'Statistics'],
+            credentialId: 'https://credentials.example.edu/3732',
+            parsedBy: 'openbadges-3.0',
+            openBadge: { version: '3.0', criteria: 'Complete all six courses.', issuerUrl: 'https://example.edu/issuers/565049' },
+        });
+    });
+
+    it('keeps the scanned title and names the recipient for a partial badge', () => {
+        const certificate = applyOpenBadge(scanned, parseBadgeAssertion(JSON.stringify(ASSERTION))!);
+
+        expect(certificate.title).toBe('You earned a badge');
+        expect(certificate.issuer).toBe('Badgr');
+        expect(certificate.skills).toEqual(['Cloud']);
+        expect(certificate.description).toBe('Awarded to ada@example.com');
+        expect(certificate.expiresAt).toBe('2027-03-02T10:15:00.000Z');
+    });
+});
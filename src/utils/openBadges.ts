@@ -0,0 +1,323 @@
+import type { Certificate } from '../types';
+import { toIsoDate } from './dates';
+import { decodeBase64Url, decodeCharset } from './mimeParser';
+
+/**
+ * Badge data read from an Open Badges 2.0 assertion or 3.0 credential
+ */
+export interface OpenBadge {
+    version: '2.0' | '3.0';
+    name?: string; // missing when the badge class couldn't be fetched
+    recipient?: string; // plain-text recipient identity, when not hashed
+    description?: string;
+    issuerName?: string;
+    issuerUrl?: string;
+    criteria?: string;
+    skills: string[];
+    issuedOn?: string;
+    expires?: string;
+    assertionId?: string;
+    verificationUrl?: string;
+}
+
+const BADGE_FETCH_TIMEOUT_MS = 10000;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_BADGE_KEYWORDS = ['openbadges', 'openbadgecredential'];
+
+/**
+ * Read the raw baked assertion out of a PNG or SVG badge image
+ */
+export async function extractBakedAssertion(bytes: Uint8Array, mimeType: string): Promise<string | null> {
+    if (mimeType === 'image/png' || isPng(bytes)) {
+        return extractFromPng(bytes);
+    }
+    if (mimeType === 'image/svg+xml') {
+        return extractFromSvg(decodeCharset(bytes, 'utf-8'));
+    }
+    return null;
+}
+
+function isPng(bytes: Uint8Array): boolean {
+    return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Find the `openbadges` (2.0) or `openbadgecredential` (3.0) iTXt/tEXt chunk
+ */
+async function extractFromPng(bytes: Uint8Array): Promise<string | null> {
+    if (!isPng(bytes)) {
+        return null;
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        offset += 12 + length;
+
+        if (type === 'IEND') {
+            break;
+        }
+        if (type !== 'iTXt' && type !== 'tEXt') {
+            continue;
+        }
+
+        const keywordEnd = data.indexOf(0);
+        const keyword = String.fromCharCode(...data.subarray(0, keywordEnd)).toLowerCase();
+        if (!PNG_BADGE_KEYWORDS.includes(keyword)) {
+            continue;
+        }
+
+        if (type === 'tEXt') {
+            return decodeCharset(data.subarray(keywordEnd + 1), 'iso-8859-1');
+        }
+
+        // iTXt: keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+        const compressed = data[keywordEnd + 1] === 1;
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        const text = data.subarray(translatedEnd + 1);
+        return decodeCharset(compressed ? await inflate(text) : text, 'utf-8');
+    }
+
+    return null;
+}
+
+function extractFromSvg(svg: string): string | null {
+    const match = svg.match(/<openbadges:(assertion|credential)\b([^>]*?)(\/>|>([\s\S]*?)<\/openbadges:\1>)/);
+    if (!match) {
+        return null;
+    }
+
+    const content = (match[4] || '').replace(/^\s*<!\[CDATA\[/, '').replace(/\]\]>\s*$/, '').trim();
+    if (content) {
+        return content;
+    }
+
+    // Hosted assertions only carry the verification URL
+    return match[2].match(/verify\s*=\s*"([^"]+)"/)?.[1] || null;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Fetch the parts of an Open Badges 2.0 assertion that are only linked: a
+ * hosted assertion URL and BadgeClass or issuer IRIs, as Credly and Badgr
+ * send them. Anything that can't be fetched stays a link.
+ */
+export async function resolveBadgeAssertion(raw: string): Promise<string> {
+    const trimmed = raw.trim();
+    let assertion: Record<string, unknown> | null = null;
+    if (/^https?:\/\//.test(trimmed)) {
+        assertion = await fetchBadgeJson(trimmed);
+    } else if (trimmed.startsWith('{')) {
+        try {
+            assertion = JSON.parse(trimmed);
+        } catch {
+            assertion = null;
+        }
+    }
+    if (!isObject(assertion) || isOpenBadge3(assertion)) {
+        return raw;
+    }
+
+    if (typeof assertion.badge === 'string') {
+        assertion.badge = await fetchBadgeJson(assertion.badge) || assertion.badge;
+    }
+    if (isObject(assertion.badge) && typeof assertion.badge.issuer === 'string') {
+        const issuer = await fetchBadgeJson(assertion.badge.issuer);
+        if (issuer) {
+            assertion.badge = { ...assertion.badge, issuer: { id: assertion.badge.issuer, ...issuer } };
+        }
+    }
+    return JSON.stringify(assertion);
+}
+
+async function fetchBadgeJson(url: string): Promise<Record<string, unknown> | null> {
+    try {
+        const response = await fetch(url, {
+            headers: { Accept: 'application/ld+json, application/json' },
+            signal: AbortSignal.timeout(BADGE_FETCH_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            return null;
+        }
+        const json: unknown = await response.json();
+        return isObject(json) ? json : null;
+    } catch (error) {
+        console.warn(`Could not fetch Open Badges data from ${url}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Parse an assertion that may be JSON-LD, a compact JWS (3.0 VC-JWT) or a
+ * hosted URL. Run it through `resolveBadgeAssertion` first to fill in linked data.
+ */
+export function parseBadgeAssertion(raw: string): OpenBadge | null {
+    const trimmed = raw.trim();
+
+    if (/^https?:\/\//.test(trimmed)) {
+        // An unresolved hosted assertion: the link is all there is
+        return { version: '2.0', skills: [], assertionId: trimmed, verificationUrl: trimmed };
+    }
+
+    let json: Record<string, unknown> | null = null;
+    if (trimmed.startsWith('{')) {
+        try {
+            json = JSON.parse(trimmed);
+        } catch {
+            return null;
+        }
+    } else if (/^[\w-]+\.[\w-]+\.[\w-]*$/.test(trimmed)) {
+        json = decodeJwtPayload(trimmed);
+    }
+
+    if (!json) {
+        return null;
+    }
+
+    // VC-JWT payloads wrap the credential in `vc`
+    const credential = (isObject(json.vc) ? json.vc : json) as Record<string, unknown>;
+    return isOpenBadge3(credential) ? mapOpenBadge3(credential) : mapOpenBadge2(credential);
+}
+
+function decodeJwtPayload(jwt: string): Record<string, unknown> | null {
+    try {
+        return JSON.parse(decodeCharset(decodeBase64Url(jwt.split('.')[1]), 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+function isOpenBadge3(json: Record<string, unknown>): boolean {
+    const types = ([] as unknown[]).concat(json.type ?? []);
+    return types.some(type => type === 'OpenBadgeCredential' || type === 'AchievementCredential')
+        || isObject(json.credentialSubject);
+}
+
+function mapOpenBadge2(assertion: Record<string, unknown>): OpenBadge | null {
+    // A badge class that is still an IRI leaves only the assertion's own fields
+    const badge = isObject(assertion.badge) ? assertion.badge : {};
+    const issuer = isObject(badge.issuer) ? badge.issuer : null;
+    const recipient = isObject(assertion.recipient) && !assertion.recipient.hashed
+        ? asString(assertion.recipient.identity)
+        : undefined;
+    if (!asString(badge.name) && !asString(assertion.id) && !asString(assertion.issuedOn)) {
+        return null;
+    }
+
+    return {
+        version: '2.0',
+        name: asString(badge.name),
+        recipient,
+        description: asString(badge.description),
+        issuerName: asString(issuer?.name),
+        issuerUrl: asString(issuer?.url) || asString(issuer?.id) || asString(badge.issuer),
+        criteria: isObject(badge.criteria) ? asString(badge.criteria.narrative) || asString(badge.criteria.id) : asString(badge.criteria),
+        skills: collectSkills(badge.alignment, badge.tags),
+        issuedOn: asString(assertion.issuedOn),
+        expires: asString(assertion.expires),
+        assertionId: asString(assertion.id),
+        verificationUrl: asString(assertion.id)?.startsWith('http') ? asString(assertion.id) : undefined,
+    };
+}
+
+function mapOpenBadge3(credential: Record<string, unknown>): OpenBadge | null {
+    const subject = isObject(credential.credentialSubject) ? credential.credentialSubject : null;
+    const achievement = subject && isObject(subject.achievement) ? subject.achievement : null;
+    if (!achievement || typeof achievement.name !== 'string') {
+        return null;
+    }
+
+    const issuer = isObject(credential.issuer) ? credential.issuer : null;
+    const criteria = isObject(achievement.criteria) ? achievement.criteria : null;
+
+    return {
+        version: '3.0',
+        name: achievement.name,
+        description: asString(achievement.description),
+        issuerName: asString(issuer?.name),
+        issuerUrl: asString(issuer?.url) || asString(issuer?.id) || asString(credential.issuer),
+        criteria: asString(criteria?.narrative) || asString(criteria?.id),
+        skills: collectSkills(achievement.alignment, achievement.tag),
+        issuedOn: asString(credential.validFrom) || asString(credential.issuanceDate) || asString(credential.awardedDate),
+        expires: asString(credential.validUntil) || asString(credential.expirationDate),
+        assertionId: asString(credential.id),
+        verificationUrl: asString(credential.id)?.startsWith('http') ? asString(credential.id) : undefined,
+    };
+}
+
+function collectSkills(alignment: unknown, tags: unknown): string[] {
+    const aligned = Array.isArray(alignment)
+        ? alignment.map(item => isObject(item) ? asString(item.targetName) : undefined)
+        : [];
+    const tagged = Array.isArray(tags) ? tags.map(asString) : [];
+    return [...new Set([...aligned, ...tagged].filter((skill): skill is string => !!skill))];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Overlay verified badge data onto a certificate
+ */
+export function applyOpenBadge(certificate: Certificate, badge: OpenBadge): Certificate {
+    return {
+        ...certificate,
+        title: badge.name || certificate.title,
+        issuer: badge.issuerName || certificate.issuer,
+        issuedAt: toIsoDate(badge.issuedOn) || certificate.issuedAt,
+        description: badge.description || certificate.description || (badge.recipient ? `Awarded to ${badge.recipient}` : ''),
+        skills: badge.skills.length > 0 ? badge.skills : certificate.skills,
+        credentialId: badge.assertionId || certificate.credentialId,
+        verificationUrl: badge.verificationUrl || certificate.verificationUrl,
+        expiresAt: toIsoDate(badge.expires) || certificate.expiresAt,
+        parsedBy: `openbadges-${badge.version}`,
+        openBadge: {
+            version: badge.version,
+            criteria: badge.criteria,
+            issuerUrl: badge.issuerUrl,
+        },
+    };
+}
+
+/**
+ * Turn a dropped badge image or JSON-LD file into a certificate
+ */
+export async function importBadgeFile(file: File): Promise<Certificate | null> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const isJson = file.type.includes('json') || /\.(json|jsonld)$/i.test(file.name);
+    const mimeType = file.type || (/\.svg$/i.test(file.name) ? 'image/svg+xml' : 'image/png');
+
+    const raw = isJson
+        ? decodeCharset(bytes, 'utf-8')
+        : await extractBakedAssertion(bytes, mimeType);
+    const badge = raw ? parseBadgeAssertion(await resolveBadgeAssertion(raw)) : null;
+    if (!badge) {
+        return null;
+    }
+
+    const id = `badge_${badge.assertionId || `${file.name}_${file.size}`}`.replace(/[^\w.-]+/g, '_');
+    return applyOpenBadge({
+        id,
+        title: badge.name || file.name.replace(/\.[^.]+$/, ''),
+        issuer: badge.issuerName || 'Unknown issuer',
+        issuedAt: new Date().toISOString(),
+        description: '',
+        skills: [],
+        emailId: '',
+        source: 'badge',
+    }, badge);
+}
@@ -0,0 +1,296 @@
+import type { ApiResponse, EmailAttachment, EmailMessage, GmailSearchRules, MailSourceId } from '../types';
+import { extractAttachmentContent } from './attachmentContent';
+import { isCertificateCandidate } from './certificateClassifier';
+import { DEFAULT_SEARCH_RULES, getSearchKeywords } from './gmailQuery';
+import { classifyEmailLinks } from './linkClassifier';
+import type { MailSource } from './mailSource';
+import { extractLinks, htmlToText } from './mimeParser';
+
+const GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0/me';
+const GRAPH_AUTHORIZE_URL = 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize';
+export const OUTLOOK_SCOPES = ['https://graph.microsoft.com/Mail.Read'];
+export const OUTLOOK_AUTH_EXPIRED = 'Outlook session expired. Reconnect Outlook in Settings.';
+const SEARCH_PAGE_SIZE = 50;
+const MAX_SEARCH_RESULTS = 500;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const RETRYABLE_STATUS = [429, 500, 502, 503, 504];
+const MESSAGE_FIELDS = 'id,conversationId,subject,from,receivedDateTime,body,bodyPreview,hasAttachments,internetMessageHeaders';
+
+interface GraphMessage {
+    id: string;
+    conversationId?: string;
+    subject?: string;
+    from?: { emailAddress?: { name?: string; address?: string } };
+    receivedDateTime?: string;
+    body?: { contentType: string; content: string };
+    bodyPreview?: string;
+    hasAttachments?: boolean;
+    internetMessageHeaders?: Array<{ name: string; value: string }>;
+}
+
+interface GraphAttachment {
+    id: string;
+    name?: string;
+    contentType?: string;
+    size?: number;
+    isInline?: boolean;
+}
+
+/**
+ * Microsoft Graph mail, for Outlook and Microsoft 365 mailboxes
+ */
+export class OutlookService implements MailSource {
+    readonly id: MailSourceId = 'outlook';
+    private token: string;
+    private rules: GmailSearchRules;
+
+    constructor(token: string, searchRules?: Partial<GmailSearchRules>) {
+        this.token = token;
+        this.rules = { ...DEFAULT_SEARCH_RULES, ...searchRules };
+    }
+
+    /**
+     * The KQL search built from the configured rules. Gmail labels have no
+     * Outlook equivalent and are ignored.
+     */
+    getSearch(since?: string): string {
+        const terms = getSearchKeywords(this.rules)
+            .map(term => term.includes(' ') ? `(${term.split(/\s+/).join(' AND ')})` : term);
+        const trusted = this.rules.trustedSenders.map(sender => `from:${sender}`);
+        const clauses = [`(${[...terms, ...trusted].join(' OR ')})`];
+
+        this.rules.blockedSenders.forEach(sender => clauses.push(`NOT from:${sender}`));
+
+        const after = since ? since.slice(0, 10) : this.rules.after;
+        if (after) {
+            clauses.push(`received>=${after}`);
+        }
+        if (this.rules.before) {
+            clauses.push(`received<${this.rules.before}`);
+        }
+
+        return clauses.join(' AND ');
+    }
+
+    /**
+     * Ids of matching messages, newest first, capped at MAX_SEARCH_RESULTS
+     */
+    async searchMessageIds(since?: string): Promise<ApiResponse<string[]>> {
+        try {
+            const params = new URLSearchParams({
+                $search: `"${this.getSearch(since).replace(/"/g, '')}"`,
+                $select: 'id',
+                $top: String(SEARCH_PAGE_SIZE),
+            });
+            const ids: string[] = [];
+            let url: string | undefined = `${GRAPH_API_BASE}/messages?${params.toString()}`;
+
+            while (url && ids.length < MAX_SEARCH_RESULTS) {
+                const response = await this.request(url);
+                if (!response.ok) {
+                    return { success: false, error: this.describeError(response) };
+                }
+                const page: { value: Array<{ id: string }>; '@odata.nextLink'?: string } = await response.json();
+                ids.push(...page.value.map(message => message.id));
+                url = page['@odata.nextLink'];
+            }
+
+            return { success: true, data: ids.slice(0, MAX_SEARCH_RESULTS) };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to search Outlook'
+            };
+        }
+    }
+
+    /**
+     * Fetch messages a few at a time to stay inside Graph's throttling limits
+     */
+    async getMessages(messageIds: string[]): Promise<ApiResponse<EmailMessage[]>> {
+        const results: Array<EmailMessage | null> = new Array(messageIds.length).fill(null);
+        let nextIndex = 0;
+        let authExpired = false;
+
+        const worker = async () => {
+            while (nextIndex < messageIds.length && !authExpired) {
+                const index = nextIndex++;
+                try {
+                    results[index] = await this.getMessage(messageIds[index]);
+                } catch (error) {
+                    authExpired = error instanceof Error && error.message === OUTLOOK_AUTH_EXPIRED;
+                    console.error(`Error getting Outlook message ${messageIds[index]}:`, error);
+                }
+            }
+        };
+
+        const workerCount = Math.max(1, Math.min(DEFAULT_CONCURRENCY, messageIds.length));
+        await Promise.all(Array.from({ length: workerCount }, worker));
+
+        const failedIds = messageIds.filter((_, index) => results[index] === null);
+        if (authExpired) {
+            return { success: false, error: OUTLOOK_AUTH_EXPIRED, failedIds };
+        }
+        return {
+            success: true,
+            data: results.filter(message => message !== null) as EmailMessage[],
+            failedIds
+        };
+    }
+
+    /**
+     * List a message's file attachments
+     */
+    async listAttachments(messageId: string): Promise<ApiResponse<EmailAttachment[]>> {
+        try {
+            const params = new URLSearchParams({ $select: 'id,name,contentType,size,isInline' });
+            const response = await this.request(`${GRAPH_API_BASE}/messages/${messageId}/attachments?${params.toString()}`);
+            if (!response.ok) {
+                return { success: false, error: this.describeError(response) };
+            }
+
+            const { value }: { value: GraphAttachment[] } = await response.json();
+            return {
+                success: true,
+                data: value
+                    .filter(attachment => !attachment.isInline)
+                    .map(attachment => ({
+                        filename: attachment.name || '',
+                        mimeType: (attachment.contentType || 'application/octet-stream').toLowerCase(),
+                        size: attachment.size || 0,
+                        attachmentId: attachment.id,
+                    })),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to list attachments'
+            };
+        }
+    }
+
+    /**
+     * Download an attachment's raw bytes
+     */
+    async getAttachmentData(messageId: string, attachmentId: string): Promise<Uint8Array | null> {
+        try {
+            const response = await this.request(`${GRAPH_API_BASE}/messages/${messageId}/attachments/${attachmentId}/$value`);
+            if (!response.ok) {
+                console.error(`Failed to get attachment for Outlook message ${messageId}:`, response.status);
+                return null;
+            }
+            return new Uint8Array(await response.arrayBuffer());
+        } catch (error) {
+            console.error(`Error getting attachment for Outlook message ${messageId}:`, error);
+            return null;
+        }
+    }
+
+    private async getMessage(messageId: string): Promise<EmailMessage | null> {
+        const params = new URLSearchParams({ $select: MESSAGE_FIELDS });
+        const response = await this.request(`${GRAPH_API_BASE}/messages/${messageId}?${params.toString()}`);
+        if (!response.ok) {
+            if (response.status === 401) {
+                throw new Error(OUTLOOK_AUTH_EXPIRED);
+            }
+            console.error(`Failed to get Outlook message ${messageId}:`, response.status);
+            return null;
+        }
+
+        const message: GraphMessage = await response.json();
+        const sender = message.from?.emailAddress;
+        const attachmentResult = message.hasAttachments ? await this.listAttachments(messageId) : null;
+        const attachments = attachmentResult?.data || [];
+        const header = (name: string) => message.internetMessageHeaders
+            ?.find(h => h.name.toLowerCase() === name.toLowerCase())?.value;
+        // The HTML body is kept so its links survive; Graph's text body drops them
+        const content = message.body?.content || '';
+        const isHtml = message.body?.contentType.toLowerCase() === 'html';
+
+        const details: EmailMessage = {
+            id: message.id,
+            threadId: message.conversationId,
+            subject: message.subject || '',
+            body: isHtml ? htmlToText(content) : content.trim(),
+            date: message.receivedDateTime || '',
+            from: sender ? `${sender.name || sender.address || ''} <${sender.address || ''}>` : '',
+            snippet: message.bodyPreview || '',
+            listUnsubscribe: header('List-Unsubscribe'),
+            attachments,
+            links: classifyEmailLinks(isHtml ? extractLinks(content) : []),
+        };
+
+        // Headers and body decide first, so logos and promo images on marketing mail are never downloaded
+        if (isCertificateCandidate(details)) {
+            Object.assign(details, await extractAttachmentContent(
+                attachments,
+                attachment => this.getAttachmentData(messageId, attachment.attachmentId as string),
+                `Outlook message ${messageId}`
+            ));
+        }
+        return details;
+    }
+
+    /**
+     * GET a Graph url, retrying throttling and server errors. Graph sends
+     * Retry-After on 429, which is honoured.
+     */
+    private async request(url: string): Promise<Response> {
+        for (let attempt = 0; ; attempt++) {
+            const response = await fetch(url, {
+                headers: { Authorization: `Bearer ${this.token}` }
+            });
+            if (attempt >= MAX_RETRIES || !RETRYABLE_STATUS.includes(response.status)) {
+                return response;
+            }
+
+            const retryAfter = Number(response.headers.get('Retry-After'));
+            const delay = retryAfter > 0
+                ? retryAfter * 1000
+                : RETRY_BASE_DELAY_MS * 2 ** attempt;
+            await new Promise(resolve => setTimeout(resolve, Math.min(delay, RETRY_MAX_DELAY_MS)));
+        }
+    }
+
+    private describeError(response: Response): string {
+        return response.status === 401
+            ? OUTLOOK_AUTH_EXPIRED
+            : `Microsoft Graph error: ${response.status} ${response.statusText}`;
+    }
+}
+
+/**
+ * Sign in to Microsoft with the implicit flow and return a Graph access
+ * token. `interactive: false` renews a token silently while the Microsoft
+ * session is still valid.
+ */
+export async function requestOutlookToken(clientId: string, interactive: boolean): Promise<string> {
+    const params = new URLSearchParams({
+        client_id: clientId,
+        response_type: 'token',
+        redirect_uri: chrome.identity.getRedirectURL('outlook'),
+        scope: OUTLOOK_SCOPES.join(' '),
+        prompt: interactive ? 'select_account' : 'none',
+    });
+
+    const redirect = await chrome.identity.launchWebAuthFlow({
+        url: `${GRAPH_AUTHORIZE_URL}?${params.toString()}`,
+        interactive,
+    });
+    const fragment = new URLSearchParams(new URL(redirect || '').hash.slice(1));
+    const token = fragment.get('access_token');
+    if (!token) {
+        throw new Error(fragment.get('error_description') || 'Microsoft sign-in did not return a token');
+    }
+    return token;
+}
+
+/**
+ * Helper function to create Outlook service instance
+ */
+export function createOutlookService(token: string, searchRules?: Partial<GmailSearchRules>): OutlookService {
+    return new OutlookService(token, searchRules);
+}
@@ -0,0 +1,95 @@
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { extractPdfText, parseCMap } from './pdfText';
+
+/**
+ * Assemble a PDF from object bodies, numbered from 1. Stream contents are
+ * given separately and optionally Flate-compressed. No xref table is
+ * written, as the parser scans for objects directly.
+ */
+function buildPdf(objects: Array<string | { dict: string; stream: string; compress?: boolean }>): Uint8Array {
+    let source = '%PDF-1.7\n%\xe2\xe3\xcf\xd3\n';
+    objects.forEach((object, index) => {
+        if (typeof object === 'string') {
+            source += `${index + 1} 0 obj\n${object}\nendobj\n`;
+            return;
+        }
+        const data = object.compress
+            ? deflateSync(Buffer.from(object.stream, 'latin1')).toString('latin1')
+            : object.stream;
+        const filter = object.compress ? ' /Filter /FlateDecode' : '';
+        source += `${index + 1} 0 obj\n<< ${object.dict}${filter} /Length ${data.length} >>\nstream\n${data}\nendstream\nendobj\n`;
+    });
+    return new Uint8Array(Buffer.from(`${source}trailer\n<< /Root 1 0 R >>\n%%EOF\n`, 'latin1'));
+}
+
+const TO_UNICODE = `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+2 beginbfchar
+<0001> <0041>
+<0004> <00E9>
+endbfchar
+1 beginbfrange
+<0002> <0003> <0062>
+endbfrange
+endcmap`;
+
+const CERTIFICATE_PDF = buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 4 0 R >> >> >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 5 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    {
+        dict: '',
+        stream: 'BT /F1 24 Tf 72 700 Td (Certificate of Completion) Tj 0 -40 Td (Awarded to Ada Lovelace \\(2024\\)) Tj ET',
+    },
+]);
+
+describe('extractPdfText', () => {
+    it('reads text shown with a simple font, one line per text position', async () => {
+        expect(await extractPdfText(CERTIFICATE_PDF)).toBe('Certificate of Completion\nAwarded to Ada Lovelace (2024)');
+    });
+
+    it('decodes compressed streams through a ToUnicode CMap', async () => {
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F2 4 0 R >> >> /Contents [5 0 R] >>',
+            '<< /Type /Font /Subtype /Type0 /BaseFont /ABCDEF+Inter /ToUnicode 6 0 R >>',
+            { dict: '', stream: 'BT /F2 12 Tf [<0001><0002>-300<0003><0004>] TJ ET', compress: true },
+            { dict: '', stream: TO_UNICODE, compress: true },
+        ]);
+
+        expect(await extractPdfText(pdf)).toBe('Ab cé');
+    });
+
+    it('returns nothing for files that are not PDFs', async () => {
+        expect(await extractPdfText(new TextEncoder().encode('<html>Certificate</html>'))).toBe('');
+    });
+
+    it('skips encrypted PDFs', async () => {
+        const encrypted = new Uint8Array([...CERTIFICATE_PDF, ...new TextEncoder().encode('trailer\n<< /Encrypt 6 0 R >>\n')]);
+
+        expect(await extractPdfText(encrypted)).toBe('');
+    });
+});
+
+describe('parseCMap', () => {
+    it('maps single codes, ranges and range arrays', () => {
+        const cmap = parseCMap(`${TO_UNICODE}
+1 beginbfrange
+<0010> <0011> [<0066006C> <D83CDF89>]
+endbfrange`);
+
+        expect(cmap.codeLength).toBe(2);
+        expect([1, 2, 3, 4, 0x10, 0x11].map(code => cmap.map.get(code))).toEqual(['A', 'b', 'c', 'é', 'fl', '🎉']);
+    });
+
+    it('uses one-byte codes when the CMap does', () => {
+        expect(parseCMap('beginbfchar\n<41> <0058>\nendbfchar').codeLength).toBe(1);
+    });
+});
@@ -0,0 +1,480 @@
+/**
+ * Minimal PDF text extraction for certificate attachments.
+ *
+ * Handles what certificate generators typically emit: Flate-compressed
+ * content streams, object streams, and fonts with ToUnicode CMaps. It does
+ * not attempt layout analysis, encrypted files or image-only (scanned) PDFs.
+ */
+
+interface PdfObject {
+    dict: string;
+    stream?: Uint8Array;
+}
+
+type CMap = { codeLength: number; map: Map<number, string> };
+
+type Token =
+    | { type: 'op'; value: string }
+    | { type: 'num'; value: number }
+    | { type: 'str'; value: Uint8Array }
+    | { type: 'name'; value: string }
+    | { type: 'array'; value: Token[] };
+
+const MAX_PAGES = 5;
+
+/**
+ * Extract readable text from a PDF file
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+    const source = toBinaryString(bytes);
+    if (!source.startsWith('%PDF')) {
+        return '';
+    }
+    if (/\/Encrypt\s/.test(source)) {
+        console.warn('Skipping encrypted PDF attachment');
+        return '';
+    }
+
+    const objects = await readObjects(source);
+    const cmaps = new Map<number, CMap | null>();
+    const pages = [...objects.entries()]
+        .filter(([, obj]) => /\/Type\s*\/Page(?![a-z])/.test(obj.dict))
+        .sort(([a], [b]) => a - b)
+        .slice(0, MAX_PAGES);
+
+    const pageTexts: string[] = [];
+    for (const [, page] of pages) {
+        const fonts = resolvePageFonts(page, objects);
+        const fontMaps = new Map<string, CMap | null>();
+        for (const [name, fontRef] of fonts) {
+            if (!cmaps.has(fontRef)) {
+                cmaps.set(fontRef, readFontCMap(fontRef, objects));
+            }
+            fontMaps.set(name, cmaps.get(fontRef) || null);
+        }
+
+        const contents = getRefs(page.dict, 'Contents')
+            .map(ref => objects.get(ref)?.stream)
+            .filter((stream): stream is Uint8Array => !!stream);
+        const content = contents.map(toBinaryString).join('\n');
+        pageTexts.push(renderContentStream(content, fontMaps));
+    }
+
+    return pageTexts.join('\n').replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+}
+
+// Object parsing
+
+async function readObjects(source: string): Promise<Map<number, PdfObject>> {
+    const objects = new Map<number, PdfObject>();
+    const objectPattern = /(\d+)\s+\d+\s+obj\b([\s\S]*?)\bendobj/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = objectPattern.exec(source)) !== null) {
+        const id = parseInt(match[1], 10);
+        const body = match[2];
+        const streamStart = body.search(/\bstream\r?\n/);
+
+        if (streamStart < 0) {
+            objects.set(id, { dict: body.trim() });
+            continue;
+        }
+
+        const dict = body.substring(0, streamStart);
+        const dataStart = body.indexOf('\n', streamStart) + 1;
+        const dataEnd = body.lastIndexOf('endstream');
+        const raw = fromBinaryString(body.substring(dataStart, dataEnd).replace(/\r?\n$/, ''));
+        objects.set(id, { dict, stream: await decodeStream(dict, raw) });
+    }
+
+    // Objects packed into object streams (PDF 1.5+)
+    for (const obj of [...objects.values()]) {
+        if (!/\/Type\s*\/ObjStm/.test(obj.dict) || !obj.stream) {
+            continue;
+        }
+        const count = getNumber(obj.dict, 'N');
+        const first = getNumber(obj.dict, 'First');
+        const data = toBinaryString(obj.stream);
+        const header = data.substring(0, first).trim().split(/\s+/).map(Number);
+
+        for (let i = 0; i < count; i++) {
+            const id = header[i * 2];
+            const start = first + header[i * 2 + 1];
+            const end = i + 1 < count ? first + header[(i + 1) * 2 + 1] : data.length;
+            if (!objects.has(id)) {
+                objects.set(id, { dict: data.substring(start, end).trim() });
+            }
+        }
+    }
+
+    return objects;
+}
+
+async function decodeStream(dict: string, raw: Uint8Array): Promise<Uint8Array | undefined> {
+    const filter = dict.match(/\/Filter\s*\[?\s*\/(\w+)/)?.[1];
+    if (!filter) {
+        return raw;
+    }
+    if (filter !== 'FlateDecode') {
+        // Images (DCT, JBIG2...) and rarer text filters are not needed for text
+        return undefined;
+    }
+
+    try {
+        const stream = new Blob([raw as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    } catch {
+        return undefined;
+    }
+}
+
+function getRefs(dict: string, key: string): number[] {
+    const arrayMatch = dict.match(new RegExp(`/${key}\\s*\\[([^\\]]*)\\]`));
+    const source = arrayMatch ? arrayMatch[1] : dict.match(new RegExp(`/${key}\\s+(\\d+\\s+\\d+\\s+R)`))?.[1] || '';
+    return [...source.matchAll(/(\d+)\s+\d+\s+R/g)].map(m => parseInt(m[1], 10));
+}
+
+function getNumber(dict: string, key: string): number {
+    return parseInt(dict.match(new RegExp(`/${key}\\s+(\\d+)`))?.[1] || '0', 10);
+}
+
+/**
+ * Extract the contents of a `/Key << ... >>` sub-dictionary, honouring nesting
+ */
+function getSubDict(dict: string, key: string): string | null {
+    const start = dict.search(new RegExp(`/${key}\\s*<<`));
+    if (start < 0) {
+        return null;
+    }
+    let depth = 0;
+    const open = dict.indexOf('<<', start);
+    for (let i = open; i < dict.length - 1; i++) {
+        if (dict[i] === '<' && dict[i + 1] === '<') {
+            depth++;
+            i++;
+        } else if (dict[i] === '>' && dict[i + 1] === '>') {
+            depth--;
+            i++;
+            if (depth === 0) {
+                return dict.substring(open + 2, i - 1);
+            }
+        }
+    }
+    return null;
+}
+
+function resolvePageFonts(page: PdfObject, objects: Map<number, PdfObject>): Map<string, number> {
+    // Resources may be inherited from the page tree
+    let node: PdfObject | undefined = page;
+    let resources: string | null = null;
+    for (let depth = 0; node && depth < 10 && resources === null; depth++) {
+        resources = getSubDict(node.dict, 'Resources');
+        if (resources === null) {
+            const ref = getRefs(node.dict, 'Resources')[0];
+            resources = ref !== undefined ? objects.get(ref)?.dict || null : null;
+        }
+        const parent: number | undefined = getRefs(node.dict, 'Parent')[0];
+        node = parent !== undefined ? objects.get(parent) : undefined;
+    }
+
+    const fonts = new Map<string, number>();
+    if (!resources) {
+        return fonts;
+    }
+
+    let fontDict = getSubDict(resources, 'Font');
+    if (fontDict === null) {
+        const ref = getRefs(resources, 'Font')[0];
+        fontDict = ref !== undefined ? objects.get(ref)?.dict || null : null;
+    }
+
+    for (const match of (fontDict || '').matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+        fonts.set(match[1], parseInt(match[2], 10));
+    }
+    return fonts;
+}
+
+function readFontCMap(fontRef: number, objects: Map<number, PdfObject>): CMap | null {
+    const font = objects.get(fontRef);
+    const cmapRef = font ? getRefs(font.dict, 'ToUnicode')[0] : undefined;
+    const stream = cmapRef !== undefined ? objects.get(cmapRef)?.stream : undefined;
+    return stream ? parseCMap(toBinaryString(stream)) : null;
+}
+
+/**
+ * Parse the bfchar and bfrange sections of a ToUnicode CMap
+ */
+export function parseCMap(source: string): CMap {
+    const map = new Map<number, string>();
+    let codeLength = 1;
+
+    const noteLength = (hex: string) => {
+        codeLength = Math.max(codeLength, Math.ceil(hex.length / 2));
+    };
+
+    for (const section of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+        for (const pair of section[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g)) {
+            noteLength(pair[1]);
+            map.set(parseInt(pair[1], 16), utf16HexToString(pair[2]));
+        }
+    }
+
+    for (const section of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+        for (const range of section[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]*>|\[[^\]]*\])/g)) {
+            noteLength(range[1]);
+            const low = parseInt(range[1], 16);
+            const high = parseInt(range[2], 16);
+            if (range[3].startsWith('[')) {
+                const targets = [...range[3].matchAll(/<([0-9A-Fa-f]*)>/g)].map(m => m[1]);
+                targets.forEach((hex, i) => map.set(low + i, utf16HexToString(hex)));
+            } else {
+                const base = range[3].slice(1, -1);
+                const prefix = base.slice(0, -4);
+                const last = parseInt(base.slice(-4) || '0', 16);
+                for (let code = low; code <= high && code - low < 0x10000; code++) {
+                    const value = (last + code - low).toString(16).padStart(4, '0');
+                    map.set(code, utf16HexToString(prefix + value));
+                }
+            }
+        }
+    }
+
+    return { codeLength, map };
+}
+
+// Content stream rendering
+
+function renderContentStream(content: string, fonts: Map<string, CMap | null>): string {
+    const tokens = tokenize(content);
+    const operands: Token[] = [];
+    let cmap: CMap | null = null;
+    let output = '';
+    let lastY: number | null = null;
+
+    const show = (bytes: Uint8Array) => {
+        output += decodeText(bytes, cmap);
+    };
+    const newline = () => {
+        if (!output.endsWith('\n')) {
+            output += '\n';
+        }
+    };
+
+    for (const token of tokens) {
+        if (token.type !== 'op') {
+            operands.push(token);
+            continue;
+        }
+
+        switch (token.value) {
+            case 'Tf': {
+                const name = operands.find(op => op.type === 'name');
+                cmap = name && name.type === 'name' ? fonts.get(name.value) || null : null;
+                break;
+            }
+            case 'Tj':
+            case "'":
+            case '"': {
+                if (token.value !== 'Tj') {
+                    newline();
+                }
+                const str = operands[operands.length - 1];
+                if (str?.type === 'str') {
+                    show(str.value);
+                }
+                break;
+            }
+            case 'TJ': {
+                const array = operands[operands.length - 1];
+                if (array?.type === 'array') {
+                    for (const item of array.value) {
+                        if (item.type === 'str') {
+                            show(item.value);
+                        } else if (item.type === 'num' && item.value < -200) {
+                            output += ' ';
+                        }
+                    }
+                }
+                break;
+            }
+            case 'Td':
+            case 'TD': {
+                const ty = operands[operands.length - 1];
+                if (ty?.type === 'num' && ty.value !== 0) {
+                    newline();
+                } else {
+                    output += ' ';
+                }
+                break;
+            }
+            case 'Tm': {
+                const y = operands[operands.length - 1];
+                if (y?.type === 'num') {
+                    if (lastY !== null && Math.abs(y.value - lastY) > 1) {
+                        newline();
+                    } else {
+                        output += ' ';
+                    }
+                    lastY = y.value;
+                }
+                break;
+            }
+            case 'T*':
+            case 'ET':
+                newline();
+                break;
+        }
+        operands.length = 0;
+    }
+
+    return output;
+}
+
+function decodeText(bytes: Uint8Array, cmap: CMap | null): string {
+    if (!cmap || cmap.map.size === 0) {
+        // Simple fonts without a ToUnicode map are close enough to Latin-1
+        return toBinaryString(bytes);
+    }
+
+    let text = '';
+    for (let i = 0; i + cmap.codeLength <= bytes.length; i += cmap.codeLength) {
+        let code = 0;
+        for (let j = 0; j < cmap.codeLength; j++) {
+            code = (code << 8) | bytes[i + j];
+        }
+        text += cmap.map.get(code) ?? '';
+    }
+    return text;
+}
+
+function tokenize(content: string): Token[] {
+    const stack: Token[][] = [[]];
+    let i = 0;
+
+    const push = (token: Token) => stack[stack.length - 1].push(token);
+
+    while (i < content.length) {
+        const char = content[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '%') {
+            while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+        } else if (char === '(') {
+            const [value, next] = readLiteralString(content, i);
+            push({ type: 'str', value });
+            i = next;
+        } else if (char === '<' && content[i + 1] === '<') {
+            // Inline dictionaries (marked content properties) carry no text
+            const end = content.indexOf('>>', i);
+            i = end < 0 ? content.length : end + 2;
+        } else if (char === '<') {
+            const end = content.indexOf('>', i);
+            const hex = content.substring(i + 1, end < 0 ? content.length : end).replace(/\s/g, '');
+            push({ type: 'str', value: hexToBytes(hex) });
+            i = end < 0 ? content.length : end + 1;
+        } else if (char === '[') {
+            stack.push([]);
+            i++;
+        } else if (char === ']') {
+            const items = stack.length > 1 ? stack.pop() as Token[] : [];
+            push({ type: 'array', value: items });
+            i++;
+        } else if (char === '/') {
+            const match = content.substring(i + 1).match(/^[^\s/<>[\]()%{}]*/);
+            push({ type: 'name', value: match ? match[0] : '' });
+            i += 1 + (match ? match[0].length : 0);
+        } else {
+            const match = content.substring(i).match(/^[^\s/<>[\]()%{}]+/);
+            const word = match ? match[0] : char;
+            i += word.length;
+
+            if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+                push({ type: 'num', value: parseFloat(word) });
+            } else if (word === 'BI') {
+                // Skip inline image data up to EI
+                const end = content.indexOf('EI', i);
+                i = end < 0 ? content.length : end + 2;
+            } else {
+                push({ type: 'op', value: word });
+            }
+        }
+    }
+
+    return stack[0];
+}
+
+function readLiteralString(content: string, start: number): [Uint8Array, number] {
+    const bytes: number[] = [];
+    let depth = 0;
+    let i = start;
+
+    for (; i < content.length; i++) {
+        const char = content[i];
+        if (char === '\\') {
+            const next = content[++i];
+            const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+            if (next in escapes) {
+                bytes.push(escapes[next]);
+            } else if (/[0-7]/.test(next)) {
+                const octal = content.substring(i).match(/^[0-7]{1,3}/)![0];
+                bytes.push(parseInt(octal, 8) & 0xff);
+                i += octal.length - 1;
+            } else if (next === '\r' || next === '\n') {
+                if (next === '\r' && content[i + 1] === '\n') i++;
+            } else {
+                bytes.push(next.charCodeAt(0) & 0xff);
+            }
+        } else if (char === '(') {
+            if (depth++ > 0) bytes.push(40);
+        } else if (char === ')') {
+            if (--depth === 0) {
+                return [new Uint8Array(bytes), i + 1];
+            }
+            bytes.push(41);
+        } else {
+            bytes.push(char.charCodeAt(0) & 0xff);
+        }
+    }
+
+    return [new Uint8Array(bytes), i];
+}
+
+// Byte helpers
+
+function hexToBytes(hex: string): Uint8Array {
+    const padded = hex.length % 2 ? hex + '0' : hex;
+    const bytes = new Uint8Array(padded.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(padded.substr(i * 2, 2), 16);
+    }
+    return bytes;
+}
+
+function utf16HexToString(hex: string): string {
+    const units: number[] = [];
+    for (let i = 0; i + 4 <= hex.length; i += 4) {
+        units.push(parseInt(hex.substring(i, i + 4), 16));
+    }
+    if (units.length === 0 && hex.length > 0) {
+        units.push(parseInt(hex, 16));
+    }
+    return String.fromCharCode(...units);
+}
+
+function toBinaryString(bytes: Uint8Array): string {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return binary;
+}
+
+function fromBinaryString(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { PostGenerationRequest } from '../types';
+import { getMaxTokens, parsePostReply, previewPostReply, validatePost } from './postPrompt';
+
+const REQUEST: PostGenerationRequest = {
+    certificateContent: 'AWS Certified Solutions Architect – Associate, issued by Amazon Web Services',
+    platform: 'linkedin',
+    tone: 'professional',
+    includeHashtags: true,
+};
+
+const REPLY = {
+    hook: 'I just passed the AWS Solutions Architect Associate exam!',
+    paragraphs: ['Three months of evening study paid off.', ' Next up: the Professional level. '],
+    callToAction: 'What should I build first?',
+    hashtags: ['#AWS', 'Cloud Computing', '##Certified'],
+    mentions: ['Amazon Web Services'],
+};
+
+describe('getMaxTokens', () => {
+    it('leaves room for a full LinkedIn post in JSON', () => {
+        expect(getMaxTokens('linkedin')).toBeGreaterThanOrEqual(1500);
+        expect(getMaxTokens('twitter')).toBeLessThan(getMaxTokens('linkedin'));
+    });
+
+    it('grows for languages that take more tokens per word', () => {
+        expect(getMaxTokens('linkedin', 'de')).toBeGreaterThan(getMaxTokens('linkedin', 'en'));
+        expect(getMaxTokens('linkedin', 'hi')).toBe(3 * getMaxTokens('linkedin', 'en'));
+    });
+});
+
+describe('validatePost', () => {
+    it('accepts a reply matching the schema and trims its text', () => {
+        const result = validatePost(REPLY);
+
+        expect(result.success).toBe(true);
+        expect(result.data?.paragraphs).toEqual(['Three months of evening study paid off.', 'Next up: the Professional level.']);
+    });
+
+    it('allows missing arrays and a null call to action', () => {
+        expect(validatePost({ hook: 'Certified!', callToAction: null })).toEqual({
+            success: true,
+            data: { hook: 'Certified!', paragraphs: [], callToAction: null, hashtags: [], mentions: [] },
+        });
+    });
+
+    it('lists every schema violation', () => {
+        expect(validatePost({ hook: 42, paragraphs: 'text', callToAction: 7, hashtags: ['#ok', 1] })).toEqual({
+            success: false,
+            error: 'Invalid post: hook must be a string; callToAction must be a string or null; ' +
+                'paragraphs must be an array of strings; hashtags must be an array of strings',
+        });
+    });
+
+    it('rejects a post without text', () => {
+        expect(validatePost({ hook: ' ', paragraphs: ['', '  '] }).error).toBe('Invalid post: the post has no text');
+    });
+
+    it('rejects anything but an object', () => {
+        expect(validatePost([REPLY]).error).toBe('Post is not a JSON object');
+        expect(validatePost(null).error).toBe('Post is not a JSON object');
+    });
+});
+
+describe('parsePostReply', () => {
+    it('joins the parts and normalises hashtags', () => {
+        const result = parsePostReply(`Here is your post:\n\`\`\`json\n${JSON.stringify(REPLY)}\n\`\`\``, REQUEST);
+
+        expect(result.data?.content).toBe(
+            'I just passed the AWS Solutions Architect Associate exam!\n\n' +
+            'Three months of evening study paid off.\n\nNext up: the Professional level.\n\nWhat should I build first?'
+        );
+        expect(result.data?.hashtags).toEqual(['#AWS', '#CloudComputing', '#Certified']);
+    });
+
+    it('drops hashtags when they were not asked for', () => {
+        expect(parsePostReply(JSON.stringify(REPLY), { ...REQUEST, includeHashtags: false }).data?.hashtags).toEqual([]);
+    });
+
+    it('shortens tweets to fit with their hashtags', () => {
+        const long = { ...REPLY, paragraphs: ['x'.repeat(400)] };
+        const result = parsePostReply(JSON.stringify(long), { ...REQUEST, platform: 'twitter' });
+
+        expect(result.data?.characterCount).toBeLessThanOrEqual(280);
+        expect(result.data?.content.endsWith('...')).toBe(true);
+    });
+
+    it('reports a reply that is not JSON', () => {
+        expect(parsePostReply('Sorry, I cannot help with that.', REQUEST)).toEqual({ success: false, error: 'No JSON object in the reply' });
+    });
+});
+
+describe('previewPostReply', () => {
+    const full = JSON.stringify(REPLY, null, 2);
+
+    it('shows the text written so far while the reply streams in', () => {
+        const partial = full.slice(0, full.indexOf('paid off') + 4);
+
+        expect(previewPostReply(partial)).toBe(
+            'I just passed the AWS Solutions Architect Associate exam!\n\nThree months of evening study paid'
+        );
+    });
+
+    it('shows the whole post once the reply is complete', () => {
+        expect(previewPostReply(full)).toBe(
+            'I just passed the AWS Solutions Architect Associate exam!\n\nThree months of evening study paid off.\n\n' +
+            'Next up: the Professional level.\n\nWhat should I build first?'
+        );
+    });
+
+    it('decodes escapes, and skips a half-written one', () => {
+        expect(previewPostReply('{"hook": "Line one\\nTwo \\"quoted\\" \\u00e9')).toBe('Line one\nTwo "quoted" é');
+        expect(previewPostReply('{"hook": "Caf\\u00')).toBe('Caf');
+    });
+
+    it('shows nothing before the first field has started', () => {
+        expect(previewPostReply('{"ho')).toBe('');
+        expect(previewPostReply('{"hook": ')).toBe('');
+    });
+
+    it('skips a null call to action', () => {
+        expect(previewPostReply('{"hook":"Done","paragraphs":[],"callToAction":null}')).toBe('Done');
+    });
+});
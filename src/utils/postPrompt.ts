@@ -0,0 +1,278 @@
+import type { ApiResponse, CertificateLanguage, GeneratedPost, PostGenerationRequest, SocialPlatform } from '../types';
+import { parseJsonReply } from './jsonReply';
+import { LOCALE_PACKS } from './localePacks';
+
+const TWITTER_LIMIT = 280;
+
+/**
+ * JSON schema for a generated post. OpenAI and local servers enforce it
+ * server-side; for other providers `validatePost` checks the same shape.
+ */
+export const POST_SCHEMA = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['hook', 'paragraphs', 'callToAction', 'hashtags', 'mentions'],
+    properties: {
+        hook: { type: 'string', description: 'Opening line that grabs attention' },
+        paragraphs: { type: 'array', items: { type: 'string' }, description: 'Body of the post, one entry per paragraph' },
+        callToAction: { type: ['string', 'null'], description: 'Closing line inviting the audience to respond' },
+        hashtags: { type: 'array', items: { type: 'string' }, description: 'Hashtags, each starting with #' },
+        mentions: { type: 'array', items: { type: 'string' }, description: 'Organisations or people worth tagging, e.g. the issuer' },
+    },
+};
+
+interface RawPost {
+    hook: string;
+    paragraphs: string[];
+    callToAction: string | null;
+    hashtags: string[];
+    mentions: string[];
+}
+
+/**
+ * Token budget for a post reply on a platform, in the post's language
+ */
+export function getMaxTokens(platform: SocialPlatform, language: CertificateLanguage = 'en'): number {
+    // JSON keys and escaping take room on top of the post itself
+    const base = platform === 'twitter' ? 400 : 1500;
+    return Math.ceil(base * LOCALE_PACKS[language].tokenFactor);
+}
+
+/**
+ * Get system prompt based on platform
+ */
+export function getSystemPrompt(platform: SocialPlatform): string {
+    const basePrompt = `You are a social media expert who creates engaging posts about professional achievements and certifications. Your posts should be authentic, engaging, and appropriate for the platform.`;
+
+    const platformSpecifics = {
+        linkedin: `
+        Platform: LinkedIn (professional network)
+        - Character limit: 3000 characters (aim for 1300-1600 for optimal engagement)
+        - Tone: Professional but personable
+        - Include relevant professional insights
+        - Use 3-5 relevant hashtags
+        - Encourage professional discussion
+        - Mention key skills learned
+        - Show gratitude and growth mindset
+      `,
+        twitter: `
+        Platform: Twitter/X
+        - Character limit: 280 characters (strict limit)
+        - Tone: Concise and engaging
+        - Use 1-3 relevant hashtags
+        - Make it shareable and relatable
+        - Focus on the achievement and impact
+        - Use emojis sparingly but effectively
+      `
+    };
+
+    return basePrompt + platformSpecifics[platform];
+}
+
+/**
+ * Build the user prompt
+ */
+export function buildPostPrompt(request: PostGenerationRequest): string {
+    const toneDescriptions = {
+        professional: 'professional and polished',
+        casual: 'casual and friendly',
+        excited: 'enthusiastic and celebratory'
+    };
+
+    const prompt = `Create a ${toneDescriptions[request.tone]} social media post about this certificate/achievement:
+
+${request.certificateContent}
+
+Requirements:
+- Platform: ${request.platform.toUpperCase()}
+- Tone: ${request.tone}
+- Language: ${LOCALE_PACKS[request.language || 'en'].name}
+- ${request.platform === 'twitter' ? 'Must be under 280 characters' : 'Optimal length for LinkedIn engagement (1300-1600 characters)'}
+- ${request.includeHashtags ? 'Include relevant hashtags' : 'Do not include hashtags'}
+- Make it authentic and engaging
+- Show gratitude and excitement appropriately
+- Mention key skills or knowledge gained if applicable
+- Encourage engagement from the audience
+
+${request.customMessage ? `Additional context: ${request.customMessage}` : ''}
+
+Respond with a single JSON object and nothing else, matching this schema:
+${JSON.stringify(POST_SCHEMA.properties)}
+${request.includeHashtags ? '' : 'Leave hashtags empty.'}`;
+
+    return prompt;
+}
+
+/**
+ * Prompt asking the model to fix a reply that could not be used
+ */
+export function buildRepairPrompt(request: PostGenerationRequest, reply: string, error: string): string {
+    return `${buildPostPrompt(request)}
+
+Your previous reply could not be used: ${error}
+Previous reply:
+${reply}
+
+Reply again with only the corrected JSON object.`;
+}
+
+/**
+ * Check a model reply against the post schema
+ */
+export function validatePost(value: unknown): ApiResponse<RawPost> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { success: false, error: 'Post is not a JSON object' };
+    }
+
+    const record = value as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof record.hook !== 'string') {
+        errors.push('hook must be a string');
+    }
+    if (record.callToAction !== null && record.callToAction !== undefined && typeof record.callToAction !== 'string') {
+        errors.push('callToAction must be a string or null');
+    }
+    for (const key of ['paragraphs', 'hashtags', 'mentions']) {
+        const field = record[key];
+        if (field !== undefined && (!Array.isArray(field) || field.some(item => typeof item !== 'string'))) {
+            errors.push(`${key} must be an array of strings`);
+        }
+    }
+    const texts = (record.paragraphs as string[] | undefined) || [];
+    if (errors.length === 0 && !(record.hook as string).trim() && !texts.some(text => text.trim())) {
+        errors.push('the post has no text');
+    }
+
+    if (errors.length > 0) {
+        return { success: false, error: `Invalid post: ${errors.join('; ')}` };
+    }
+
+    const list = (field: unknown) => ((field as string[] | undefined) || []).map(item => item.trim()).filter(Boolean);
+    return {
+        success: true,
+        data: {
+            hook: (record.hook as string).trim(),
+            paragraphs: list(record.paragraphs),
+            callToAction: typeof record.callToAction === 'string' && record.callToAction.trim() ? record.callToAction.trim() : null,
+            hashtags: list(record.hashtags),
+            mentions: list(record.mentions),
+        },
+    };
+}
+
+/**
+ * Turn a JSON model reply into a post
+ */
+export function parsePostReply(reply: string, request: PostGenerationRequest): ApiResponse<GeneratedPost> {
+    let value: unknown;
+    try {
+        value = parseJsonReply(reply);
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'The reply is not JSON' };
+    }
+
+    const validated = validatePost(value);
+    if (!validated.success || !validated.data) {
+        return { success: false, error: validated.error };
+    }
+
+    const raw = validated.data;
+    const hashtags = request.includeHashtags
+        ? [...new Set(raw.hashtags.map(tag => `#${tag.replace(/^#+/, '').replace(/\s+/g, '')}`))]
+        : [];
+    let content = [raw.hook, ...raw.paragraphs, raw.callToAction]
+        .filter((text): text is string => Boolean(text))
+        .join('\n\n');
+
+    // Ensure character limits
+    const hashtagLength = hashtags.length > 0 ? hashtags.join(' ').length + 1 : 0;
+    if (request.platform === 'twitter' && content.length + hashtagLength > TWITTER_LIMIT) {
+        content = content.substring(0, Math.max(0, TWITTER_LIMIT - hashtagLength - 3)).trimEnd() + '...';
+    }
+
+    return {
+        success: true,
+        data: {
+            content,
+            hashtags,
+            platform: request.platform,
+            characterCount: content.length + hashtagLength,
+            hook: raw.hook || undefined,
+            callToAction: raw.callToAction || undefined,
+            mentions: raw.mentions,
+        },
+    };
+}
+
+/**
+ * Readable text of a JSON reply that is still streaming in: the hook,
+ * paragraphs and call to action written so far
+ */
+export function previewPostReply(partial: string): string {
+    const texts: string[] = [];
+    for (const key of ['hook', 'paragraphs', 'callToAction']) {
+        const match = new RegExp(`"${key}"\\s*:\\s*(\\[)?`).exec(partial);
+        if (!match) {
+            continue;
+        }
+
+        let index = match.index + match[0].length;
+        do {
+            index = skipWhitespace(partial, index);
+            if (partial[index] !== '"') {
+                break;
+            }
+            const { value, end } = readJsonString(partial, index + 1);
+            if (value.trim()) {
+                texts.push(value.trim());
+            }
+            index = skipWhitespace(partial, end + 1);
+        } while (match[1] && partial[index++] === ',');
+    }
+    return texts.join('\n\n');
+}
+
+function skipWhitespace(text: string, index: number): number {
+    while (index < text.length && /\s/.test(text[index])) {
+        index++;
+    }
+    return index;
+}
+
+/**
+ * Decode a JSON string starting after its opening quote, up to the closing
+ * quote or the end of the text when it is cut off
+ */
+function readJsonString(text: string, start: number): { value: string; end: number } {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '', '"': '"', '\\': '\\', '/': '/' };
+    let value = '';
+    let index = start;
+    for (; index < text.length && text[index] !== '"'; index++) {
+        if (text[index] !== '\\') {
+            value += text[index];
+        } else if (text[index + 1] === 'u') {
+            const code = text.slice(index + 2, index + 6);
+            if (/^[0-9a-f]{4}$/i.test(code)) {
+                value += String.fromCharCode(parseInt(code, 16));
+            }
+            index += 5;
+        } else if (index + 1 < text.length) {
+            value += escapes[text[++index]] ?? text[index];
+        }
+    }
+    return { value, end: index };
+}
+
+/**
+ * Estimate token usage for a request
+ */
+export function estimateTokens(request: PostGenerationRequest): { input: number; output: number } {
+    const prompt = buildPostPrompt(request);
+    const systemPrompt = getSystemPrompt(request.platform);
+
+    // Rough estimation: ~4 characters per token
+    return {
+        input: Math.ceil((prompt.length + systemPrompt.length) / 4),
+        output: Math.ceil((request.platform === 'twitter' ? 100 : 400) * LOCALE_PACKS[request.language || 'en'].tokenFactor),
+    };
+}
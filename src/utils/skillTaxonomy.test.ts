@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildSkillTaxonomy,
+    canonicalSkillName,
+    extractSkills,
+    getSkillCategory,
+    getSkillSources,
+    SKILL_SOURCE_WEIGHTS
+} from './skillTaxonomy';
+
+const skillsIn = (text: string) => extractSkills([{ text, weight: 1 }]);
+
+describe('extractSkills', () => {
+    it('matches aliases on token boundaries', () => {
+        expect(skillsIn('Completed JavaScript Algorithms and Data Structures')).toEqual(['JavaScript']);
+        expect(skillsIn('Modern C++ and C# for game developers, with Node.js')).toEqual(['C++', 'C#', 'Node.js']);
+    });
+
+    it('matches short names only in their exact case', () => {
+        expect(skillsIn('Intro to ML with R and Swift')).toEqual(['Swift', 'R', 'Machine Learning']);
+        expect(skillsIn('We will swiftly review your résumé and go on to the next step')).toEqual([]);
+    });
+
+    it('ranks skills by where they were mentioned', () => {
+        const sources = getSkillSources(
+            'Certificate: Kubernetes for Developers',
+            'You learned Docker along the way.\n'.repeat(3) + 'Unsubscribe from AWS training news.'
+        );
+
+        expect(extractSkills(sources)).toEqual(['Kubernetes', 'Docker', 'AWS']);
+    });
+
+    it('stops at the limit', () => {
+        expect(extractSkills([{ text: 'Python, Java, SQL, React, Docker', weight: 1 }], undefined, 2)).toEqual(['Python', 'Java']);
+    });
+});
+
+describe('getSkillSources', () => {
+    it('weights the footer below the body and adds attachment text', () => {
+        const body = `${'Congratulations on finishing the course. '.repeat(4)}\nYou are receiving this because you enrolled.`;
+
+        expect(getSkillSources('Subject', body, 'Certificate text').map(source => source.weight)).toEqual([
+            SKILL_SOURCE_WEIGHTS.subject,
+            SKILL_SOURCE_WEIGHTS.body,
+            SKILL_SOURCE_WEIGHTS.footer,
+            SKILL_SOURCE_WEIGHTS.attachment,
+        ]);
+    });
+});
+
+describe('buildSkillTaxonomy', () => {
+    it('adds custom aliases to a built-in skill of the same name', () => {
+        const taxonomy = buildSkillTaxonomy([{ name: 'kubernetes', category: 'practice', aliases: ['kube'] }]);
+
+        expect(extractSkills([{ text: 'Kube fundamentals', weight: 1 }], taxonomy)).toEqual(['Kubernetes']);
+        expect(getSkillCategory('Kubernetes', taxonomy)).toBe('practice');
+    });
+
+    it('finds a new custom skill by its own name', () => {
+        const taxonomy = buildSkillTaxonomy([{ name: 'Snowflake', category: 'database', aliases: ['snowpro'] }]);
+
+        expect(extractSkills([{ text: 'SnowPro Core and Snowflake basics', weight: 1 }], taxonomy)).toEqual(['Snowflake']);
+        expect(getSkillCategory('Snowflake')).toBeNull();
+    });
+});
+
+describe('canonicalSkillName', () => {
+    it('maps names and aliases onto the taxonomy', () => {
+        expect(canonicalSkillName(' amazon web services ')).toBe('AWS');
+        expect(canonicalSkillName('ML')).toBe('Machine Learning');
+        expect(canonicalSkillName('Prompt Engineering')).toBe('Prompt Engineering');
+    });
+});
@@ -0,0 +1,218 @@
+import type { SkillCategory, SkillDefinition } from '../types';
+
+export const SKILL_CATEGORIES: Array<{ value: SkillCategory; label: string }> = [
+    { value: 'language', label: 'Programming language' },
+    { value: 'framework', label: 'Framework or library' },
+    { value: 'cloud', label: 'Cloud and DevOps' },
+    { value: 'database', label: 'Database' },
+    { value: 'data', label: 'Data and AI' },
+    { value: 'security', label: 'Security' },
+    { value: 'practice', label: 'Practice or methodology' },
+    { value: 'soft', label: 'Soft skill' },
+    { value: 'other', label: 'Other' },
+];
+
+/**
+ * Built-in skills. Aliases are matched case-insensitively on token boundaries;
+ * `exactAliases` are matched case-sensitively for short names that collide with
+ * ordinary words ("R", "ML", "Swift").
+ */
+export const DEFAULT_SKILL_TAXONOMY: SkillDefinition[] = [
+    // Programming languages
+    { name: 'JavaScript', category: 'language', aliases: ['javascript', 'ecmascript'], exactAliases: ['JS'] },
+    { name: 'TypeScript', category: 'language', aliases: ['typescript'], exactAliases: ['TS'] },
+    { name: 'Python', category: 'language', aliases: ['python'] },
+    { name: 'Java', category: 'language', aliases: ['java'] },
+    { name: 'C++', category: 'language', aliases: ['c++', 'cpp'] },
+    { name: 'C#', category: 'language', aliases: ['c#', 'csharp'] },
+    { name: 'PHP', category: 'language', aliases: ['php'] },
+    { name: 'Ruby', category: 'language', aliases: ['ruby'] },
+    { name: 'Go', category: 'language', aliases: ['golang', 'go programming', 'go language', 'programming with go', 'go developer'] },
+    { name: 'Rust', category: 'language', aliases: ['rust programming', 'rustlang'], exactAliases: ['Rust'] },
+    { name: 'Kotlin', category: 'language', aliases: ['kotlin'] },
+    { name: 'Swift', category: 'language', aliases: ['swiftui', 'swift programming'], exactAliases: ['Swift'] },
+    { name: 'R', category: 'language', aliases: ['r programming', 'rstudio'], exactAliases: ['R'] },
+    { name: 'SQL', category: 'database', aliases: ['sql'] },
+    // Frameworks and libraries
+    { name: 'React', category: 'framework', aliases: ['react', 'reactjs', 'react.js'] },
+    { name: 'Angular', category: 'framework', aliases: ['angular', 'angularjs'] },
+    { name: 'Vue', category: 'framework', aliases: ['vue', 'vuejs', 'vue.js'] },
+    { name: 'Node.js', category: 'framework', aliases: ['node.js', 'nodejs'], exactAliases: ['Node'] },
+    { name: 'Express', category: 'framework', aliases: ['express.js', 'expressjs'] },
+    { name: 'Django', category: 'framework', aliases: ['django'] },
+    { name: 'Flask', category: 'framework', aliases: ['flask'] },
+    { name: 'Spring', category: 'framework', aliases: ['spring boot', 'spring framework'] },
+    { name: 'Laravel', category: 'framework', aliases: ['laravel'] },
+    // Cloud and DevOps
+    { name: 'AWS', category: 'cloud', aliases: ['aws', 'amazon web services'] },
+    { name: 'Azure', category: 'cloud', aliases: ['azure', 'microsoft azure'] },
+    { name: 'Google Cloud', category: 'cloud', aliases: ['gcp', 'google cloud', 'google cloud platform'] },
+    { name: 'Docker', category: 'cloud', aliases: ['docker'] },
+    { name: 'Kubernetes', category: 'cloud', aliases: ['kubernetes', 'k8s', 'cka', 'ckad'] },
+    { name: 'Jenkins', category: 'cloud', aliases: ['jenkins'] },
+    { name: 'Terraform', category: 'cloud', aliases: ['terraform'] },
+    { name: 'Ansible', category: 'cloud', aliases: ['ansible'] },
+    { name: 'Linux', category: 'cloud', aliases: ['linux'] },
+    { name: 'Git', category: 'cloud', aliases: ['git', 'github', 'gitlab'] },
+    { name: 'DevOps', category: 'practice', aliases: ['devops'] },
+    { name: 'Microservices', category: 'practice', aliases: ['microservices', 'microservice'] },
+    // Databases
+    { name: 'MySQL', category: 'database', aliases: ['mysql'] },
+    { name: 'PostgreSQL', category: 'database', aliases: ['postgresql', 'postgres'] },
+    { name: 'MongoDB', category: 'database', aliases: ['mongodb'] },
+    { name: 'Redis', category: 'database', aliases: ['redis'] },
+    { name: 'Elasticsearch', category: 'database', aliases: ['elasticsearch'] },
+    // Data and AI
+    { name: 'Machine Learning', category: 'data', aliases: ['machine learning'], exactAliases: ['ML'] },
+    { name: 'Deep Learning', category: 'data', aliases: ['deep learning', 'neural networks'] },
+    { name: 'Artificial Intelligence', category: 'data', aliases: ['artificial intelligence', 'generative ai', 'gen ai'], exactAliases: ['AI'] },
+    { name: 'Data Science', category: 'data', aliases: ['data science', 'data scientist'] },
+    { name: 'Data Analysis', category: 'data', aliases: ['data analysis', 'data analytics', 'data analyst'] },
+    { name: 'TensorFlow', category: 'data', aliases: ['tensorflow'] },
+    { name: 'PyTorch', category: 'data', aliases: ['pytorch'] },
+    // Security
+    { name: 'Cybersecurity', category: 'security', aliases: ['cybersecurity', 'cyber security', 'information security', 'security+'] },
+    { name: 'Blockchain', category: 'other', aliases: ['blockchain'] },
+    { name: 'API Design', category: 'practice', aliases: ['rest api', 'restful api', 'api design', 'graphql'] },
+    // Practices and soft skills
+    { name: 'Project Management', category: 'practice', aliases: ['project management', 'pmp'] },
+    { name: 'Agile', category: 'practice', aliases: ['agile'] },
+    { name: 'Scrum', category: 'practice', aliases: ['scrum', 'scrum master'] },
+    { name: 'Leadership', category: 'soft', aliases: ['leadership'] },
+    { name: 'Communication', category: 'soft', aliases: ['communication skills', 'business communication'] },
+    { name: 'Teamwork', category: 'soft', aliases: ['teamwork', 'collaboration'] },
+];
+
+/**
+ * A piece of certificate text and how much a skill mention in it counts
+ */
+export interface SkillSource {
+    text: string;
+    weight: number;
+}
+
+export const SKILL_SOURCE_WEIGHTS = {
+    subject: 5,
+    attachment: 3,
+    body: 2,
+    footer: 0.5,
+};
+
+const DEFAULT_SKILL_LIMIT = 8;
+const FOOTER_MARKER = /unsubscribe|©|\(c\) \d{4}|all rights reserved|privacy policy|you are receiving this|manage (your )?(email )?preferences/i;
+
+/**
+ * Merge user-defined skills into the built-in taxonomy. A custom skill with
+ * the name of a built-in one adds its aliases to it.
+ */
+export function buildSkillTaxonomy(customSkills: SkillDefinition[] = []): SkillDefinition[] {
+    const taxonomy = DEFAULT_SKILL_TAXONOMY.map(skill => ({ ...skill }));
+
+    for (const custom of customSkills) {
+        const existing = taxonomy.find(skill => skill.name.toLowerCase() === custom.name.toLowerCase());
+        if (existing) {
+            existing.aliases = [...new Set([...existing.aliases, ...custom.aliases])];
+            existing.exactAliases = [...new Set([...(existing.exactAliases || []), ...(custom.exactAliases || [])])];
+            existing.category = custom.category;
+        } else {
+            // A new skill is always found by its own name
+            taxonomy.push({ ...custom, aliases: [...new Set([custom.name.toLowerCase(), ...custom.aliases])] });
+        }
+    }
+
+    return taxonomy;
+}
+
+/**
+ * Split a certificate email into weighted sources. Everything after the first
+ * footer marker in the latter half of the body counts as footer.
+ */
+export function getSkillSources(subject: string, body: string, attachmentText?: string): SkillSource[] {
+    const sources: SkillSource[] = [{ text: subject, weight: SKILL_SOURCE_WEIGHTS.subject }];
+
+    const half = Math.floor(body.length / 2);
+    const footerMatch = FOOTER_MARKER.exec(body.slice(half));
+    const footerStart = footerMatch ? half + footerMatch.index : body.length;
+    sources.push({ text: body.slice(0, footerStart), weight: SKILL_SOURCE_WEIGHTS.body });
+    if (footerStart < body.length) {
+        sources.push({ text: body.slice(footerStart), weight: SKILL_SOURCE_WEIGHTS.footer });
+    }
+
+    if (attachmentText) {
+        sources.push({ text: attachmentText, weight: SKILL_SOURCE_WEIGHTS.attachment });
+    }
+
+    return sources;
+}
+
+/**
+ * Find taxonomy skills in the sources, ranked by the weight of where they
+ * were mentioned. Repeat mentions in the same source only count once.
+ */
+export function extractSkills(
+    sources: SkillSource[],
+    taxonomy: SkillDefinition[] = DEFAULT_SKILL_TAXONOMY,
+    limit: number = DEFAULT_SKILL_LIMIT
+): string[] {
+    const scores = new Map<string, { score: number; order: number }>();
+    let order = 0;
+
+    for (const source of sources) {
+        for (const skill of taxonomy) {
+            if (!matchesSkill(source.text, skill)) {
+                continue;
+            }
+            const current = scores.get(skill.name);
+            scores.set(skill.name, {
+                score: (current?.score || 0) + source.weight,
+                order: current?.order ?? order++,
+            });
+        }
+    }
+
+    return [...scores.entries()]
+        .sort(([, a], [, b]) => b.score - a.score || a.order - b.order)
+        .slice(0, limit)
+        .map(([name]) => name);
+}
+
+/**
+ * Look up the category of a skill by canonical name
+ */
+export function getSkillCategory(name: string, taxonomy: SkillDefinition[] = DEFAULT_SKILL_TAXONOMY): SkillCategory | null {
+    return taxonomy.find(skill => skill.name === name)?.category || null;
+}
+
+/**
+ * Map a free-form skill name onto the taxonomy's canonical name when it
+ * matches a name or alias, otherwise return it unchanged
+ */
+export function canonicalSkillName(name: string, taxonomy: SkillDefinition[] = DEFAULT_SKILL_TAXONOMY): string {
+    const trimmed = name.trim();
+    const lower = trimmed.toLowerCase();
+    const match = taxonomy.find(skill =>
+        skill.name.toLowerCase() === lower ||
+        skill.aliases.includes(lower) ||
+        (skill.exactAliases || []).includes(trimmed)
+    );
+    return match ? match.name : trimmed;
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function matchesSkill(text: string, skill: SkillDefinition): boolean {
+    return skill.aliases.some(alias => termPattern(alias, false).test(text))
+        || (skill.exactAliases || []).some(alias => termPattern(alias, true).test(text));
+}
+
+// Token boundaries rather than \b so "c++", "c#" and "node.js" match whole and "java" stays out of "javascript"
+function termPattern(term: string, matchCase: boolean): RegExp {
+    const key = `${matchCase ? 'exact' : 'any'}:${term}`;
+    let pattern = patternCache.get(key);
+    if (!pattern) {
+        const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+        pattern = new RegExp(`(?<![\\w+#.-])${escaped}(?![\\w+#]|\\.\\w)`, matchCase ? '' : 'i');
+        patternCache.set(key, pattern);
+    }
+    return pattern;
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SkillDefinition } from '../types';
+
+const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+
+// In-memory storage area; sync rejects items over its per-item quota like Chrome does
+function createArea(quotaPerItem?: number) {
+    const items: Record<string, unknown> = {};
+    return {
+        items,
+        get: vi.fn(async (keys: string[] | null) =>
+            Object.fromEntries(Object.entries(items).filter(([key]) => keys === null || keys.includes(key)))),
+        set: vi.fn(async (values: Record<string, unknown>) => {
+            for (const [key, value] of Object.entries(values)) {
+                if (quotaPerItem && JSON.stringify(value).length + key.length > quotaPerItem) {
+                    throw new Error('QUOTA_BYTES_PER_ITEM quota exceeded');
+                }
+            }
+            Object.assign(items, values);
+        }),
+        remove: vi.fn(async (keys: string[]) => keys.forEach(key => delete items[key])),
+        clear: vi.fn(async () => Object.keys(items).forEach(key => delete items[key])),
+    };
+}
+
+const manySkills: SkillDefinition[] = Array.from({ length: 120 }, (_, index) => ({
+    name: `Internal Platform Skill ${index}`,
+    category: 'practice',
+    aliases: [`platform skill ${index}`, `ips-${index}`],
+}));
+
+describe('settings storage', () => {
+    let sync: ReturnType<typeof createArea>;
+    let local: ReturnType<typeof createArea>;
+
+    beforeEach(() => {
+        vi.resetModules();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        sync = createArea(SYNC_QUOTA_BYTES_PER_ITEM);
+        local = createArea();
+        vi.stubGlobal('chrome', { storage: { sync, local } });
+    });
+
+    const loadStorage = async () => (await import('./storage')).storage;
+
+    it('keeps custom skills and search rules out of sync', async () => {
+        const storage = await loadStorage();
+
+        expect(await storage.setSettings({ customSkills: manySkills, autoScan: true })).toBe(true);
+
+        expect(sync.items.settings).toMatchObject({ autoScan: true });
+        expect(sync.items.settings).not.toHaveProperty('customSkills');
+        expect(sync.items.settings).not.toHaveProperty('searchRules');
+        expect((await storage.getSettings()).customSkills).toHaveLength(120);
+    });
+
+    it('moves skills saved in sync by older versions to local storage', async () => {
+        sync.items.settings = { autoScan: true, customSkills: manySkills.slice(0, 2) };
+        const storage = await loadStorage();
+
+        expect((await storage.getSettings()).customSkills).toEqual(manySkills.slice(0, 2));
+
+        await storage.setSettings({ scanInterval: 30 });
+        expect(sync.items.settings).not.toHaveProperty('customSkills');
+        expect(local.items.localSettings).toMatchObject({ customSkills: manySkills.slice(0, 2) });
+    });
+
+    it('reports a save that storage rejects', async () => {
+        const storage = await loadStorage();
+
+        expect(await storage.setSettings({ linkedinClientSecret: 'x'.repeat(SYNC_QUOTA_BYTES_PER_ITEM) })).toBe(false);
+    });
+});
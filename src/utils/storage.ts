@@ -1,11 +1,35 @@
-import type { AppSettings, AuthState, Certificate, SocialPost, StorageData } from '../types';
+import type {
+    AIProviderId,
+    AppSettings,
+    AuthState,
+    BackfillState,
+    Certificate,
+    DedupeResult,
+    GmailSyncState,
+    MailSourceId,
+    MailSyncTimes,
+    PendingIntent,
+    ProviderFailures,
+    SocialPost,
+    StorageData
+} from '../types';
+import { DEFAULT_CLASSIFIER_THRESHOLD } from './certificateClassifier';
+import { dedupeCertificates } from './certificateDedup';
+import { toIsoDate } from './dates';
+import { DEFAULT_SEARCH_RULES } from './gmailQuery';
 
 // Default settings
 const DEFAULT_SETTINGS: AppSettings = {
     openaiApiKey: '',
     defaultTone: 'professional',
+    postLanguage: 'certificate',
     autoScan: false,
     scanInterval: 60, // 1 hour
+    classifierThreshold: DEFAULT_CLASSIFIER_THRESHOLD,
+    searchRules: DEFAULT_SEARCH_RULES,
+    customSkills: [],
+    aiExtraction: false,
+    gmailLabels: false,
     defaultPlatforms: ['linkedin'],
     notifications: true,
 };
@@ -19,8 +43,31 @@ const DEFAULT_AUTH_STATE: AuthState = {
     twitterToken: null,
 };
 
+type LegacyCertificate = Omit<Certificate, 'issuedAt'> & { issuedAt?: string; date?: string };
+
+function migrateCertificate(certificate: LegacyCertificate): Certificate {
+    if (certificate.issuedAt !== undefined) {
+        return certificate as Certificate;
+    }
+
+    const { date, expiresAt, ...rest } = certificate;
+    return {
+        ...rest,
+        issuedAt: toIsoDate(date) || '',
+        expiresAt: toIsoDate(expiresAt),
+    };
+}
+
+// Only settings sync between browsers; sync allows 8 KB per item and
+// 100 KB in total, far too little for imported certificates
+const SYNC_KEYS = ['settings'];
+
+// Settings that grow with use stay on this device, under 'localSettings'
+type LocalSettings = Pick<AppSettings, 'customSkills' | 'searchRules'>;
+
 export class StorageService {
     private static instance: StorageService;
+    private migration: Promise<void> | null = null;
 
     private constructor() { }
 
@@ -31,10 +78,39 @@ export class StorageService {
         return StorageService.instance;
     }
 
+    private area(key: string): chrome.storage.StorageArea {
+        return SYNC_KEYS.includes(key) ? chrome.storage.sync : chrome.storage.local;
+    }
+
+    /**
+     * Move data saved by older versions from sync to local storage, once
+     */
+    private migrateFromSync(): Promise<void> {
+        if (!this.migration) {
+            this.migration = (async () => {
+                try {
+                    const legacy = await chrome.storage.sync.get(null);
+                    const keys = Object.keys(legacy).filter(key => !SYNC_KEYS.includes(key));
+                    if (keys.length === 0) {
+                        return;
+                    }
+                    const local = await chrome.storage.local.get(keys);
+                    const missing = keys.filter(key => local[key] === undefined);
+                    await chrome.storage.local.set(Object.fromEntries(missing.map(key => [key, legacy[key]])));
+                    await chrome.storage.sync.remove(keys);
+                } catch (error) {
+                    console.error('Error moving data to local storage:', error);
+                }
+            })();
+        }
+        return this.migration;
+    }
+
     // Generic storage methods
     async get<T>(key: string): Promise<T | null> {
         try {
-            const result = await chrome.storage.sync.get([key]);
+            await this.migrateFromSync();
+            const result = await this.area(key).get([key]);
             return result[key] || null;
         } catch (error) {
             console.error(`Error getting ${key} from storage:`, error);
@@ -44,7 +120,8 @@ export class StorageService {
 
     async set<T>(key: string, value: T): Promise<boolean> {
         try {
-            await chrome.storage.sync.set({ [key]: value });
+            await this.migrateFromSync();
+            await this.area(key).set({ [key]: value });
             return true;
         } catch (error) {
             console.error(`Error setting ${key} in storage:`, error);
@@ -54,7 +131,8 @@ export class StorageService {
 
     async remove(key: string): Promise<boolean> {
         try {
-            await chrome.storage.sync.remove([key]);
+            await this.migrateFromSync();
+            await this.area(key).remove([key]);
             return true;
         } catch (error) {
             console.error(`Error removing ${key} from storage:`, error);
@@ -64,7 +142,7 @@ export class StorageService {
 
     async clear(): Promise<boolean> {
         try {
-            await chrome.storage.sync.clear();
+            await Promise.all([chrome.storage.sync.clear(), chrome.storage.local.clear()]);
             return true;
         } catch (error) {
             console.error('Error clearing storage:', error);
@@ -88,14 +166,28 @@ export class StorageService {
 
     // Settings methods
     async getSettings(): Promise<AppSettings> {
-        const settings = await this.get<AppSettings>('settings');
-        return { ...DEFAULT_SETTINGS, ...settings };
+        const [synced, local] = await Promise.all([
+            this.get<AppSettings>('settings'),
+            this.get<LocalSettings>('localSettings')
+        ]);
+        // Older versions kept every setting in sync, so a local copy wins
+        const settings = { ...synced, ...local };
+        // Rules saved by older versions lack newer fields such as languages
+        return {
+            ...DEFAULT_SETTINGS,
+            ...settings,
+            searchRules: { ...DEFAULT_SEARCH_RULES, ...settings.searchRules },
+        };
     }
 
     async setSettings(settings: Partial<AppSettings>): Promise<boolean> {
         const currentSettings = await this.getSettings();
-        const updatedSettings = { ...currentSettings, ...settings };
-        return await this.set('settings', updatedSettings);
+        const { customSkills, searchRules, ...synced } = { ...currentSettings, ...settings };
+        const saved = await Promise.all([
+            this.set<LocalSettings>('localSettings', { customSkills, searchRules }),
+            this.set('settings', synced)
+        ]);
+        return saved.every(Boolean);
     }
 
     async updateSetting<K extends keyof AppSettings>(
@@ -109,8 +201,19 @@ export class StorageService {
 
     // Certificate methods
     async getCertificates(): Promise<Certificate[]> {
-        const certificates = await this.get<Certificate[]>('certificates');
-        return certificates || [];
+        const certificates = await this.get<LegacyCertificate[]>('certificates');
+        if (!certificates) {
+            return [];
+        }
+
+        // Certificates saved before ISO dates carry a locale-formatted `date`
+        if (certificates.some(certificate => certificate.issuedAt === undefined)) {
+            const migrated = certificates.map(migrateCertificate);
+            await this.setCertificates(migrated);
+            return migrated;
+        }
+
+        return certificates as Certificate[];
     }
 
     async setCertificates(certificates: Certificate[]): Promise<boolean> {
@@ -130,6 +233,33 @@ export class StorageService {
         return await this.setCertificates(certificates);
     }
 
+    async addCertificates(newCertificates: Certificate[]): Promise<boolean> {
+        const certificates = await this.getCertificates();
+
+        for (const certificate of newCertificates) {
+            const existingIndex = certificates.findIndex(c => c.id === certificate.id);
+            if (existingIndex >= 0) {
+                certificates[existingIndex] = certificate;
+            } else {
+                certificates.push(certificate);
+            }
+        }
+
+        return await this.setCertificates(certificates);
+    }
+
+    /**
+     * Save scanned certificates, merging any that duplicate a stored one.
+     * Throws when the write fails so the caller can tell the user.
+     */
+    async saveScannedCertificates(scanned: Certificate[]): Promise<DedupeResult> {
+        const result = dedupeCertificates(await this.getCertificates(), scanned);
+        if (!await this.setCertificates(result.certificates)) {
+            throw new Error('Could not save certificates. Browser storage may be full.');
+        }
+        return result;
+    }
+
     async removeCertificate(certificateId: string): Promise<boolean> {
         const certificates = await this.getCertificates();
         const filteredCertificates = certificates.filter(c => c.id !== certificateId);
@@ -141,6 +271,104 @@ export class StorageService {
         return certificates.find(c => c.id === certificateId) || null;
     }
 
+    // Mail sync methods
+    async getSyncState(): Promise<GmailSyncState | null> {
+        return await this.get<GmailSyncState>('gmailSyncState');
+    }
+
+    async setSyncState(state: GmailSyncState): Promise<boolean> {
+        return await this.set('gmailSyncState', state);
+    }
+
+    async clearSyncState(): Promise<boolean> {
+        return await this.remove('gmailSyncState');
+    }
+
+    async getMailSyncTimes(): Promise<MailSyncTimes> {
+        return (await this.get<MailSyncTimes>('mailSyncTimes')) || {};
+    }
+
+    async setMailSyncTime(source: MailSourceId, syncedAt: string): Promise<boolean> {
+        return await this.set('mailSyncTimes', { ...(await this.getMailSyncTimes()), [source]: syncedAt });
+    }
+
+    async clearMailSyncTimes(): Promise<boolean> {
+        return await this.remove('mailSyncTimes');
+    }
+
+    // Gmail backfill methods
+    async getBackfillState(): Promise<BackfillState | null> {
+        return await this.get<BackfillState>('backfillState');
+    }
+
+    async setBackfillState(state: BackfillState): Promise<boolean> {
+        return await this.set('backfillState', state);
+    }
+
+    async clearBackfillState(): Promise<boolean> {
+        return await this.remove('backfillState');
+    }
+
+    // Failed message methods
+    async getFailedMessageIds(): Promise<string[]> {
+        return (await this.get<string[]>('failedMessageIds')) || [];
+    }
+
+    async addFailedMessageIds(messageIds: string[]): Promise<boolean> {
+        if (messageIds.length === 0) {
+            return true;
+        }
+        const failedIds = await this.getFailedMessageIds();
+        return await this.set('failedMessageIds', [...new Set([...failedIds, ...messageIds])]);
+    }
+
+    async setFailedMessageIds(messageIds: string[]): Promise<boolean> {
+        return await this.set('failedMessageIds', messageIds);
+    }
+
+    // AI provider failure methods
+    async getProviderFailures(): Promise<ProviderFailures> {
+        return (await this.get<ProviderFailures>('providerFailures')) || {};
+    }
+
+    async recordProviderFailure(provider: AIProviderId, failedAt: string, keepSince: string): Promise<boolean> {
+        const failures = await this.getProviderFailures();
+        const recent = (failures[provider] || []).filter(at => at >= keepSince);
+        return await this.set('providerFailures', { ...failures, [provider]: [...recent, failedAt] });
+    }
+
+    async clearProviderFailures(provider: AIProviderId): Promise<boolean> {
+        const failures = await this.getProviderFailures();
+        if (!failures[provider]) {
+            return true;
+        }
+        delete failures[provider];
+        return await this.set('providerFailures', failures);
+    }
+
+    // Expiry reminder methods
+    async getSentReminders(): Promise<string[]> {
+        return (await this.get<string[]>('sentReminders')) || [];
+    }
+
+    async addSentReminder(name: string): Promise<boolean> {
+        const sent = await this.getSentReminders();
+        return sent.includes(name) ? true : await this.set('sentReminders', [...sent, name]);
+    }
+
+    // Notification intent methods
+    async getPendingIntent(): Promise<PendingIntent | null> {
+        return await this.get<PendingIntent>('pendingIntent');
+    }
+
+    async setPendingIntent(intent: PendingIntent): Promise<boolean> {
+        return await this.set('pendingIntent', intent);
+    }
+
+    async clearPendingIntent(): Promise<boolean> {
+        return await this.remove('pendingIntent');
+    }
+
     // Social posts methods
     async getPosts(): Promise<SocialPost[]> {
         const posts = await this.get<SocialPost[]>('posts');